@@ -1,10 +1,38 @@
 import Fastify, { FastifyRequest, FastifyReply } from "fastify";
-import { generateDualStateProof, generateQStreamProof, verifyDualStateProof, verifyQStreamProof } from "@syndual/zk";
 import {
+  aggregateProofs,
+  commitDualState,
+  createProofEnvelope,
+  decodeProofEnvelope,
+  DUAL_STATE_CIRCUIT,
+  generateDualStateProof,
+  generateDualStateProofs,
+  generateQStreamProof,
+  getVerificationKeyRegistry,
+  isMockProof,
+  NullifierSet,
+  parseProofEnvelope,
+  proofNullifier,
+  QSTREAM_CIRCUIT,
+  QSTREAM_SIGNALS,
+  verifyDualStateProof,
+  verifyAggregateProof,
+  verifyQStreamProof,
+} from "@syndual/zk";
+import { createProverPool } from "@syndual/zk/node";
+import {
+  AggregateProof,
+  DualStateCommitments,
   DualStateProof,
+  FinalizationIntent,
+  HashPublicKey,
+  HashSignature,
   QStreamProof,
+  ProofEnvelope,
+  StateHash,
   ProtocolError,
   OperationStatus,
+  ProofType,
   ValidationResult,
   TransactionResult,
 } from "@syndual/core-types";
@@ -15,6 +43,10 @@ import {
   calculateStreamFlow,
   hashDualState,
   batchValidateProofs,
+  dualStateCommitmentsMessage,
+  finalizationIntentMessage,
+  SignatureIndexTracker,
+  verifyHashSignature,
 } from "@syndual/sdk";
 
 // ==================== Request/Response Types ====================
@@ -23,24 +55,61 @@ interface GenerateDualStateProofRequest {
   state0: string;
   state1: string;
   selector: 0 | 1;
+  /** DualStateEngine key (bytes32) the proof is bound to */
+  key: string;
+  /** Nullifier epoch; defaults to 0 */
+  epoch?: string;
+  /** Commitment salts; generated when omitted */
+  salt0?: string;
+  salt1?: string;
 }
 
 interface GenerateDualStateProofResponse {
   proof: DualStateProof;
+  /** Absent for mock proofs */
+  envelope?: ProofEnvelope;
+  commitments: DualStateCommitments;
+  /** Hash of the two states, with the hasher that produced it */
+  stateHash: StateHash;
   valid: boolean;
   timestamp: number;
   gasEstimate?: number;
 }
 
+interface BatchDualStateProofRequest {
+  items: GenerateDualStateProofRequest[];
+}
+
+interface BatchDualStateProofResponse {
+  results: {
+    index: number;
+    proof?: DualStateProof;
+    commitments: DualStateCommitments;
+    error?: string;
+  }[];
+  totalProved: number;
+  totalFailed: number;
+  timestamp: number;
+}
+
 interface GenerateQStreamProofRequest {
   ratePerSecond: string;
-  elapsedTime: string;
-  streamId?: string;
+  start: string;
+  end: string;
+  /** Unix seconds; defaults to now */
+  currentTime?: string;
+  /** Amount already withdrawn from the stream */
+  withdrawn?: string;
+  streamId: string;
+  /** Secret the stream was created with; the proof fails on-chain under any other */
+  nullifierSecret: string;
   metadata?: Record<string, unknown>;
 }
 
 interface GenerateQStreamProofResponse {
   proof: QStreamProof;
+  /** Absent for mock proofs */
+  envelope?: ProofEnvelope;
   valid: boolean;
   timestamp: number;
   estimatedFlow?: string;
@@ -54,6 +123,14 @@ interface VerifyProofRequest {
 interface VerifyProofResponse {
   valid: boolean;
   validationResult: ValidationResult;
+  /** Whether the proof's nullifier was already consumed through `/proofs/consume` */
+  consumed: boolean;
+  timestamp: number;
+}
+
+interface ConsumeProofResponse {
+  /** bytes32 */
+  nullifier: string;
   timestamp: number;
 }
 
@@ -78,6 +155,57 @@ interface BatchProofResponse {
   timestamp: number;
 }
 
+interface AggregateProofsRequest {
+  proofType: "dual-state" | "qstream";
+  proofs: (DualStateProof | QStreamProof)[];
+}
+
+interface AggregateProofsResponse {
+  aggregate: AggregateProof;
+  proofCount: number;
+  timestamp: number;
+}
+
+interface VerifyAggregateRequest {
+  aggregate: AggregateProof;
+}
+
+interface VerifyAggregateResponse {
+  valid: boolean;
+  proofCount: number;
+  timestamp: number;
+}
+
+interface VerifyEnvelopeRequest {
+  /** JSON envelope, or the binary form as 0x-prefixed hex */
+  envelope: ProofEnvelope | string;
+}
+
+interface VerifyEnvelopeResponse {
+  valid: boolean;
+  envelope: ProofEnvelope;
+  /** Registry version of the key named by the envelope */
+  keyVersion?: number;
+  error?: string;
+  timestamp: number;
+}
+
+interface VerifySignatureRequest {
+  publicKey: HashPublicKey;
+  signature: HashSignature;
+  /** Signed dual-state commitments; give either these or `intent` */
+  commitments?: { key: string; commitment0: string; commitment1: string };
+  /** Signed finalization intent, with the epoch as a decimal string */
+  intent?: Omit<FinalizationIntent, "epoch"> & { epoch: string };
+}
+
+interface VerifySignatureResponse {
+  valid: boolean;
+  /** One-time key that signed */
+  index: number;
+  timestamp: number;
+}
+
 interface StreamInfoRequest {
   streamId: string;
 }
@@ -136,6 +264,20 @@ const server = Fastify({
 // Request counter for monitoring
 let requestCounter = 0;
 
+// Proving runs on worker threads so that batches do not block request handling
+const MAX_PROOF_BATCH_SIZE = 100;
+const MAX_AGGREGATE_SIZE = 1000;
+const AGGREGATE_PROOF_TYPES = { "dual-state": ProofType.DUAL_STATE, qstream: ProofType.QSTREAM } as const;
+const NULLIFIER_CIRCUITS = { "dual-state": DUAL_STATE_CIRCUIT, qstream: QSTREAM_CIRCUIT } as const;
+// Nullifiers of proofs consumed through this API; a restart forgets them
+const consumedNullifiers = new NullifierSet();
+// Messages signed by each one-time key seen through this API; a restart forgets them
+const signatureIndices = new SignatureIndexTracker();
+const proverPool = createProverPool({
+  parallel: process.env.PROVER_PARALLEL !== "false",
+  timeout: Number(process.env.PROVER_TIMEOUT_MS || 60000),
+});
+
 // Error handler middleware
 const errorHandler = (err: any, statusCode: number = 500): ErrorResponse => {
   const requestId = `req-${requestCounter}`;
@@ -148,6 +290,9 @@ const errorHandler = (err: any, statusCode: number = 500): ErrorResponse => {
   };
 };
 
+/** Narrows a caught value to an Error for errorHandler */
+const toError = (err: unknown): Error => (err instanceof Error ? err : new Error(String(err)));
+
 // ==================== Health & Status Endpoints ====================
 
 server.get("/health", async () => ({
@@ -168,21 +313,28 @@ server.post<{ Body: GenerateDualStateProofRequest }>(
   "/dual-state/proof",
   async (request: FastifyRequest<{ Body: GenerateDualStateProofRequest }>, reply: FastifyReply) => {
     requestCounter++;
-    const { state0, state1, selector } = request.body;
+    const { state0, state1, selector, key, epoch, salt0, salt1 } = request.body;
 
     try {
-      if (!state0 || !state1 || selector === undefined) {
+      if (!state0 || !state1 || selector === undefined || !key) {
         reply.status(400);
-        return errorHandler(new Error("state0, state1, and selector are required"), 400);
+        return errorHandler(new Error("state0, state1, selector and key are required"), 400);
       }
 
-      const proof = await generateDualStateProof(state0, state1, selector);
+      const commitments = await commitDualState(state0, state1, { salt0, salt1 });
+      const proof = await generateDualStateProof(state0, state1, selector, commitments, {
+        key,
+        epoch: epoch ? BigInt(epoch) : undefined,
+      });
       const valid = await verifyDualStateProof(proof);
       const validation = await validateDualStateProof(proof);
-      const stateHash = hashDualState({ state0, state1, createdAt: Date.now() });
+      const stateHash = await hashDualState({ state0, state1, createdAt: Date.now() });
 
       const response: GenerateDualStateProofResponse = {
         proof,
+        envelope: isMockProof(proof.proof) ? undefined : createProofEnvelope(DUAL_STATE_CIRCUIT, proof),
+        commitments,
+        stateHash,
         valid,
         timestamp: Date.now(),
         gasEstimate: 150000,
@@ -198,6 +350,70 @@ server.post<{ Body: GenerateDualStateProofRequest }>(
   }
 );
 
+server.post<{ Body: BatchDualStateProofRequest }>(
+  "/dual-state/proofs",
+  async (request: FastifyRequest<{ Body: BatchDualStateProofRequest }>, reply: FastifyReply) => {
+    requestCounter++;
+    const { items } = request.body;
+
+    try {
+      if (!Array.isArray(items) || items.length === 0 || items.length > MAX_PROOF_BATCH_SIZE) {
+        reply.status(400);
+        return errorHandler(new Error(`items must contain 1 to ${MAX_PROOF_BATCH_SIZE} proof requests`), 400);
+      }
+      if (items.some((item) => !item.key)) {
+        reply.status(400);
+        return errorHandler(new Error("Every item needs a key"), 400);
+      }
+      if (proverPool.isSaturated()) {
+        reply.status(503);
+        return errorHandler(new Error("Prover is busy, retry later"), 503);
+      }
+
+      // Stop proving if the client goes away before the batch completes
+      const controller = new AbortController();
+      reply.raw.on("close", () => {
+        if (!reply.raw.writableFinished) controller.abort();
+      });
+
+      const commitments = await Promise.all(
+        items.map((item) => commitDualState(item.state0, item.state1, { salt0: item.salt0, salt1: item.salt1 })),
+      );
+      const outcomes = await generateDualStateProofs(
+        items.map((item, i) => ({
+          state0: item.state0,
+          state1: item.state1,
+          selector: item.selector,
+          salts: commitments[i],
+          key: item.key,
+          epoch: item.epoch ? BigInt(item.epoch) : undefined,
+        })),
+        proverPool,
+        { signal: controller.signal },
+      );
+
+      const response: BatchDualStateProofResponse = {
+        results: outcomes.map((outcome) => ({
+          index: outcome.index,
+          proof: outcome.proof,
+          commitments: commitments[outcome.index],
+          error: outcome.error?.message,
+        })),
+        totalProved: outcomes.filter((o) => o.proof).length,
+        totalFailed: outcomes.filter((o) => o.error).length,
+        timestamp: Date.now(),
+      };
+
+      reply.status(200);
+      return response;
+    } catch (err) {
+      request.log.error(err);
+      reply.status(500);
+      return errorHandler(toError(err), 500);
+    }
+  }
+);
+
 server.post<{ Body: VerifyProofRequest }>(
   "/proof/verify",
   async (request: FastifyRequest<{ Body: VerifyProofRequest }>, reply: FastifyReply) => {
@@ -216,9 +432,13 @@ server.post<{ Body: VerifyProofRequest }>(
         return errorHandler(new Error("Invalid proofType"), 400);
       }
 
+      const consumed =
+        validationResult.valid &&
+        consumedNullifiers.has(proofNullifier(NULLIFIER_CIRCUITS[proofType], proof.publicSignals));
       const response: VerifyProofResponse = {
         valid: validationResult.valid,
         validationResult,
+        consumed,
         timestamp: Date.now(),
       };
 
@@ -232,6 +452,61 @@ server.post<{ Body: VerifyProofRequest }>(
   }
 );
 
+/**
+ * Marks a valid proof as used so the same proof is rejected if submitted again.
+ * Call this before acting on a proof, e.g. releasing a payment.
+ */
+server.post<{ Body: VerifyProofRequest }>(
+  "/proofs/consume",
+  async (request: FastifyRequest<{ Body: VerifyProofRequest }>, reply: FastifyReply) => {
+    requestCounter++;
+    const { proof, proofType } = request.body;
+
+    try {
+      if (proofType !== "dual-state" && proofType !== "qstream") {
+        reply.status(400);
+        return errorHandler(new Error("Invalid proofType"), 400);
+      }
+
+      let nullifier: string;
+      try {
+        nullifier = proofNullifier(NULLIFIER_CIRCUITS[proofType], proof?.publicSignals ?? []);
+      } catch (err) {
+        reply.status(400);
+        return errorHandler(toError(err), 400);
+      }
+      if (consumedNullifiers.has(nullifier)) {
+        reply.status(409);
+        return errorHandler(new Error("Proof was already consumed"), 409);
+      }
+
+      // Checked under the key registry, so proofs of retired keys cannot be consumed
+      const validation =
+        proofType === "dual-state"
+          ? await validateDualStateProof(proof as DualStateProof)
+          : await validateQStreamProof(proof as QStreamProof);
+      if (!validation.valid) {
+        reply.status(400);
+        const reasons = validation.errors?.join("; ") || "invalid proof";
+        return errorHandler(new Error(`Proof verification failed: ${reasons}`), 400);
+      }
+      // Checked again after verifying: a concurrent request may have consumed it meanwhile
+      if (!consumedNullifiers.consume(nullifier)) {
+        reply.status(409);
+        return errorHandler(new Error("Proof was already consumed"), 409);
+      }
+
+      const response: ConsumeProofResponse = { nullifier, timestamp: Date.now() };
+      reply.status(200);
+      return response;
+    } catch (err) {
+      request.log.error(err);
+      reply.status(500);
+      return errorHandler(toError(err), 500);
+    }
+  }
+);
+
 // ==================== Stream Validation Endpoints ====================
 
 
@@ -240,24 +515,32 @@ server.post<{ Body: GenerateQStreamProofRequest }>(
   "/qstream/proof",
   async (request: FastifyRequest<{ Body: GenerateQStreamProofRequest }>, reply: FastifyReply) => {
     requestCounter++;
-    const { ratePerSecond, elapsedTime, streamId, metadata } = request.body;
+    const { ratePerSecond, start, end, currentTime, withdrawn, streamId, nullifierSecret } = request.body;
 
     try {
-      if (!ratePerSecond || !elapsedTime) {
+      if (!ratePerSecond || !start || !end || streamId === undefined || !nullifierSecret) {
         reply.status(400);
-        return errorHandler(new Error("ratePerSecond and elapsedTime are required"), 400);
+        return errorHandler(new Error("ratePerSecond, start, end, streamId and nullifierSecret are required"), 400);
       }
 
-      const rate = BigInt(ratePerSecond);
-      const elapsed = BigInt(elapsedTime);
-      const proof = await generateQStreamProof(rate, elapsed);
+      const stream = {
+        ratePerSecond: BigInt(ratePerSecond),
+        start: BigInt(start),
+        end: BigInt(end),
+        settled: withdrawn ? BigInt(withdrawn) : 0n,
+      };
+      const proof = await generateQStreamProof(
+        stream,
+        { streamId: BigInt(streamId), secret: nullifierSecret },
+        currentTime ? BigInt(currentTime) : undefined,
+      );
       const valid = await verifyQStreamProof(proof);
-      const validation = await validateQStreamProof(proof);
 
-      const estimatedFlow = (rate * elapsed).toString();
+      const estimatedFlow = proof.publicSignals[QSTREAM_SIGNALS.owedAmount];
 
       const response: GenerateQStreamProofResponse = {
         proof,
+        envelope: isMockProof(proof.proof) ? undefined : createProofEnvelope(QSTREAM_CIRCUIT, proof),
         valid,
         timestamp: Date.now(),
         estimatedFlow,
@@ -336,6 +619,152 @@ server.post<{ Body: BatchProofRequest }>(
   }
 );
 
+server.post<{ Body: AggregateProofsRequest }>(
+  "/proofs/aggregate",
+  async (request: FastifyRequest<{ Body: AggregateProofsRequest }>, reply: FastifyReply) => {
+    requestCounter++;
+    const { proofType, proofs } = request.body;
+
+    if (proofType !== "dual-state" && proofType !== "qstream") {
+      reply.status(400);
+      return errorHandler(new Error("proofType must be dual-state or qstream"), 400);
+    }
+    if (!Array.isArray(proofs) || proofs.length === 0 || proofs.length > MAX_AGGREGATE_SIZE) {
+      reply.status(400);
+      return errorHandler(new Error(`proofs must contain 1 to ${MAX_AGGREGATE_SIZE} proofs`), 400);
+    }
+
+    try {
+      const aggregate = await aggregateProofs(AGGREGATE_PROOF_TYPES[proofType], proofs);
+
+      const response: AggregateProofsResponse = {
+        aggregate,
+        proofCount: aggregate.proofs.length,
+        timestamp: Date.now(),
+      };
+
+      reply.status(200);
+      return response;
+    } catch (err) {
+      // The request was checked above, so this means some proofs do not verify
+      request.log.error(err);
+      reply.status(400);
+      return errorHandler(toError(err), 400);
+    }
+  }
+);
+
+server.post<{ Body: VerifyAggregateRequest }>(
+  "/proofs/aggregate/verify",
+  async (request: FastifyRequest<{ Body: VerifyAggregateRequest }>, reply: FastifyReply) => {
+    requestCounter++;
+    const { aggregate } = request.body;
+
+    try {
+      if (!aggregate || !Array.isArray(aggregate.proofs) || aggregate.proofs.length > MAX_AGGREGATE_SIZE) {
+        reply.status(400);
+        return errorHandler(new Error(`aggregate must contain at most ${MAX_AGGREGATE_SIZE} proofs`), 400);
+      }
+
+      const response: VerifyAggregateResponse = {
+        valid: await verifyAggregateProof(aggregate),
+        proofCount: aggregate.proofs.length,
+        timestamp: Date.now(),
+      };
+
+      reply.status(200);
+      return response;
+    } catch (err) {
+      request.log.error(err);
+      reply.status(500);
+      return errorHandler(toError(err), 500);
+    }
+  }
+);
+
+server.post<{ Body: VerifyEnvelopeRequest }>(
+  "/proofs/envelope/verify",
+  async (request: FastifyRequest<{ Body: VerifyEnvelopeRequest }>, reply: FastifyReply) => {
+    requestCounter++;
+    const { envelope: body } = request.body ?? {};
+
+    let envelope: ProofEnvelope;
+    try {
+      envelope =
+        typeof body === "string" && body.startsWith("0x") ? decodeProofEnvelope(body) : parseProofEnvelope(body);
+    } catch (err) {
+      reply.status(400);
+      return errorHandler(toError(err), 400);
+    }
+
+    try {
+      // Envelopes name their key, so retired or unknown keys are rejected before verifying
+      const result = await getVerificationKeyRegistry().verifyEnvelope(envelope);
+      const response: VerifyEnvelopeResponse = {
+        valid: result.valid,
+        envelope,
+        keyVersion: result.key?.version,
+        error: result.error,
+        timestamp: Date.now(),
+      };
+
+      reply.status(200);
+      return response;
+    } catch (err) {
+      request.log.error(err);
+      reply.status(500);
+      return errorHandler(toError(err), 500);
+    }
+  }
+);
+
+// ==================== Signature Endpoints ====================
+
+server.post<{ Body: VerifySignatureRequest }>(
+  "/signatures/verify",
+  async (request: FastifyRequest<{ Body: VerifySignatureRequest }>, reply: FastifyReply) => {
+    requestCounter++;
+    const { publicKey, signature, commitments, intent } = request.body ?? {};
+
+    if (!publicKey || !signature) {
+      reply.status(400);
+      return errorHandler(new Error("Missing publicKey or signature"), 400);
+    }
+
+    let message: string;
+    try {
+      if (commitments && !intent) {
+        message = dualStateCommitmentsMessage(commitments.key, commitments);
+      } else if (intent && !commitments) {
+        message = finalizationIntentMessage({ ...intent, epoch: BigInt(intent.epoch) });
+      } else {
+        reply.status(400);
+        return errorHandler(new Error("Give exactly one of commitments and intent"), 400);
+      }
+    } catch (err) {
+      reply.status(400);
+      return errorHandler(toError(err), 400);
+    }
+
+    try {
+      const valid = verifyHashSignature(publicKey, message, signature);
+      // A one-time key that signed two messages is compromised, so its signatures are refused
+      if (valid && !signatureIndices.record(publicKey, signature, message)) {
+        reply.status(409);
+        return errorHandler(new Error(`One-time key ${signature.index} already signed a different message`), 409);
+      }
+
+      const response: VerifySignatureResponse = { valid, index: signature.index, timestamp: Date.now() };
+      reply.status(200);
+      return response;
+    } catch (err) {
+      request.log.error(err);
+      reply.status(500);
+      return errorHandler(toError(err), 500);
+    }
+  }
+);
+
 // ==================== Configuration & Stats Endpoints ====================
 
 server.get<{ Reply: ConfigResponse }>(
@@ -352,7 +781,7 @@ server.get<{ Reply: ConfigResponse }>(
       },
       limits: {
         maxProofSize: 2048,
-        maxBatchSize: 100,
+        maxBatchSize: MAX_PROOF_BATCH_SIZE,
         maxStreamsPerBatch: 1000,
       },
       timestamp: Date.now(),
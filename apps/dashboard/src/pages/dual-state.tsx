@@ -1,6 +1,12 @@
 import { FormEvent, useEffect, useMemo, useState } from "react";
 import { ethers } from "ethers";
-import { SynDualClient } from "@syndual/sdk";
+import {
+  DUAL_STATE_CIRCUIT,
+  SynDualClient,
+  createProofEnvelope,
+  deriveDualStateCommitments,
+  isMockProof,
+} from "@syndual/sdk";
 
 const mockAddresses = {
   token: "0x0000000000000000000000000000000000000000",
@@ -10,8 +16,8 @@ const mockAddresses = {
 
 export default function DualStatePage() {
   const [keyInput, setKeyInput] = useState("dual-key");
-  const [state0, setState0] = useState("state-0-hash");
-  const [state1, setState1] = useState("state-1-hash");
+  const [state0, setState0] = useState("1001");
+  const [state1, setState1] = useState("2002");
   const [selector, setSelector] = useState<0 | 1>(0);
   const [status, setStatus] = useState<string>("");
   const [proofPayload, setProofPayload] = useState<any>(null);
@@ -34,12 +40,18 @@ export default function DualStatePage() {
     setFinalized("");
     setProofPayload(null);
     try {
-      const proof = await client.requestDualStateProof(state0, state1, selector);
-      setProofPayload(proof);
+      const commitments = await deriveDualStateCommitments(state0, state1);
+      const proof = await client.requestDualStateProof(state0, state1, selector, commitments, { key: keyHash });
+      // Real proofs are shown in the shared envelope format
+      setProofPayload({
+        proof: isMockProof(proof.proof) ? proof : createProofEnvelope(DUAL_STATE_CIRCUIT, proof),
+        commitments,
+      });
       setStatus("Proof generated (mock)");
       try {
-        const chosen = await client.finalizeState(keyHash, selector);
-        setFinalized(chosen);
+        await client.setDualState(keyHash, commitments.commitment0, commitments.commitment1);
+        const result = await client.finalizeState(keyHash, selector, proof);
+        setFinalized(result.chosenState);
       } catch (err) {
         // No live contract; surface mock message instead of hard failing
         setFinalized("finalization pending on-chain");
@@ -55,7 +67,8 @@ export default function DualStatePage() {
     <main className="mx-auto max-w-4xl px-6 py-10">
       <h1 className="text-3xl font-semibold text-sky-100">Dual-State Playground</h1>
       <p className="mt-2 text-slate-300">
-        Define dual states, generate a mocked ZK-DualProof, and finalize selection through the Gate-01 Engine interface.
+        Define dual states, commit to them with Poseidon, generate a ZK-DualProof, and finalize selection through the
+        Gate-01 Engine interface.
       </p>
 
       <form onSubmit={onSubmit} className="mt-6 space-y-4 rounded-xl border border-slate-800 bg-slate-900 p-6">
@@ -70,7 +83,7 @@ export default function DualStatePage() {
         </div>
         <div className="grid gap-4 md:grid-cols-2">
           <div>
-            <label className="text-sm text-slate-300">State 0 (hash)</label>
+            <label className="text-sm text-slate-300">State 0 (field element)</label>
             <input
               className="mt-1 w-full rounded-md border border-slate-800 bg-slate-950 p-2 text-slate-100"
               value={state0}
@@ -78,7 +91,7 @@ export default function DualStatePage() {
             />
           </div>
           <div>
-            <label className="text-sm text-slate-300">State 1 (hash)</label>
+            <label className="text-sm text-slate-300">State 1 (field element)</label>
             <input
               className="mt-1 w-full rounded-md border border-slate-800 bg-slate-950 p-2 text-slate-100"
               value={state1}
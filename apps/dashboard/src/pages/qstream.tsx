@@ -1,6 +1,6 @@
 import { FormEvent, useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { SynDualClient } from "@syndual/sdk";
+import { QSTREAM_CIRCUIT, SynDualClient, createProofEnvelope, isMockProof } from "@syndual/sdk";
 
 const mockAddresses = {
   token: "0x0000000000000000000000000000000000000000",
@@ -12,6 +12,7 @@ export default function QStreamPage() {
   const [to, setTo] = useState("0x000000000000000000000000000000000000dEaD");
   const [rate, setRate] = useState("1000000000000000");
   const [elapsed, setElapsed] = useState("60");
+  const [duration, setDuration] = useState("3600");
   const [status, setStatus] = useState("");
   const [proof, setProof] = useState<any>(null);
 
@@ -29,10 +30,18 @@ export default function QStreamPage() {
     setStatus("Generating Q-Stream proof...");
     setProof(null);
     try {
-      const rateBigInt = BigInt(rate);
-      const elapsedBigInt = BigInt(elapsed);
-      const generated = await client.requestQStreamProof(rateBigInt, elapsedBigInt);
-      setProof(generated);
+      // Model a stream that started `elapsed` seconds ago
+      const now = BigInt(Math.floor(Date.now() / 1000));
+      const start = now - BigInt(elapsed);
+      // 31 random bytes always fit in the field
+      const secret = ethers.toBigInt(ethers.randomBytes(31));
+      const generated = await client.requestQStreamProof(
+        { from: ethers.ZeroAddress, to, ratePerSecond: BigInt(rate), start, end: start + BigInt(duration) },
+        { streamId: 0n, secret },
+        now,
+      );
+      // Real proofs are shown in the shared envelope format
+      setProof(isMockProof(generated.proof) ? generated : createProofEnvelope(QSTREAM_CIRCUIT, generated));
       setStatus("Proof generated (mock)");
     } catch (err) {
       console.error(err);
@@ -56,7 +65,7 @@ export default function QStreamPage() {
             onChange={(e) => setTo(e.target.value)}
           />
         </div>
-        <div className="grid gap-4 md:grid-cols-2">
+        <div className="grid gap-4 md:grid-cols-3">
           <div>
             <label className="text-sm text-slate-300">Rate per second (wei)</label>
             <input
@@ -73,6 +82,14 @@ export default function QStreamPage() {
               onChange={(e) => setElapsed(e.target.value)}
             />
           </div>
+          <div>
+            <label className="text-sm text-slate-300">Duration seconds</label>
+            <input
+              className="mt-1 w-full rounded-md border border-slate-800 bg-slate-950 p-2 text-slate-100"
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+            />
+          </div>
         </div>
         <button
           type="submit"
@@ -86,7 +103,7 @@ export default function QStreamPage() {
       {proof && (
         <section className="mt-6 rounded-xl border border-slate-800 bg-slate-900 p-6">
           <h2 className="text-xl font-semibold text-sky-100">Proof Output</h2>
-          <p className="mt-2 text-slate-300">Owed amount (wei): {BigInt(rate) * BigInt(elapsed)}</p>
+          <p className="mt-2 text-slate-300">Owed amount (wei): {proof.publicSignals[0]}</p>
           <pre className="mt-3 overflow-auto whitespace-pre-wrap text-sm text-slate-200">
             {JSON.stringify(proof, null, 2)}
           </pre>
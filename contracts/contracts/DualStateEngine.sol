@@ -2,20 +2,43 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "./NullifierSet.sol";
+import "./ZKDualProofVerifier.sol";
 
-contract DualStateEngine is Ownable {
+contract DualStateEngine is Ownable, NullifierSet {
     struct DualState {
         bytes32 state0;
         bytes32 state1;
         uint64 createdAt;
     }
 
+    struct FinalizedState {
+        bytes32 chosenState;
+        uint8 chosenIndex;
+        uint64 finalizedAt;
+    }
+
+    /// @notice Root of the empty depth-16 Poseidon tree used by the `dual_state_rollup` circuit
+    bytes32 public constant EMPTY_STATE_ROOT = 0x2a7c7c9b6ce5880b9f6f228d72bf6a575a526f29c66ecceef8b753d38bba7323;
+
+    uint256 internal constant SNARK_SCALAR_FIELD =
+        21888242871839275222246405745257275088548364400416034343698204186575808495617;
+
     mapping(bytes32 => DualState) private dualStates;
+    mapping(bytes32 => FinalizedState) private finalizedStates;
+    // Finalized keys reduced into the field, as rollup proofs carry them
+    mapping(uint256 => bool) private finalizedKeyFields;
     mapping(address => bool) public controllers;
+    ZKDualProofVerifier public verifier;
+    /// @notice Root of the rolled-up dual states; leaves are Poseidon(key, state0, state1)
+    bytes32 public stateRoot = EMPTY_STATE_ROOT;
+    uint256 public rollupBatchCount;
 
     event DualStateSet(bytes32 indexed key, bytes32 state0, bytes32 state1, uint64 createdAt);
     event DualStateFinalized(bytes32 indexed key, uint8 indexed chosenIndex, bytes32 chosenState);
     event ControllerUpdated(address indexed controller, bool allowed);
+    event VerifierUpdated(address indexed verifier);
+    event StateRootUpdated(uint256 indexed batchIndex, bytes32 oldRoot, bytes32 newRoot);
 
     constructor(address owner_) Ownable(owner_) {}
 
@@ -29,20 +52,103 @@ contract DualStateEngine is Ownable {
         emit ControllerUpdated(controller, allowed);
     }
 
+    function setVerifier(ZKDualProofVerifier verifier_) external onlyOwner {
+        verifier = verifier_;
+        emit VerifierUpdated(address(verifier_));
+    }
+
     function setDualState(bytes32 key, bytes32 state0, bytes32 state1) external onlyController {
+        _setDualState(key, state0, state1, uint64(block.timestamp));
+    }
+
+    function batchSetDualStates(
+        bytes32[] calldata keys,
+        bytes32[] calldata states0,
+        bytes32[] calldata states1
+    ) external onlyController {
+        require(keys.length == states0.length && keys.length == states1.length, "length mismatch");
         uint64 timestamp = uint64(block.timestamp);
-        dualStates[key] = DualState({state0: state0, state1: state1, createdAt: timestamp});
-        emit DualStateSet(key, state0, state1, timestamp);
+        for (uint256 i = 0; i < keys.length; i++) {
+            _setDualState(keys[i], states0[i], states1[i], timestamp);
+        }
     }
 
-    function finalizeState(bytes32 key, uint8 chosenStateIndex) external view returns (bytes32) {
+    /// @notice Collapses a dual state to one of its values once a ZK-DualProof for that value verifies.
+    /// @dev Stored states are Poseidon commitments; the proof opens the chosen one to `chosenState`
+    /// without revealing the other. The proof is bound to `key` and `epoch`, and its nullifier is spent.
+    /// After finalization the key is frozen and can no longer be set.
+    function finalizeWithProof(
+        bytes32 key,
+        uint8 chosenStateIndex,
+        bytes32 chosenState,
+        uint64 epoch,
+        bytes32 nullifier,
+        bytes calldata proof
+    ) external onlyController {
         require(chosenStateIndex < 2, "invalid index");
+        require(address(verifier) != address(0), "verifier not set");
         DualState memory ds = dualStates[key];
         require(ds.createdAt != 0, "dual state missing");
-        return chosenStateIndex == 0 ? ds.state0 : ds.state1;
+        require(finalizedStates[key].finalizedAt == 0, "already finalized");
+        _useNullifier(nullifier);
+
+        ZKDualProofVerifier.DualProofSignals memory signals = ZKDualProofVerifier.DualProofSignals({
+            chosenState: chosenState,
+            nullifier: nullifier,
+            commitment0: ds.state0,
+            commitment1: ds.state1,
+            chosenStateIndex: chosenStateIndex,
+            key: key,
+            epoch: epoch
+        });
+        require(verifier.verifyDualProof(proof, signals), "invalid proof");
+
+        finalizedStates[key] = FinalizedState({
+            chosenState: chosenState,
+            chosenIndex: chosenStateIndex,
+            finalizedAt: uint64(block.timestamp)
+        });
+        finalizedKeyFields[uint256(key) % SNARK_SCALAR_FIELD] = true;
+        emit DualStateFinalized(key, chosenStateIndex, chosenState);
+    }
+
+    /// @notice Commits a batch of dual-state writes to `keys` proved off-chain, replacing the state root.
+    /// @dev Rolled-up states are not stored per key; readers rebuild the tree from the batch data
+    /// kept off-chain and check it against `stateRoot`. The proof binds the keys it writes, so a batch
+    /// touching a finalized key is refused like `setDualState` would be. Keys are compared after reduction
+    /// into the field, so another bytes32 with the same reduction cannot stand in for a finalized key.
+    function commitBatch(
+        bytes32 oldRoot,
+        bytes32 newRoot,
+        bytes32[] calldata keys,
+        bytes calldata proof
+    ) external onlyController {
+        require(address(verifier) != address(0), "verifier not set");
+        require(oldRoot == stateRoot, "stale state root");
+        for (uint256 i = 0; i < keys.length; i++) {
+            require(!finalizedKeyFields[uint256(keys[i]) % SNARK_SCALAR_FIELD], "already finalized");
+        }
+        require(verifier.verifyRollup(proof, oldRoot, newRoot, keys), "invalid proof");
+
+        stateRoot = newRoot;
+        emit StateRootUpdated(rollupBatchCount++, oldRoot, newRoot);
     }
 
     function getDualState(bytes32 key) external view returns (DualState memory) {
         return dualStates[key];
     }
+
+    function getFinalizedState(bytes32 key) external view returns (FinalizedState memory) {
+        return finalizedStates[key];
+    }
+
+    function isFinalized(bytes32 key) public view returns (bool) {
+        return finalizedStates[key].finalizedAt != 0;
+    }
+
+    function _setDualState(bytes32 key, bytes32 state0, bytes32 state1, uint64 timestamp) internal {
+        require(!isFinalized(key), "already finalized");
+        dualStates[key] = DualState({state0: state0, state1: state1, createdAt: timestamp});
+        emit DualStateSet(key, state0, state1, timestamp);
+    }
 }
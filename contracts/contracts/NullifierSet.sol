@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @notice Spent set of proof nullifiers, so a proof unlocks a payment or finalization once.
+/// @dev Nullifiers are public outputs of the `dual_state` and `qstream_settle` circuits, derived from a
+/// secret and the key plus epoch, or the stream plus its withdrawn amount, the proof is for.
+abstract contract NullifierSet {
+    mapping(bytes32 => bool) public nullifierUsed;
+
+    event NullifierUsed(bytes32 indexed nullifier);
+
+    /// @dev Call before verifying the proof; a failed verification reverts the whole call, marking included.
+    function _useNullifier(bytes32 nullifier) internal {
+        require(!nullifierUsed[nullifier], "nullifier already used");
+        nullifierUsed[nullifier] = true;
+        emit NullifierUsed(nullifier);
+    }
+}
@@ -2,9 +2,15 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./NullifierSet.sol";
+import "./ZKDualProofVerifier.sol";
+
+contract QStreamPayments is NullifierSet {
+    /// @notice Streams settled per `stream_batch_settle` proof, fixed by the circuit.
+    uint256 public constant SETTLEMENT_BATCH_SIZE = 4;
 
-contract QStreamPayments {
     IERC20 public immutable token;
+    ZKDualProofVerifier public immutable verifier;
 
     struct Stream {
         address from;
@@ -12,6 +18,8 @@ contract QStreamPayments {
         uint128 ratePerSecond;
         uint64 start;
         uint64 end;
+        // Poseidon(secret); `withdrawWithProof` proofs must be made with the secret
+        bytes32 secretCommitment;
     }
 
     Stream[] public streams;
@@ -19,17 +27,36 @@ contract QStreamPayments {
 
     event StreamCreated(uint256 indexed streamId, address indexed from, address indexed to, uint128 ratePerSecond, uint64 start, uint64 end);
     event Withdrawn(uint256 indexed streamId, address indexed to, uint256 amount);
+    event BatchSettled(bytes32 indexed settlementRoot, uint64 settledAt, uint256 streamCount, uint256 totalAmount);
 
-    constructor(IERC20 token_) {
+    constructor(IERC20 token_, ZKDualProofVerifier verifier_) {
         token = token_;
+        verifier = verifier_;
     }
 
-    function createStream(address to, uint128 ratePerSecond, uint64 start, uint64 end) external returns (uint256) {
+    /// @param secretCommitment Poseidon(secret) of the secret behind the stream's Q-Stream proofs
+    function createStream(
+        address to,
+        uint128 ratePerSecond,
+        uint64 start,
+        uint64 end,
+        bytes32 secretCommitment
+    ) external returns (uint256) {
         require(to != address(0), "invalid recipient");
         require(ratePerSecond > 0, "rate zero");
         require(end > start, "invalid time");
+        require(secretCommitment != bytes32(0), "no secret commitment");
 
-        streams.push(Stream({from: msg.sender, to: to, ratePerSecond: ratePerSecond, start: start, end: end}));
+        streams.push(
+            Stream({
+                from: msg.sender,
+                to: to,
+                ratePerSecond: ratePerSecond,
+                start: start,
+                end: end,
+                secretCommitment: secretCommitment
+            })
+        );
         uint256 streamId = streams.length - 1;
 
         emit StreamCreated(streamId, msg.sender, to, ratePerSecond, start, end);
@@ -64,4 +91,114 @@ contract QStreamPayments {
         require(token.transferFrom(s.from, s.to, amount), "transfer failed");
         emit Withdrawn(streamId, s.to, amount);
     }
+
+    /// @notice Pays out what a Q-Stream proof shows `streamId` owes at `provedAt`.
+    /// @dev Stream terms, the secret commitment and the withdrawn amount are read from storage, so a proof made
+    /// against stale state or without the stream's secret fails verification. The nullifier is derived from the
+    /// withdrawn amount and is spent, so the stream's state can be paid out once.
+    function withdrawWithProof(
+        uint256 streamId,
+        uint256 amount,
+        uint64 provedAt,
+        bytes32 nullifier,
+        bytes calldata proof
+    ) external {
+        require(streamId < streams.length, "invalid stream");
+        require(amount > 0, "nothing to withdraw");
+        require(provedAt <= block.timestamp, "proof in the future");
+        require(address(verifier) != address(0), "verifier not set");
+        _useNullifier(nullifier);
+
+        uint256[] memory publicSignals = _qStreamSignals(streamId, amount, provedAt, nullifier);
+        require(verifier.verify(verifier.QSTREAM(), proof, publicSignals), "invalid proof");
+
+        Stream memory s = streams[streamId];
+        withdrawn[streamId] += amount;
+        require(token.transferFrom(s.from, s.to, amount), "transfer failed");
+        emit Withdrawn(streamId, s.to, amount);
+    }
+
+    /// @notice Pays out every stream in `streamIds` what it owes at `settledAt`, against one batch proof.
+    /// @dev The proof commits to Poseidon(streamId, amount) leaves under `settlementRoot`, so a recipient can
+    /// later show their payout. Stream terms and withdrawn amounts are read from storage, so a proof made
+    /// against stale state fails verification.
+    function settleBatch(
+        uint256[] calldata streamIds,
+        uint256[] calldata amounts,
+        uint64 settledAt,
+        bytes32 settlementRoot,
+        bytes calldata proof
+    ) external {
+        require(streamIds.length > 0 && streamIds.length <= SETTLEMENT_BATCH_SIZE, "invalid batch size");
+        require(amounts.length == streamIds.length, "length mismatch");
+        require(settledAt <= block.timestamp, "settlement in the future");
+        require(address(verifier) != address(0), "verifier not set");
+
+        uint256[] memory publicSignals = _batchSignals(streamIds, amounts, settledAt, settlementRoot);
+        require(verifier.verify(verifier.STREAM_BATCH(), proof, publicSignals), "invalid proof");
+
+        uint256 total;
+        for (uint256 i = 0; i < streamIds.length; i++) {
+            if (amounts[i] == 0) {
+                continue;
+            }
+            Stream memory s = streams[streamIds[i]];
+            withdrawn[streamIds[i]] += amounts[i];
+            total += amounts[i];
+            require(token.transferFrom(s.from, s.to, amounts[i]), "transfer failed");
+            emit Withdrawn(streamIds[i], s.to, amounts[i]);
+        }
+
+        emit BatchSettled(settlementRoot, settledAt, streamIds.length, total);
+    }
+
+    /// @dev Public signals of the `qstream_settle` circuit:
+    /// [owedAmount, nullifier, ratePerSecond, start, end, currentTime, withdrawn, streamId, secretCommitment].
+    function _qStreamSignals(
+        uint256 streamId,
+        uint256 amount,
+        uint64 provedAt,
+        bytes32 nullifier
+    ) internal view returns (uint256[] memory publicSignals) {
+        Stream memory s = streams[streamId];
+        publicSignals = new uint256[](9);
+        publicSignals[0] = amount;
+        publicSignals[1] = uint256(nullifier);
+        publicSignals[2] = s.ratePerSecond;
+        publicSignals[3] = s.start;
+        publicSignals[4] = s.end;
+        publicSignals[5] = provedAt;
+        publicSignals[6] = withdrawn[streamId];
+        publicSignals[7] = streamId;
+        publicSignals[8] = uint256(s.secretCommitment);
+    }
+
+    /// @dev Public signals of the `stream_batch_settle` circuit:
+    /// [settlementRoot, amounts[4], settledAt, streamIds[4], rates[4], starts[4], ends[4], withdrawn[4]].
+    /// Unused slots stay zero, which the circuit settles as 0.
+    function _batchSignals(
+        uint256[] calldata streamIds,
+        uint256[] calldata amounts,
+        uint64 settledAt,
+        bytes32 settlementRoot
+    ) internal view returns (uint256[] memory publicSignals) {
+        uint256 n = SETTLEMENT_BATCH_SIZE;
+        publicSignals = new uint256[](2 + 6 * n);
+        publicSignals[0] = uint256(settlementRoot);
+        publicSignals[1 + n] = settledAt;
+
+        for (uint256 i = 0; i < streamIds.length; i++) {
+            // Ascending ids rule out settling a stream twice in one batch
+            require(i == 0 || streamIds[i] > streamIds[i - 1], "stream ids not ascending");
+            require(streamIds[i] < streams.length, "invalid stream");
+            Stream memory s = streams[streamIds[i]];
+
+            publicSignals[1 + i] = amounts[i];
+            publicSignals[2 + n + i] = streamIds[i];
+            publicSignals[2 + 2 * n + i] = s.ratePerSecond;
+            publicSignals[2 + 3 * n + i] = s.start;
+            publicSignals[2 + 4 * n + i] = s.end;
+            publicSignals[2 + 5 * n + i] = withdrawn[streamIds[i]];
+        }
+    }
 }
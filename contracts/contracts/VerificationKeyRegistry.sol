@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./interfaces/IZKVerifier.sol";
+
+/// @notice Versioned verification keys per circuit, with activation and expiry times so keys can be rotated.
+/// @dev Mirrors `VerificationKeyRegistry` in the zk package: circuit ids are manifest names such as
+/// `dual_state`, versions count from 1, and `vkeyHash` is the SHA-256 of the verification key file.
+/// An expiry of 0 means the key has no expiry.
+contract VerificationKeyRegistry is Ownable {
+    struct VerificationKey {
+        bytes32 vkeyHash;
+        IZKVerifier verifier;
+        uint64 activatesAt;
+        uint64 expiresAt;
+    }
+
+    mapping(string => VerificationKey[]) private _keys;
+    mapping(bytes32 => bool) public vkeyRegistered;
+
+    event VerificationKeyRegistered(
+        string circuitId,
+        uint256 indexed version,
+        bytes32 indexed vkeyHash,
+        address verifier,
+        uint64 activatesAt
+    );
+    event VerificationKeyExpirySet(string circuitId, uint256 indexed version, uint64 expiresAt);
+
+    constructor(address owner_) Ownable(owner_) {}
+
+    function registerKey(
+        string calldata circuitId,
+        bytes32 vkeyHash,
+        IZKVerifier verifier,
+        uint64 activatesAt
+    ) external onlyOwner returns (uint256 version) {
+        return _register(circuitId, vkeyHash, verifier, activatesAt);
+    }
+
+    /// @notice Registers the next key of `circuitId`; keys still valid at `activatesAt + overlap` expire then.
+    /// @dev Proofs made with either key verify during the overlap, so provers can switch over without downtime.
+    function rotateKey(
+        string calldata circuitId,
+        bytes32 vkeyHash,
+        IZKVerifier verifier,
+        uint64 activatesAt,
+        uint64 overlap
+    ) external onlyOwner returns (uint256 version) {
+        VerificationKey[] storage keys = _keys[circuitId];
+        require(keys.length > 0, "no key to rotate");
+        uint64 expiresAt = activatesAt + overlap;
+        for (uint256 i = 0; i < keys.length; i++) {
+            if (keys[i].expiresAt == 0 || keys[i].expiresAt > expiresAt) {
+                keys[i].expiresAt = expiresAt;
+                emit VerificationKeyExpirySet(circuitId, i + 1, expiresAt);
+            }
+        }
+        return _register(circuitId, vkeyHash, verifier, activatesAt);
+    }
+
+    /// @notice Expires a key immediately, e.g. after its setup was compromised.
+    function retireKey(string calldata circuitId, uint256 version) external onlyOwner {
+        VerificationKey storage key = _key(circuitId, version);
+        uint64 now_ = uint64(block.timestamp);
+        require(key.expiresAt == 0 || key.expiresAt > now_, "key already retired");
+        key.expiresAt = now_;
+        emit VerificationKeyExpirySet(circuitId, version, now_);
+    }
+
+    function keyCount(string calldata circuitId) external view returns (uint256) {
+        return _keys[circuitId].length;
+    }
+
+    function getKey(string calldata circuitId, uint256 version) external view returns (VerificationKey memory) {
+        return _key(circuitId, version);
+    }
+
+    function isKeyActive(string calldata circuitId, uint256 version) public view returns (bool) {
+        VerificationKey storage key = _key(circuitId, version);
+        return key.activatesAt <= block.timestamp && (key.expiresAt == 0 || block.timestamp < key.expiresAt);
+    }
+
+    /// @notice Checks a proof against every active key of `circuitId`, newest first.
+    /// @dev A proof for another proof system can make a verifier revert while decoding; that counts as a mismatch.
+    function verify(
+        string calldata circuitId,
+        bytes calldata proof,
+        uint256[] calldata publicSignals
+    ) external view returns (bool) {
+        VerificationKey[] storage keys = _keys[circuitId];
+        for (uint256 version = keys.length; version > 0; version--) {
+            if (!isKeyActive(circuitId, version)) {
+                continue;
+            }
+            try keys[version - 1].verifier.verify(proof, publicSignals) returns (bool valid) {
+                if (valid) {
+                    return true;
+                }
+            } catch {}
+        }
+        return false;
+    }
+
+    function _register(
+        string calldata circuitId,
+        bytes32 vkeyHash,
+        IZKVerifier verifier,
+        uint64 activatesAt
+    ) internal returns (uint256 version) {
+        require(vkeyHash != bytes32(0), "empty key hash");
+        require(address(verifier) != address(0), "verifier not set");
+        require(!vkeyRegistered[vkeyHash], "key already registered");
+        vkeyRegistered[vkeyHash] = true;
+        _keys[circuitId].push(VerificationKey(vkeyHash, verifier, activatesAt, 0));
+        version = _keys[circuitId].length;
+        emit VerificationKeyRegistered(circuitId, version, vkeyHash, address(verifier), activatesAt);
+    }
+
+    function _key(string calldata circuitId, uint256 version) internal view returns (VerificationKey storage) {
+        require(version > 0 && version <= _keys[circuitId].length, "unknown key version");
+        return _keys[circuitId][version - 1];
+    }
+}
@@ -1,9 +1,137 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-contract ZKDualProofVerifier {
-    // TODO: integrate auto-generated verifier from snarkjs
-    function verifyDualProof(bytes calldata proof, bytes32 /* publicSignal */) external pure returns (bool) {
-        return proof.length > 0;
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./interfaces/IZKVerifier.sol";
+import "./VerificationKeyRegistry.sol";
+
+/// @notice Routes proofs to the generated verifier registered for their proof type.
+/// @dev Proof type ids match `ProofType` in the SDK: 0 = dual state, 1 = Q-Stream, 2 = hybrid, 3 = settlement,
+/// 4 = dual-state rollup, 5 = batched stream settlement. Once a key registry is set, a proof type whose circuit
+/// has keys there is verified against its active keys only, so a retired or expired key stops verifying.
+contract ZKDualProofVerifier is Ownable {
+    uint8 public constant DUAL_STATE = 0;
+    uint8 public constant QSTREAM = 1;
+    uint8 public constant HYBRID = 2;
+    uint8 public constant SETTLEMENT = 3;
+    uint8 public constant ROLLUP = 4;
+    uint8 public constant STREAM_BATCH = 5;
+
+    /// @notice Writes per `dual_state_rollup` proof, fixed by the circuit.
+    uint256 public constant ROLLUP_BATCH_SIZE = 4;
+
+    uint256 internal constant SNARK_SCALAR_FIELD =
+        21888242871839275222246405745257275088548364400416034343698204186575808495617;
+
+    /// @notice Public inputs of a `dual_state` proof; `key` is reduced into the field before verifying.
+    struct DualProofSignals {
+        bytes32 chosenState;
+        bytes32 nullifier;
+        bytes32 commitment0;
+        bytes32 commitment1;
+        uint8 chosenStateIndex;
+        bytes32 key;
+        uint64 epoch;
+    }
+
+    mapping(uint8 => IZKVerifier) public verifiers;
+    VerificationKeyRegistry public keyRegistry;
+
+    event ProofVerifierSet(uint8 indexed proofType, address indexed verifier);
+    event KeyRegistrySet(address indexed keyRegistry);
+
+    constructor(address owner_) Ownable(owner_) {}
+
+    /// @notice Verifies proof types with registered keys through `keyRegistry_`; the zero address turns it off.
+    function setKeyRegistry(VerificationKeyRegistry keyRegistry_) external onlyOwner {
+        keyRegistry = keyRegistry_;
+        emit KeyRegistrySet(address(keyRegistry_));
+    }
+
+    /// @notice Circuit id of `proofType` in the key registry, as named in the zk manifest.
+    function circuitId(uint8 proofType) public pure returns (string memory) {
+        require(proofType <= STREAM_BATCH, "unknown proof type");
+        string[6] memory ids = [
+            string("dual_state"),
+            "qstream_settle",
+            "hybrid_proof",
+            "stream_settlement",
+            "dual_state_rollup",
+            "stream_batch_settle"
+        ];
+        return ids[proofType];
+    }
+
+    function setProofVerifier(uint8 proofType, IZKVerifier verifier_) external onlyOwner {
+        require(proofType <= STREAM_BATCH, "unknown proof type");
+        verifiers[proofType] = verifier_;
+        emit ProofVerifierSet(proofType, address(verifier_));
+    }
+
+    function verify(uint8 proofType, bytes calldata proof, uint256[] calldata publicSignals) external view returns (bool) {
+        return _verify(proofType, proof, publicSignals);
+    }
+
+    /// @notice Checks that `chosenState` opens the commitment selected by `chosenStateIndex`, for `key` and
+    /// `epoch`, and that `nullifier` is the proof's nullifier.
+    /// @dev Public signals follow the `dual_state` circuit:
+    /// [selected, nullifier, commitment0, commitment1, selector, key, epoch].
+    /// Values other than `key` must be BN254 field elements, otherwise no proof can verify.
+    function verifyDualProof(bytes calldata proof, DualProofSignals calldata signals) external view returns (bool) {
+        uint256[] memory publicSignals = new uint256[](7);
+        publicSignals[0] = uint256(signals.chosenState);
+        publicSignals[1] = uint256(signals.nullifier);
+        publicSignals[2] = uint256(signals.commitment0);
+        publicSignals[3] = uint256(signals.commitment1);
+        publicSignals[4] = signals.chosenStateIndex;
+        publicSignals[5] = uint256(signals.key) % SNARK_SCALAR_FIELD;
+        publicSignals[6] = signals.epoch;
+        return _verify(DUAL_STATE, proof, publicSignals);
+    }
+
+    /// @notice Checks that `settledAmount` is covered by what the committed stream had accrued at `currentTime`.
+    /// @dev Public signals follow the `stream_settlement` circuit: [streamCommitment, settledAmount, currentTime].
+    function verifySettlement(
+        bytes calldata proof,
+        bytes32 streamCommitment,
+        uint256 settledAmount,
+        uint64 currentTime
+    ) external view returns (bool) {
+        uint256[] memory publicSignals = new uint256[](3);
+        publicSignals[0] = uint256(streamCommitment);
+        publicSignals[1] = settledAmount;
+        publicSignals[2] = currentTime;
+        return _verify(SETTLEMENT, proof, publicSignals);
+    }
+
+    /// @notice Checks that writing the states of `keys`, in order, turns `oldRoot` into `newRoot`.
+    /// @dev Public signals follow the `dual_state_rollup` circuit: [oldRoot, newRoot, keys[4]], with the keys
+    /// reduced into the field. Unused slots stay zero, which the circuit takes as padding.
+    function verifyRollup(
+        bytes calldata proof,
+        bytes32 oldRoot,
+        bytes32 newRoot,
+        bytes32[] calldata keys
+    ) external view returns (bool) {
+        require(keys.length > 0 && keys.length <= ROLLUP_BATCH_SIZE, "invalid batch size");
+        uint256[] memory publicSignals = new uint256[](2 + ROLLUP_BATCH_SIZE);
+        publicSignals[0] = uint256(oldRoot);
+        publicSignals[1] = uint256(newRoot);
+        for (uint256 i = 0; i < keys.length; i++) {
+            publicSignals[2 + i] = uint256(keys[i]) % SNARK_SCALAR_FIELD;
+        }
+        return _verify(ROLLUP, proof, publicSignals);
+    }
+
+    function _verify(uint8 proofType, bytes calldata proof, uint256[] memory publicSignals) internal view returns (bool) {
+        if (address(keyRegistry) != address(0)) {
+            string memory id = circuitId(proofType);
+            if (keyRegistry.keyCount(id) > 0) {
+                return keyRegistry.verify(id, proof, publicSignals);
+            }
+        }
+        IZKVerifier verifier = verifiers[proofType];
+        require(address(verifier) != address(0), "verifier not registered");
+        return verifier.verify(proof, publicSignals);
     }
 }
@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @notice Common entry point for the Groth16, PLONK and fflonk verifiers generated from `zk/circuits`.
+/// @dev `proof` is `abi.encode(uint256[2] a, uint256[2][2] b, uint256[2] c)` for Groth16 and
+/// `abi.encode(uint256[24])` for PLONK and fflonk, as produced by the zk package.
+interface IZKVerifier {
+    function verify(bytes calldata proof, uint256[] calldata publicSignals) external view returns (bool);
+
+    function publicSignalCount() external view returns (uint256);
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IZKVerifier.sol";
+
+/// @notice Exposes a snarkjs-generated fflonk verifier through `IZKVerifier`.
+/// @dev Mirrors `Groth16VerifierAdapter`: the generated `verifyProof(bytes32[24],uint256[N])`
+/// selector is derived from N, and the 24 proof words are forwarded unchanged.
+contract FflonkVerifierAdapter is IZKVerifier {
+    uint256 private constant PROOF_LENGTH = 24 * 32;
+
+    address public immutable fflonkVerifier;
+    uint256 public immutable override publicSignalCount;
+    bytes4 private immutable verifyProofSelector;
+
+    constructor(address fflonkVerifier_, uint256 publicSignalCount_) {
+        require(fflonkVerifier_ != address(0), "verifier is zero");
+        require(publicSignalCount_ > 0, "no public signals");
+        fflonkVerifier = fflonkVerifier_;
+        publicSignalCount = publicSignalCount_;
+        verifyProofSelector = bytes4(
+            keccak256(abi.encodePacked("verifyProof(bytes32[24],uint256[", _toDecimal(publicSignalCount_), "])"))
+        );
+    }
+
+    function verify(bytes calldata proof, uint256[] calldata publicSignals) external view returns (bool) {
+        if (proof.length != PROOF_LENGTH || publicSignals.length != publicSignalCount) {
+            return false;
+        }
+
+        (bool success, bytes memory result) = fflonkVerifier.staticcall(
+            abi.encodePacked(verifyProofSelector, proof, publicSignals)
+        );
+        return success && result.length == 32 && abi.decode(result, (bool));
+    }
+
+    function _toDecimal(uint256 value) private pure returns (bytes memory digits) {
+        do {
+            digits = abi.encodePacked(bytes1(uint8(48 + (value % 10))), digits);
+            value /= 10;
+        } while (value != 0);
+    }
+}
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IZKVerifier.sol";
+
+/// @notice Exposes a snarkjs-generated Groth16 verifier through `IZKVerifier`.
+/// @dev Generated verifiers take a fixed-size `uint[N]` of public signals, so each
+/// has a different `verifyProof` selector. The adapter derives it from N and
+/// forwards the proof words and signals with a static call, which keeps the
+/// generated sources untouched when circuits are rebuilt.
+contract Groth16VerifierAdapter is IZKVerifier {
+    uint256 private constant PROOF_LENGTH = 8 * 32;
+
+    address public immutable groth16Verifier;
+    uint256 public immutable override publicSignalCount;
+    bytes4 private immutable verifyProofSelector;
+
+    constructor(address groth16Verifier_, uint256 publicSignalCount_) {
+        require(groth16Verifier_ != address(0), "verifier is zero");
+        require(publicSignalCount_ > 0, "no public signals");
+        groth16Verifier = groth16Verifier_;
+        publicSignalCount = publicSignalCount_;
+        verifyProofSelector = bytes4(
+            keccak256(
+                abi.encodePacked(
+                    "verifyProof(uint256[2],uint256[2][2],uint256[2],uint256[",
+                    _toDecimal(publicSignalCount_),
+                    "])"
+                )
+            )
+        );
+    }
+
+    function verify(bytes calldata proof, uint256[] calldata publicSignals) external view returns (bool) {
+        if (proof.length != PROOF_LENGTH || publicSignals.length != publicSignalCount) {
+            return false;
+        }
+
+        (bool success, bytes memory result) = groth16Verifier.staticcall(
+            abi.encodePacked(verifyProofSelector, proof, publicSignals)
+        );
+        return success && result.length == 32 && abi.decode(result, (bool));
+    }
+
+    function _toDecimal(uint256 value) private pure returns (bytes memory digits) {
+        do {
+            digits = abi.encodePacked(bytes1(uint8(48 + (value % 10))), digits);
+            value /= 10;
+        } while (value != 0);
+    }
+}
@@ -0,0 +1,343 @@
+// SPDX-License-Identifier: GPL-3.0
+/*
+    Copyright 2021 0KIMS association.
+
+    This file is generated with [snarkJS](https://github.com/iden3/snarkjs).
+
+    snarkJS is a free software: you can redistribute it and/or modify it
+    under the terms of the GNU General Public License as published by
+    the Free Software Foundation, either version 3 of the License, or
+    (at your option) any later version.
+
+    snarkJS is distributed in the hope that it will be useful, but WITHOUT
+    ANY WARRANTY; without even the implied warranty of MERCHANTABILITY
+    or FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public
+    License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with snarkJS. If not, see <https://www.gnu.org/licenses/>.
+*/
+
+pragma solidity >=0.7.0 <0.9.0;
+
+contract StreamBatchSettleVerifier {
+    // Scalar field size
+    uint256 constant r    = 21888242871839275222246405745257275088548364400416034343698204186575808495617;
+    // Base field size
+    uint256 constant q   = 21888242871839275222246405745257275088696311157297823662689037894645226208583;
+
+    // Verification Key data
+    uint256 constant alphax  = 13742279092309157342601714641135758940815664606492569746310091975115842837262;
+    uint256 constant alphay  = 17278170372229012126831879206484916706951512103400807504680357996221496333738;
+    uint256 constant betax1  = 20342893283369013541055424933430614641664958958297224698634845635499513458514;
+    uint256 constant betax2  = 1465174198283613814155591190284356234457225683704292658426955910347978967549;
+    uint256 constant betay1  = 8350748459566193936551206729367870572104242635051728333228696463537330591513;
+    uint256 constant betay2  = 11511147603051445998514255165447878286717808018884460474378761218109220106783;
+    uint256 constant gammax1 = 11559732032986387107991004021392285783925812861821192530917403151452391805634;
+    uint256 constant gammax2 = 10857046999023057135944570762232829481370756359578518086990519993285655852781;
+    uint256 constant gammay1 = 4082367875863433681332203403145435568316851327593401208105741076214120093531;
+    uint256 constant gammay2 = 8495653923123431417604973247489272438418190587263600148770280649306958101930;
+    uint256 constant deltax1 = 10315531636377891479282106339718704951291886935294123670924053025934036608815;
+    uint256 constant deltax2 = 19580549945024019186044954879514300228254481876752102448982490304482272395664;
+    uint256 constant deltay1 = 5008608139619565396709502680339110344740513967176899759458394507556421506194;
+    uint256 constant deltay2 = 8579853363414292782534524692762874874499645350935107261148781305811679971880;
+
+    
+    uint256 constant IC0x = 8460805452205687484315754051117374094067305785492254440921723604371825929153;
+    uint256 constant IC0y = 2354941987149902585839025605672199304187021240271067744078535324382477337637;
+    
+    uint256 constant IC1x = 13902959986137375662808957555909298745500987380689020976391167830963336288408;
+    uint256 constant IC1y = 11639739231449136690539680415570553190531146966808085908041526084442920033872;
+    
+    uint256 constant IC2x = 17212924617235244732986370704461668930279357748180625442593930205184497365010;
+    uint256 constant IC2y = 10704403723409877317898160967365014504754722244899061766494299946461979688406;
+    
+    uint256 constant IC3x = 20951302569010568698056118477988231816108615613679652680842391183214823294154;
+    uint256 constant IC3y = 2744108423766948902257445494998667083460637216592359889882663999051691395283;
+    
+    uint256 constant IC4x = 3068709468877766014838458293522722020592155258932914648259631230971992451125;
+    uint256 constant IC4y = 2128916167471052980130933605327178421687020034597401125546896773275934046726;
+    
+    uint256 constant IC5x = 1055735804501572364336777895999078917065739970193776738182743801996554420929;
+    uint256 constant IC5y = 15085741584413075393929076837515563993083586713001746483029163837397711346478;
+    
+    uint256 constant IC6x = 19949288993411288231493424935091879735949032949931080940618936629339290325312;
+    uint256 constant IC6y = 7530675963019962747807292655079004463520485287488367353277964532969317929358;
+    
+    uint256 constant IC7x = 17026632561234081691526852778567368970678322906630912484475241515617834705862;
+    uint256 constant IC7y = 17143803459886098921305157431915859683190053279424297499755262009038957891363;
+    
+    uint256 constant IC8x = 15658345192089840921620478234603717559807060256854263492950748541934825317165;
+    uint256 constant IC8y = 20598973950595177027669895726297323669638170288437178271359685923825741709738;
+    
+    uint256 constant IC9x = 17087519360959649082999340583034382296238930572408033386448248407561461333129;
+    uint256 constant IC9y = 16989234479645684179497954616024440121204675531194909735685658583506421442688;
+    
+    uint256 constant IC10x = 3488590118492940799212793385283780832407897004242843967344109300379866976568;
+    uint256 constant IC10y = 14276644773631558322399336274183088976395930449181390900265879910520456226968;
+    
+    uint256 constant IC11x = 15883072157388474049423557915850314914480485058993534471481498268052231818062;
+    uint256 constant IC11y = 14282780365925378348942412667651968875980263682643105824017045469371534643417;
+    
+    uint256 constant IC12x = 9396802361923640900299672808346031525557637735315093898961564337537234320157;
+    uint256 constant IC12y = 5166994065446529430604524361570523207672037562389844950505945017172419538704;
+    
+    uint256 constant IC13x = 14021282147291846564990536405105564606979751658730026492644523268615567889176;
+    uint256 constant IC13y = 12999679341484000399799050757134408726646530187696514026792215356988477271256;
+    
+    uint256 constant IC14x = 6303566981367977155595843385682513267672476890304651162117497172455493232076;
+    uint256 constant IC14y = 6223696853025680157839366944434479152394358598746183064799983795434815372505;
+    
+    uint256 constant IC15x = 7330120160054456863062026872918585654925051552085318484305381783891069953661;
+    uint256 constant IC15y = 3084174867857163344400521669149315947539514369084718964002110864318432817095;
+    
+    uint256 constant IC16x = 15622484915921215887318184661282180373456838535355206963301168324994083174170;
+    uint256 constant IC16y = 1194761719611089948860551906526988636059392403546859821559412393080256517539;
+    
+    uint256 constant IC17x = 15285383855999941286276483191613883900017350650453536676314992934367559043357;
+    uint256 constant IC17y = 4632096659578434924800713664521465587359673973488381874313957526124870390358;
+    
+    uint256 constant IC18x = 20472752642170780574205341102229601139073210467046983396147305492686688145828;
+    uint256 constant IC18y = 16101896665858279919971807080356060496355826950200541416635905071741282076858;
+    
+    uint256 constant IC19x = 164204217284139954452487034454213322164620869940746105908796961410669913654;
+    uint256 constant IC19y = 2184898273840619887580376968780895599535395529516322113104205918277479088538;
+    
+    uint256 constant IC20x = 10914081433283096100522793223632213824643993079931438323025070920987943885700;
+    uint256 constant IC20y = 12583211473872535696076289000119081267872428461717856557764037188256605299004;
+    
+    uint256 constant IC21x = 2644024742806606269394733982818315107645682804407088036254600967253792352394;
+    uint256 constant IC21y = 16297707589921042197709501107090485238935033883494982962680171149013488795369;
+    
+    uint256 constant IC22x = 20437163671354068632300690405864900113453857529911209718487689817482515234923;
+    uint256 constant IC22y = 14017743781141293468464029922333643557403112744536361348264040434947680665902;
+    
+    uint256 constant IC23x = 6958422215360303185599866852342310837555936486107727478536660893512905834657;
+    uint256 constant IC23y = 2793508928714502175868501887712482062809876996175100564161175415425794393425;
+    
+    uint256 constant IC24x = 6892913218222600684476772818325789068325731516020705201140779275945652345736;
+    uint256 constant IC24y = 14762135732971542505112856651307142933465600757097464755162831897861618655533;
+    
+    uint256 constant IC25x = 1142832747820303261278350358034790150091319593790625715202320849318010155913;
+    uint256 constant IC25y = 20848742856615217571601904643159449509980623580911371386230831605078641984664;
+    
+    uint256 constant IC26x = 21287530541960224513420931965955124657467453818362604615396983814697741303143;
+    uint256 constant IC26y = 15781858077234508063912082738966537495945619427233011992123954159756853641452;
+    
+ 
+    // Memory data
+    uint16 constant pVk = 0;
+    uint16 constant pPairing = 128;
+
+    uint16 constant pLastMem = 896;
+
+    function verifyProof(uint[2] calldata _pA, uint[2][2] calldata _pB, uint[2] calldata _pC, uint[26] calldata _pubSignals) public view returns (bool) {
+        assembly {
+            function checkField(v) {
+                if iszero(lt(v, r)) {
+                    mstore(0, 0)
+                    return(0, 0x20)
+                }
+            }
+            
+            // G1 function to multiply a G1 value(x,y) to value in an address
+            function g1_mulAccC(pR, x, y, s) {
+                let success
+                let mIn := mload(0x40)
+                mstore(mIn, x)
+                mstore(add(mIn, 32), y)
+                mstore(add(mIn, 64), s)
+
+                success := staticcall(sub(gas(), 2000), 7, mIn, 96, mIn, 64)
+
+                if iszero(success) {
+                    mstore(0, 0)
+                    return(0, 0x20)
+                }
+
+                mstore(add(mIn, 64), mload(pR))
+                mstore(add(mIn, 96), mload(add(pR, 32)))
+
+                success := staticcall(sub(gas(), 2000), 6, mIn, 128, pR, 64)
+
+                if iszero(success) {
+                    mstore(0, 0)
+                    return(0, 0x20)
+                }
+            }
+
+            function checkPairing(pA, pB, pC, pubSignals, pMem) -> isOk {
+                let _pPairing := add(pMem, pPairing)
+                let _pVk := add(pMem, pVk)
+
+                mstore(_pVk, IC0x)
+                mstore(add(_pVk, 32), IC0y)
+
+                // Compute the linear combination vk_x
+                
+                g1_mulAccC(_pVk, IC1x, IC1y, calldataload(add(pubSignals, 0)))
+                
+                g1_mulAccC(_pVk, IC2x, IC2y, calldataload(add(pubSignals, 32)))
+                
+                g1_mulAccC(_pVk, IC3x, IC3y, calldataload(add(pubSignals, 64)))
+                
+                g1_mulAccC(_pVk, IC4x, IC4y, calldataload(add(pubSignals, 96)))
+                
+                g1_mulAccC(_pVk, IC5x, IC5y, calldataload(add(pubSignals, 128)))
+                
+                g1_mulAccC(_pVk, IC6x, IC6y, calldataload(add(pubSignals, 160)))
+                
+                g1_mulAccC(_pVk, IC7x, IC7y, calldataload(add(pubSignals, 192)))
+                
+                g1_mulAccC(_pVk, IC8x, IC8y, calldataload(add(pubSignals, 224)))
+                
+                g1_mulAccC(_pVk, IC9x, IC9y, calldataload(add(pubSignals, 256)))
+                
+                g1_mulAccC(_pVk, IC10x, IC10y, calldataload(add(pubSignals, 288)))
+                
+                g1_mulAccC(_pVk, IC11x, IC11y, calldataload(add(pubSignals, 320)))
+                
+                g1_mulAccC(_pVk, IC12x, IC12y, calldataload(add(pubSignals, 352)))
+                
+                g1_mulAccC(_pVk, IC13x, IC13y, calldataload(add(pubSignals, 384)))
+                
+                g1_mulAccC(_pVk, IC14x, IC14y, calldataload(add(pubSignals, 416)))
+                
+                g1_mulAccC(_pVk, IC15x, IC15y, calldataload(add(pubSignals, 448)))
+                
+                g1_mulAccC(_pVk, IC16x, IC16y, calldataload(add(pubSignals, 480)))
+                
+                g1_mulAccC(_pVk, IC17x, IC17y, calldataload(add(pubSignals, 512)))
+                
+                g1_mulAccC(_pVk, IC18x, IC18y, calldataload(add(pubSignals, 544)))
+                
+                g1_mulAccC(_pVk, IC19x, IC19y, calldataload(add(pubSignals, 576)))
+                
+                g1_mulAccC(_pVk, IC20x, IC20y, calldataload(add(pubSignals, 608)))
+                
+                g1_mulAccC(_pVk, IC21x, IC21y, calldataload(add(pubSignals, 640)))
+                
+                g1_mulAccC(_pVk, IC22x, IC22y, calldataload(add(pubSignals, 672)))
+                
+                g1_mulAccC(_pVk, IC23x, IC23y, calldataload(add(pubSignals, 704)))
+                
+                g1_mulAccC(_pVk, IC24x, IC24y, calldataload(add(pubSignals, 736)))
+                
+                g1_mulAccC(_pVk, IC25x, IC25y, calldataload(add(pubSignals, 768)))
+                
+                g1_mulAccC(_pVk, IC26x, IC26y, calldataload(add(pubSignals, 800)))
+                
+
+                // -A
+                mstore(_pPairing, calldataload(pA))
+                mstore(add(_pPairing, 32), mod(sub(q, calldataload(add(pA, 32))), q))
+
+                // B
+                mstore(add(_pPairing, 64), calldataload(pB))
+                mstore(add(_pPairing, 96), calldataload(add(pB, 32)))
+                mstore(add(_pPairing, 128), calldataload(add(pB, 64)))
+                mstore(add(_pPairing, 160), calldataload(add(pB, 96)))
+
+                // alpha1
+                mstore(add(_pPairing, 192), alphax)
+                mstore(add(_pPairing, 224), alphay)
+
+                // beta2
+                mstore(add(_pPairing, 256), betax1)
+                mstore(add(_pPairing, 288), betax2)
+                mstore(add(_pPairing, 320), betay1)
+                mstore(add(_pPairing, 352), betay2)
+
+                // vk_x
+                mstore(add(_pPairing, 384), mload(add(pMem, pVk)))
+                mstore(add(_pPairing, 416), mload(add(pMem, add(pVk, 32))))
+
+
+                // gamma2
+                mstore(add(_pPairing, 448), gammax1)
+                mstore(add(_pPairing, 480), gammax2)
+                mstore(add(_pPairing, 512), gammay1)
+                mstore(add(_pPairing, 544), gammay2)
+
+                // C
+                mstore(add(_pPairing, 576), calldataload(pC))
+                mstore(add(_pPairing, 608), calldataload(add(pC, 32)))
+
+                // delta2
+                mstore(add(_pPairing, 640), deltax1)
+                mstore(add(_pPairing, 672), deltax2)
+                mstore(add(_pPairing, 704), deltay1)
+                mstore(add(_pPairing, 736), deltay2)
+
+
+                let success := staticcall(sub(gas(), 2000), 8, _pPairing, 768, _pPairing, 0x20)
+
+                isOk := and(success, mload(_pPairing))
+            }
+
+            let pMem := mload(0x40)
+            mstore(0x40, add(pMem, pLastMem))
+
+            // Validate that all evaluations ∈ F
+            
+            checkField(calldataload(add(_pubSignals, 0)))
+            
+            checkField(calldataload(add(_pubSignals, 32)))
+            
+            checkField(calldataload(add(_pubSignals, 64)))
+            
+            checkField(calldataload(add(_pubSignals, 96)))
+            
+            checkField(calldataload(add(_pubSignals, 128)))
+            
+            checkField(calldataload(add(_pubSignals, 160)))
+            
+            checkField(calldataload(add(_pubSignals, 192)))
+            
+            checkField(calldataload(add(_pubSignals, 224)))
+            
+            checkField(calldataload(add(_pubSignals, 256)))
+            
+            checkField(calldataload(add(_pubSignals, 288)))
+            
+            checkField(calldataload(add(_pubSignals, 320)))
+            
+            checkField(calldataload(add(_pubSignals, 352)))
+            
+            checkField(calldataload(add(_pubSignals, 384)))
+            
+            checkField(calldataload(add(_pubSignals, 416)))
+            
+            checkField(calldataload(add(_pubSignals, 448)))
+            
+            checkField(calldataload(add(_pubSignals, 480)))
+            
+            checkField(calldataload(add(_pubSignals, 512)))
+            
+            checkField(calldataload(add(_pubSignals, 544)))
+            
+            checkField(calldataload(add(_pubSignals, 576)))
+            
+            checkField(calldataload(add(_pubSignals, 608)))
+            
+            checkField(calldataload(add(_pubSignals, 640)))
+            
+            checkField(calldataload(add(_pubSignals, 672)))
+            
+            checkField(calldataload(add(_pubSignals, 704)))
+            
+            checkField(calldataload(add(_pubSignals, 736)))
+            
+            checkField(calldataload(add(_pubSignals, 768)))
+            
+            checkField(calldataload(add(_pubSignals, 800)))
+            
+
+            // Validate all evaluations
+            let isValid := checkPairing(_pA, _pB, _pC, _pubSignals, pMem)
+
+            mstore(0, isValid)
+             return(0, 0x20)
+         }
+     }
+ }
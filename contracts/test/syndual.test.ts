@@ -2,12 +2,24 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
 
-import { DualStateEngine, QStreamPayments, SyndualToken } from "../typechain-types";
+import { DualStateEngine, QStreamPayments, SyndualToken, ZKDualProofVerifier } from "../typechain-types";
+// Proofs generated against the verifiers in contracts/verifiers; regenerate together
+import proofs from "./fixtures/proofs.json";
+
+const DUAL_STATE = 0;
+const QSTREAM = 1;
+const HYBRID = 2;
+const SETTLEMENT = 3;
+const ROLLUP = 4;
+const STREAM_BATCH = 5;
+// For streams that are not paid out with `withdrawWithProof`
+const SECRET_COMMITMENT = ethers.id("stream secret");
 
 describe("SynDual Contracts", function () {
   let token: SyndualToken;
   let engine: DualStateEngine;
   let payments: QStreamPayments;
+  let verifier: ZKDualProofVerifier;
   let owner: any;
   let alice: any;
   let bob: any;
@@ -21,8 +33,29 @@ describe("SynDual Contracts", function () {
     const Engine = await ethers.getContractFactory("DualStateEngine");
     engine = (await Engine.deploy(owner.address)) as DualStateEngine;
 
+    const Verifier = await ethers.getContractFactory("ZKDualProofVerifier");
+    verifier = (await Verifier.deploy(owner.address)) as ZKDualProofVerifier;
+    await engine.connect(owner).setVerifier(await verifier.getAddress());
+
     const Payments = await ethers.getContractFactory("QStreamPayments");
-    payments = (await Payments.deploy(token.getAddress())) as QStreamPayments;
+    payments = (await Payments.deploy(token.getAddress(), verifier.getAddress())) as QStreamPayments;
+
+    const Adapter = await ethers.getContractFactory("Groth16VerifierAdapter");
+    const dualStateGroth16 = await (await ethers.getContractFactory("DualStateVerifier")).deploy();
+    const dualStateAdapter = await Adapter.deploy(await dualStateGroth16.getAddress(), 7);
+    await verifier.connect(owner).setProofVerifier(DUAL_STATE, await dualStateAdapter.getAddress());
+    const qStreamGroth16 = await (await ethers.getContractFactory("QstreamSettleVerifier")).deploy();
+    const qStreamAdapter = await Adapter.deploy(await qStreamGroth16.getAddress(), 9);
+    await verifier.connect(owner).setProofVerifier(QSTREAM, await qStreamAdapter.getAddress());
+    const settlementGroth16 = await (await ethers.getContractFactory("StreamSettlementVerifier")).deploy();
+    const settlementAdapter = await Adapter.deploy(await settlementGroth16.getAddress(), 3);
+    await verifier.connect(owner).setProofVerifier(SETTLEMENT, await settlementAdapter.getAddress());
+    const rollupGroth16 = await (await ethers.getContractFactory("DualStateRollupVerifier")).deploy();
+    const rollupAdapter = await Adapter.deploy(await rollupGroth16.getAddress(), 6);
+    await verifier.connect(owner).setProofVerifier(ROLLUP, await rollupAdapter.getAddress());
+    const streamBatchGroth16 = await (await ethers.getContractFactory("StreamBatchSettleVerifier")).deploy();
+    const streamBatchAdapter = await Adapter.deploy(await streamBatchGroth16.getAddress(), 26);
+    await verifier.connect(owner).setProofVerifier(STREAM_BATCH, await streamBatchAdapter.getAddress());
   });
 
   it("mints tokens", async () => {
@@ -33,17 +66,342 @@ describe("SynDual Contracts", function () {
   });
 
   it("sets and finalizes dual state", async () => {
-    const key = ethers.keccak256(ethers.toUtf8Bytes("dual-key-1"));
-    const state0 = ethers.keccak256(ethers.toUtf8Bytes("state0"));
-    const state1 = ethers.keccak256(ethers.toUtf8Bytes("state1"));
+    const { key, epoch, nullifier, state1, commitment0, commitment1 } = proofs.dualState;
 
-    await engine.connect(owner).setDualState(key, state0, state1);
+    await engine.connect(owner).setDualState(key, commitment0, commitment1);
     const ds = await engine.getDualState(key);
-    expect(ds.state0).to.equal(state0);
-    expect(ds.state1).to.equal(state1);
+    expect(ds.state0).to.equal(commitment0);
+    expect(ds.state1).to.equal(commitment1);
+
+    await expect(
+      engine.connect(owner).finalizeWithProof(key, 1, state1, epoch, nullifier, proofs.dualState.proofs[1].proof),
+    )
+      .to.emit(engine, "DualStateFinalized")
+      .withArgs(key, 1, state1)
+      .and.to.emit(engine, "NullifierUsed")
+      .withArgs(nullifier);
+
+    const finalized = await engine.getFinalizedState(key);
+    expect(finalized.chosenState).to.equal(state1);
+    expect(finalized.chosenIndex).to.equal(1);
+    expect(await engine.isFinalized(key)).to.equal(true);
+    expect(await engine.nullifierUsed(nullifier)).to.equal(true);
+  });
+
+  it("rejects finalization without a valid proof and freezes finalized keys", async () => {
+    const { key, epoch, nullifier, state0, state1, commitment0, commitment1 } = proofs.dualState;
+    const [proof0, proof1] = proofs.dualState.proofs.map((p) => p.proof);
+    const finalize = (index: number, state: string, proof: string, proofEpoch = epoch, proofNullifier = nullifier) =>
+      engine.connect(owner).finalizeWithProof(key, index, state, proofEpoch, proofNullifier, proof);
+
+    await engine.connect(owner).setDualState(key, commitment0, commitment1);
+    await expect(finalize(0, state0, "0x")).to.be.revertedWith("invalid proof");
+    await expect(finalize(1, state1, proof0)).to.be.revertedWith("invalid proof");
+    await expect(finalize(0, state1, proof0)).to.be.revertedWith("invalid proof");
+    // The proof is bound to its epoch and nullifier
+    await expect(finalize(0, state0, proof0, epoch + 1)).to.be.revertedWith("invalid proof");
+    await expect(finalize(0, state0, proof0, epoch, ethers.ZeroHash)).to.be.revertedWith("invalid proof");
+
+    // ...and to its key
+    const otherKey = ethers.keccak256(ethers.toUtf8Bytes("other-key"));
+    await engine.connect(owner).setDualState(otherKey, commitment0, commitment1);
+    await expect(
+      engine.connect(owner).finalizeWithProof(otherKey, 0, state0, epoch, nullifier, proof0),
+    ).to.be.revertedWith("invalid proof");
+
+    await finalize(0, state0, proof0);
+    expect((await engine.getFinalizedState(key)).chosenState).to.equal(state0);
+    await expect(finalize(1, state1, proof1)).to.be.revertedWith("already finalized");
+    await expect(engine.connect(owner).setDualState(key, commitment1, commitment0)).to.be.revertedWith(
+      "already finalized",
+    );
+  });
+
+  it("verifies generated Groth16 proofs through the verifier router", async () => {
+    const { proof, publicSignals } = proofs.dualState.proofs[1];
+    expect(await verifier.verify(DUAL_STATE, proof, publicSignals)).to.equal(true);
+
+    const tampered = [...publicSignals];
+    tampered[0] = publicSignals[1];
+    expect(await verifier.verify(DUAL_STATE, proof, tampered)).to.equal(false);
+    expect(await verifier.verify(DUAL_STATE, proof, publicSignals.slice(1))).to.equal(false);
+    expect(await verifier.verify(DUAL_STATE, "0x01", publicSignals)).to.equal(false);
+
+    expect(await verifier.verify(QSTREAM, proofs.qstream.proof, proofs.qstream.publicSignals)).to.equal(true);
+    const inflated = [...proofs.qstream.publicSignals];
+    inflated[0] = (BigInt(inflated[0]) + 1n).toString();
+    expect(await verifier.verify(QSTREAM, proofs.qstream.proof, inflated)).to.equal(false);
+    expect(await verifier.verify(QSTREAM, proofs.qstream.proof, proofs.qstream.publicSignals.slice(0, 1))).to.equal(false);
+
+    await expect(verifier.verify(HYBRID, proof, publicSignals)).to.be.revertedWith("verifier not registered");
+    await expect(verifier.connect(alice).setProofVerifier(HYBRID, alice.address)).to.be.revertedWithCustomError(
+      verifier,
+      "OwnableUnauthorizedAccount",
+    );
+  });
+
+  it("verifies PLONK and fflonk proofs through their adapters", async () => {
+    const { key, epoch, nullifier, state1, commitment0, commitment1 } = proofs.dualState;
+    const backends = [
+      ["DualStatePlonkVerifier", "PlonkVerifierAdapter", proofs.dualStateBackends.plonk],
+      ["DualStateFflonkVerifier", "FflonkVerifierAdapter", proofs.dualStateBackends.fflonk],
+    ] as const;
+
+    for (const [verifierName, adapterName, { proof, publicSignals }] of backends) {
+      const generated = await (await ethers.getContractFactory(verifierName)).deploy();
+      const adapter = await (await ethers.getContractFactory(adapterName)).deploy(await generated.getAddress(), 7);
+      expect(await adapter.verify(proof, publicSignals)).to.equal(true);
+
+      const tampered = [...publicSignals];
+      tampered[0] = publicSignals[1];
+      expect(await adapter.verify(proof, tampered)).to.equal(false);
+      expect(await adapter.verify(proof.slice(0, -64), publicSignals)).to.equal(false);
+      expect(await adapter.verify(proofs.dualState.proofs[1].proof, publicSignals)).to.equal(false);
+    }
+
+    // Swapping the registered adapter switches the proof system the engine accepts
+    const plonk = await (await ethers.getContractFactory("DualStatePlonkVerifier")).deploy();
+    const plonkAdapter = await (
+      await ethers.getContractFactory("PlonkVerifierAdapter")
+    ).deploy(await plonk.getAddress(), 7);
+    await verifier.connect(owner).setProofVerifier(DUAL_STATE, await plonkAdapter.getAddress());
+    await engine.connect(owner).setDualState(key, commitment0, commitment1);
+    await expect(
+      engine.connect(owner).finalizeWithProof(key, 1, state1, epoch, nullifier, proofs.dualState.proofs[1].proof),
+    ).to.be.revertedWith("invalid proof");
+    await expect(
+      engine
+        .connect(owner)
+        .finalizeWithProof(key, 1, state1, epoch, nullifier, proofs.dualStateBackends.plonk.proof),
+    )
+      .to.emit(engine, "DualStateFinalized")
+      .withArgs(key, 1, state1);
+  });
+
+  it("rotates verification keys with an overlap window", async () => {
+    const { proof, publicSignals } = proofs.dualState.proofs[1];
+    const plonkProof = proofs.dualStateBackends.plonk;
+    const registry = await (await ethers.getContractFactory("VerificationKeyRegistry")).deploy(owner.address);
+    const groth16Adapter = await verifier.verifiers(DUAL_STATE);
+    const plonk = await (await ethers.getContractFactory("DualStatePlonkVerifier")).deploy();
+    const plonkAdapter = await (
+      await ethers.getContractFactory("PlonkVerifierAdapter")
+    ).deploy(await plonk.getAddress(), 7);
+
+    const now = BigInt(await time.latest());
+    await expect(registry.connect(owner).registerKey("dual_state", ethers.id("groth16-v1"), groth16Adapter, now))
+      .to.emit(registry, "VerificationKeyRegistered")
+      .withArgs("dual_state", 1, ethers.id("groth16-v1"), groth16Adapter, now);
+    expect(await registry.verify("dual_state", proof, publicSignals)).to.equal(true);
+    expect(await registry.verify("dual_state", plonkProof.proof, plonkProof.publicSignals)).to.equal(false);
+
+    // v2 activates in an hour and v1 stays valid for a day after that
+    const activatesAt = now + 3600n;
+    await registry
+      .connect(owner)
+      .rotateKey("dual_state", ethers.id("plonk-v2"), await plonkAdapter.getAddress(), activatesAt, 86400);
+    expect((await registry.getKey("dual_state", 1)).expiresAt).to.equal(activatesAt + 86400n);
+    expect(await registry.isKeyActive("dual_state", 2)).to.equal(false);
+
+    await time.increaseTo(activatesAt);
+    expect(await registry.verify("dual_state", proof, publicSignals)).to.equal(true);
+    expect(await registry.verify("dual_state", plonkProof.proof, plonkProof.publicSignals)).to.equal(true);
+
+    await time.increaseTo(activatesAt + 86400n);
+    expect(await registry.isKeyActive("dual_state", 1)).to.equal(false);
+    expect(await registry.verify("dual_state", proof, publicSignals)).to.equal(false);
+    expect(await registry.verify("dual_state", plonkProof.proof, plonkProof.publicSignals)).to.equal(true);
+
+    await registry.connect(owner).retireKey("dual_state", 2);
+    expect(await registry.verify("dual_state", plonkProof.proof, plonkProof.publicSignals)).to.equal(false);
+    await expect(registry.connect(owner).retireKey("dual_state", 2)).to.be.revertedWith("key already retired");
+    await expect(registry.getKey("dual_state", 3)).to.be.revertedWith("unknown key version");
+    await expect(
+      registry.connect(owner).registerKey("dual_state", ethers.id("plonk-v2"), await plonkAdapter.getAddress(), now),
+    ).to.be.revertedWith("key already registered");
+    await expect(
+      registry.connect(owner).rotateKey("qstream_settle", ethers.id("qstream-v2"), groth16Adapter, now, 0),
+    ).to.be.revertedWith("no key to rotate");
+    await expect(
+      registry.connect(alice).registerKey("qstream_settle", ethers.id("qstream-v1"), groth16Adapter, now),
+    ).to.be.revertedWithCustomError(registry, "OwnableUnauthorizedAccount");
+  });
+
+  it("verifies through the key registry and rejects proofs of retired keys", async () => {
+    const { key, epoch, nullifier, state1, commitment0, commitment1 } = proofs.dualState;
+    const { proof, publicSignals } = proofs.dualState.proofs[1];
+    const registry = await (await ethers.getContractFactory("VerificationKeyRegistry")).deploy(owner.address);
+    const now = BigInt(await time.latest());
+    await registry
+      .connect(owner)
+      .registerKey("dual_state", ethers.id("groth16-v1"), await verifier.verifiers(DUAL_STATE), now);
+
+    await expect(verifier.connect(owner).setKeyRegistry(await registry.getAddress()))
+      .to.emit(verifier, "KeyRegistrySet")
+      .withArgs(await registry.getAddress());
+    expect(await verifier.circuitId(DUAL_STATE)).to.equal("dual_state");
+    expect(await verifier.verify(DUAL_STATE, proof, publicSignals)).to.equal(true);
+    // Proof types without registered keys keep their fixed verifier
+    expect(await verifier.verify(QSTREAM, proofs.qstream.proof, proofs.qstream.publicSignals)).to.equal(true);
+
+    await registry.connect(owner).retireKey("dual_state", 1);
+    expect(await verifier.verify(DUAL_STATE, proof, publicSignals)).to.equal(false);
+    await engine.connect(owner).setDualState(key, commitment0, commitment1);
+    await expect(
+      engine.connect(owner).finalizeWithProof(key, 1, state1, epoch, nullifier, proof),
+    ).to.be.revertedWith("invalid proof");
+
+    await verifier.connect(owner).setKeyRegistry(ethers.ZeroAddress);
+    expect(await verifier.verify(DUAL_STATE, proof, publicSignals)).to.equal(true);
+    await expect(verifier.connect(alice).setKeyRegistry(alice.address)).to.be.revertedWithCustomError(
+      verifier,
+      "OwnableUnauthorizedAccount",
+    );
+    await expect(verifier.circuitId(6)).to.be.revertedWith("unknown proof type");
+  });
+
+  it("withdraws a proved amount once per nullifier", async () => {
+    const { ratePerSecond, start, end, currentTime, secretCommitment, nullifier, proof, publicSignals } =
+      proofs.qstream;
+    const owed = publicSignals[0];
+    await expect(
+      payments.connect(alice).createStream(bob.address, ratePerSecond, start, end, ethers.ZeroHash),
+    ).to.be.revertedWith("no secret commitment");
+    await payments.connect(alice).createStream(bob.address, ratePerSecond, start, end, secretCommitment);
+    await token.connect(owner).mint(alice.address, 1000n);
+    await token.connect(alice).approve(await payments.getAddress(), 1000n);
+
+    // The same stream created under another secret
+    const Payments = await ethers.getContractFactory("QStreamPayments");
+    const otherPayments = await Payments.deploy(token.getAddress(), verifier.getAddress());
+    await otherPayments.connect(alice).createStream(bob.address, ratePerSecond, start, end, SECRET_COMMITMENT);
+    await expect(otherPayments.withdrawWithProof(0, owed, currentTime, nullifier, proof)).to.be.revertedWith(
+      "invalid proof",
+    );
+
+    await expect(payments.withdrawWithProof(0, BigInt(owed) + 1n, currentTime, nullifier, proof)).to.be.revertedWith(
+      "invalid proof",
+    );
+    await expect(payments.withdrawWithProof(0, owed, currentTime, nullifier, proof))
+      .to.emit(payments, "Withdrawn")
+      .withArgs(0, bob.address, owed)
+      .and.to.emit(payments, "NullifierUsed")
+      .withArgs(nullifier);
+    expect(await token.balanceOf(bob.address)).to.equal(owed);
+    expect(await payments.nullifierUsed(nullifier)).to.equal(true);
+
+    await expect(payments.withdrawWithProof(0, owed, currentTime, nullifier, proof)).to.be.revertedWith(
+      "nullifier already used",
+    );
+  });
+
+  it("verifies settlement proofs without revealing the stream terms", async () => {
+    const { proof, streamCommitment, settledAmount, currentTime } = proofs.settlement;
+
+    expect(await verifier.verifySettlement(proof, streamCommitment, settledAmount, currentTime)).to.equal(true);
+    expect(await verifier.verifySettlement(proof, streamCommitment, 301, currentTime)).to.equal(false);
+    expect(await verifier.verifySettlement(proof, streamCommitment, settledAmount, 1300)).to.equal(false);
+    expect(await verifier.verifySettlement(proof, ethers.ZeroHash, settledAmount, currentTime)).to.equal(false);
+    await expect(verifier.connect(owner).setProofVerifier(255, ethers.ZeroAddress)).to.be.revertedWith(
+      "unknown proof type",
+    );
+  });
+
+  it("commits a rolled-up batch of dual states with one proof", async () => {
+    const { keys, oldRoot, newRoot, proof } = proofs.rollup;
+    expect(await engine.stateRoot()).to.equal(oldRoot);
+
+    await expect(engine.connect(alice).commitBatch(oldRoot, newRoot, keys, proof)).to.be.revertedWith(
+      "not controller",
+    );
+    await expect(engine.connect(owner).commitBatch(oldRoot, ethers.ZeroHash, keys, proof)).to.be.revertedWith(
+      "invalid proof",
+    );
+    // The proof is bound to the keys it writes
+    await expect(engine.connect(owner).commitBatch(oldRoot, newRoot, keys.slice(1), proof)).to.be.revertedWith(
+      "invalid proof",
+    );
+
+    await expect(engine.connect(owner).commitBatch(oldRoot, newRoot, keys, proof))
+      .to.emit(engine, "StateRootUpdated")
+      .withArgs(0, oldRoot, newRoot);
+    expect(await engine.stateRoot()).to.equal(newRoot);
+    expect(await engine.rollupBatchCount()).to.equal(1);
+
+    await expect(engine.connect(owner).commitBatch(oldRoot, newRoot, keys, proof)).to.be.revertedWith(
+      "stale state root",
+    );
+  });
+
+  it("refuses rollups that write a finalized key", async () => {
+    const { key, epoch, nullifier, state1, commitment0, commitment1 } = proofs.dualState;
+    const { keys, oldRoot, newRoot, proof } = proofs.rollup;
+    await engine.connect(owner).setDualState(key, commitment0, commitment1);
+    await engine.connect(owner).finalizeWithProof(key, 1, state1, epoch, nullifier, proofs.dualState.proofs[1].proof);
+
+    await expect(engine.connect(owner).commitBatch(oldRoot, newRoot, [...keys, key], proof)).to.be.revertedWith(
+      "already finalized",
+    );
+    // Another encoding of the same field element is refused as well
+    const field = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+    const alias = ethers.toBeHex((BigInt(key) % field) + field, 32);
+    await expect(engine.connect(owner).commitBatch(oldRoot, newRoot, [alias], proof)).to.be.revertedWith(
+      "already finalized",
+    );
+  });
+
+  it("settles a batch of streams with one proof", async () => {
+    const { start, settledAt, streamIds, amounts, settlementRoot, proof } = proofs.streamBatch;
+    const t = BigInt(start);
+    await token.connect(owner).mint(alice.address, 1_000_000n);
+    await token.connect(alice).approve(await payments.getAddress(), 1_000_000n);
+    await payments.connect(alice).createStream(bob.address, 1000, t, t + 100n, SECRET_COMMITMENT);
+    await payments.connect(alice).createStream(owner.address, 5, t + 20n, t + 40n, SECRET_COMMITMENT);
+    await payments.connect(alice).createStream(bob.address, 7, t + 60n, t + 160n, SECRET_COMMITMENT);
+
+    await expect(payments.settleBatch(streamIds, amounts, settledAt, settlementRoot, proof)).to.be.revertedWith(
+      "settlement in the future",
+    );
+    await time.increaseTo(settledAt);
+
+    await expect(
+      payments.settleBatch(streamIds, [amounts[0], "200", amounts[2]], settledAt, settlementRoot, proof),
+    ).to.be.revertedWith("invalid proof");
+    await expect(
+      payments.settleBatch([streamIds[1], streamIds[0], streamIds[2]], amounts, settledAt, settlementRoot, proof),
+    ).to.be.revertedWith("stream ids not ascending");
+
+    await expect(payments.settleBatch(streamIds, amounts, settledAt, settlementRoot, proof))
+      .to.emit(payments, "BatchSettled")
+      .withArgs(settlementRoot, settledAt, 3, 50_100);
+    expect(await token.balanceOf(bob.address)).to.equal(50_000n);
+    expect(await token.balanceOf(owner.address)).to.equal(100n);
+    expect(await payments.withdrawn(0)).to.equal(50_000n);
+
+    // The proof was made against the previous withdrawn amounts
+    await expect(payments.settleBatch(streamIds, amounts, settledAt, settlementRoot, proof)).to.be.revertedWith(
+      "invalid proof",
+    );
+  });
+
+  it("batch sets dual states", async () => {
+    const keys = [1, 2, 3].map((i) => ethers.keccak256(ethers.toUtf8Bytes(`batch-key-${i}`)));
+    const states0 = keys.map((_, i) => ethers.keccak256(ethers.toUtf8Bytes(`state0-${i}`)));
+    const states1 = keys.map((_, i) => ethers.keccak256(ethers.toUtf8Bytes(`state1-${i}`)));
+
+    const tx = await engine.connect(owner).batchSetDualStates(keys, states0, states1);
+    const receipt = await tx.wait();
+    const events = receipt!.logs.filter((log) => engine.interface.parseLog(log)?.name === "DualStateSet");
+    expect(events.length).to.equal(keys.length);
+
+    const ds = await engine.getDualState(keys[2]);
+    expect(ds.state0).to.equal(states0[2]);
+    expect(ds.state1).to.equal(states1[2]);
 
-    const chosen = await engine.finalizeState(key, 1);
-    expect(chosen).to.equal(state1);
+    await expect(engine.connect(owner).batchSetDualStates(keys, states0, states1.slice(1))).to.be.revertedWith(
+      "length mismatch",
+    );
+    await expect(engine.connect(alice).batchSetDualStates(keys, states0, states1)).to.be.revertedWith("not controller");
   });
 
   it("creates a stream and withdraws", async () => {
@@ -56,7 +414,9 @@ describe("SynDual Contracts", function () {
     const end = start + 100n;
     const ratePerSecond = 1_000_000_000_000_000n; // 0.001 Sdual/sec if decimals=18
 
-    await payments.connect(alice).createStream(bob.address, ratePerSecond, Number(start), Number(end));
+    await payments
+      .connect(alice)
+      .createStream(bob.address, ratePerSecond, Number(start), Number(end), SECRET_COMMITMENT);
     const streamId = 0n;
 
     await time.increaseTo(start + 50n);
@@ -3,10 +3,13 @@
  * Maintains two concurrent states for parallel computation
  */
 export interface DualState {
+  /** Storage key on DualStateEngine (bytes32) */
+  key?: string;
   state0: string;
   state1: string;
   createdAt: bigint | number;
-  hash?: string;
+  /** Hash of the state and the hasher that produced it */
+  hash?: StateHash;
   metadata?: Record<string, unknown>;
 }
 
@@ -31,16 +34,33 @@ export interface Stream {
 export interface DualStateProof {
   proof: string;
   publicSignals: string[];
+  /** Proof system that produced `proof`; unset for mock proofs */
+  scheme?: ProofSystem;
   timestamp?: number;
   verified?: boolean;
 }
 
+/**
+ * Poseidon commitments to both states of a dual state, with the salts needed to open them.
+ * The commitments are what gets stored on DualStateEngine; the salts must stay private.
+ */
+export interface DualStateCommitments {
+  /** Poseidon(state0, salt0) as bytes32 */
+  commitment0: string;
+  /** Poseidon(state1, salt1) as bytes32 */
+  commitment1: string;
+  salt0: string;
+  salt1: string;
+}
+
 /**
  * Zero-knowledge proof for quantum stream settlement
  */
 export interface QStreamProof {
   proof: string;
   publicSignals: string[];
+  /** Proof system that produced `proof`; unset for mock proofs */
+  scheme?: ProofSystem;
   timestamp?: number;
   verified?: boolean;
 }
@@ -65,6 +85,65 @@ export interface TransactionResult {
   status?: 'success' | 'failed' | 'pending' | 'reverted';
 }
 
+/**
+ * Decoded `StreamCreated` event emitted by QStreamPayments
+ */
+export interface StreamCreatedEvent {
+  streamId: bigint;
+  from: string;
+  to: string;
+  ratePerSecond: bigint;
+  start: bigint;
+  end: bigint;
+}
+
+/**
+ * Decoded `Withdrawn` event emitted by QStreamPayments
+ */
+export interface WithdrawnEvent {
+  streamId: bigint;
+  to: string;
+  amount: bigint;
+}
+
+/**
+ * Decoded `DualStateSet` event emitted by DualStateEngine
+ */
+export interface DualStateSetEvent {
+  key: string;
+  state0: string;
+  state1: string;
+  createdAt: bigint;
+}
+
+/**
+ * Collapsed value recorded by DualStateEngine after proof-gated finalization
+ */
+export interface FinalizedDualState {
+  key: string;
+  chosenIndex: number;
+  chosenState: string;
+  finalizedAt: bigint;
+}
+
+/**
+ * Decoded `DualStateFinalized` event emitted by DualStateEngine
+ */
+export interface DualStateFinalizedEvent {
+  key: string;
+  chosenIndex: number;
+  chosenState: string;
+}
+
+/**
+ * Decoded `StateRootUpdated` event emitted by DualStateEngine for a committed rollup batch
+ */
+export interface StateRootUpdatedEvent {
+  batchIndex: bigint;
+  oldRoot: string;
+  newRoot: string;
+}
+
 /**
  * Error response for protocol operations
  */
@@ -84,6 +163,18 @@ export enum ProofType {
   HYBRID = 'HYBRID',
   SETTLEMENT = 'SETTLEMENT',
   MERKLE_BATCH = 'MERKLE_BATCH',
+  ROLLUP = 'ROLLUP',
+  STREAM_BATCH = 'STREAM_BATCH',
+}
+
+/**
+ * Proof systems the zk package can prove with. Values match the `protocol`
+ * field of snarkjs proofs and verification keys.
+ */
+export enum ProofSystem {
+  GROTH16 = 'groth16',
+  PLONK = 'plonk',
+  FFLONK = 'fflonk',
 }
 
 /**
@@ -121,6 +212,175 @@ export interface DualStateBatch {
   verified: boolean;
 }
 
+/**
+ * Rollup proof moving the dual-state tree from `oldRoot` to `newRoot`.
+ * Public signals are `[oldRoot, newRoot]`; a batch yields one proof per
+ * `ROLLUP_BATCH_SIZE` transitions, to be committed in order.
+ */
+export interface DualStateRollupProof {
+  proof: string;
+  publicSignals: string[];
+  scheme?: ProofSystem;
+  /** bytes32 */
+  oldRoot: string;
+  /** bytes32 */
+  newRoot: string;
+  /** Keys written by this proof, in order */
+  keys: string[];
+  timestamp: number;
+}
+
+/**
+ * Outcome of a single dual state within a submitted batch
+ */
+export interface DualStateBatchItemResult {
+  index: number;
+  key?: string;
+  status: OperationStatus;
+  transactionHash?: string;
+  error?: string;
+}
+
+/**
+ * Outcome of submitting a dual-state batch, possibly across several transactions
+ */
+export interface DualStateBatchResult {
+  batchId: string;
+  items: DualStateBatchItemResult[];
+  transactions: TransactionResult[];
+}
+
+/**
+ * Proof that `settlementAmount` is covered by what a stream has accrued.
+ * Public signals are `[streamCommitment, settledAmount, currentTime]`; the
+ * stream terms stay private behind the commitment.
+ */
+export interface SettlementProof extends QStreamProof {
+  settlementAmount: bigint;
+  /** Poseidon(ratePerSecond, start, end, salt) */
+  streamCommitment: string;
+  /** Opens `streamCommitment`; only share it with parties allowed to see the stream terms */
+  salt: string;
+}
+
+/**
+ * Proof that a batch of streams owes `amounts` at `settledAt`.
+ * Public signals follow `stream_batch_settle.circom`:
+ * `[settlementRoot, amounts[4], settledAt, streamIds[4], rates[4], starts[4], ends[4], withdrawn[4]]`,
+ * with each settlement committed to as a Poseidon(streamId, amount) leaf under `settlementRoot`.
+ */
+export interface StreamBatchProof extends QStreamProof {
+  /** bytes32 */
+  settlementRoot: string;
+  settledAt: number;
+  /** Settled streams in ascending order, without padding */
+  streamIds: bigint[];
+  amounts: bigint[];
+}
+
+/**
+ * Groth16 proofs of one circuit bundled into a single `MERKLE_BATCH` artifact
+ * that is verified in one batch pairing check. `root` is a Poseidon Merkle root
+ * over Poseidon(publicSignals) of each proof, in order.
+ */
+export interface AggregateProof {
+  type: ProofType.MERKLE_BATCH;
+  /** Type shared by every aggregated proof */
+  proofType: ProofType;
+  /** bytes32 */
+  root: string;
+  proofs: { proof: string; publicSignals: string[] }[];
+  timestamp: number;
+}
+
+/**
+ * Versioned, self-describing proof for storage and transport. The same
+ * content has a JSON form (this object) and a compact binary form; see
+ * `encodeProofEnvelope` in @syndual/zk.
+ */
+export interface ProofEnvelope {
+  version: number;
+  /** Circuit name in the build manifest, e.g. `dual_state` */
+  circuitId: string;
+  scheme: ProofSystem;
+  /** SHA-256 of the verification key file the proof was made for (bytes32) */
+  vkeyHash: string;
+  /** Proof words as decimal strings, in the order taken by the scheme's Solidity verifier */
+  proof: string[];
+  publicSignals: string[];
+  timestamp: number;
+}
+
+/**
+ * One version of a circuit's verification key. Times are unix seconds, as
+ * on-chain; a key is active from `activatesAt` until `expiresAt`.
+ */
+export interface VerificationKeyRecord {
+  circuitId: string;
+  /** Counts from 1 per circuit */
+  version: number;
+  scheme: ProofSystem;
+  /** SHA-256 of the verification key file (bytes32) */
+  vkeyHash: string;
+  /** Verification key file; defaults to the build manifest's key when its hash matches */
+  verificationKeyPath?: string;
+  activatesAt: number;
+  /** Unset while the key has no expiry */
+  expiresAt?: number;
+}
+
+/**
+ * Hash-based signature schemes, whose security rests only on the hash function
+ */
+export enum SignatureScheme {
+  /** XMSS over WOTS+ one-time keys with SHA-256; each one-time key signs once */
+  XMSS_SHA256 = 'xmss-sha256',
+}
+
+/**
+ * Public key of a stateful hash-based signer
+ */
+export interface HashPublicKey {
+  scheme: SignatureScheme;
+  /** Tree height; the key signs at most 2^height messages */
+  height: number;
+  /** Merkle root over the one-time public keys (bytes32) */
+  root: string;
+  /** Seed the hash functions are keyed with (bytes32) */
+  publicSeed: string;
+}
+
+/**
+ * XMSS signature: a WOTS+ signature by the one-time key at `index` and the
+ * path from that key to the root of the signer's tree
+ */
+export interface HashSignature {
+  scheme: SignatureScheme;
+  /** One-time key that signed; a signer never uses an index twice */
+  index: number;
+  /** Message randomizer (bytes32) */
+  randomness: string;
+  /** One chain value per WOTS+ digit (bytes32 each) */
+  wots: string[];
+  /** Sibling nodes from the leaf up (bytes32 each) */
+  authPath: string[];
+}
+
+/**
+ * A dual state's owner's request to finalize it with a proof, signed before
+ * `finalizeWithProof` is sent
+ */
+export interface FinalizationIntent {
+  /** DualStateEngine key (bytes32) */
+  key: string;
+  chosenIndex: 0 | 1;
+  /** bytes32 */
+  chosenState: string;
+  epoch: bigint | number;
+  /** Nullifier of the dual-state proof (bytes32) */
+  nullifier: string;
+}
+
 /**
  * Stream settlement data with proof verification
  */
@@ -130,6 +390,10 @@ export interface StreamSettlement {
   settledAt: number;
   proof: QStreamProof;
   status: OperationStatus;
+  /** Root of the settlement batch the stream was paid in, when settled in a batch */
+  settlementRoot?: string;
+  transactionHash?: string;
+  error?: string;
 }
 
 /**
@@ -139,17 +403,35 @@ export interface HybridProof {
   id: string;
   dualStateProof: DualStateProof;
   streamProof: QStreamProof;
+  /** Public signals of the binding proof: [hybridHash, isValid, remainingFlow, merkleRoot] */
   combinedSignals: string[];
+  /** Proof of `hybrid_proof.circom` tying the state pair to the settlement */
+  bindingProof?: string;
+  /** Proof system of `bindingProof` */
+  bindingScheme?: ProofSystem;
+  settlement?: HybridSettlement;
   timestamp: number;
   verified: boolean;
 }
 
+/**
+ * Settlement values committed to by a hybrid proof's `hybridHash`
+ */
+export interface HybridSettlement {
+  streamAmount: string;
+  settledAmount: string;
+  timeElapsed: string;
+}
+
 /**
  * Configuration for proof generation
  */
 export interface ProofConfig {
   circuitWasm: string;
   zkeyPath: string;
+  verificationKeyPath?: string;
+  /** Proof system to prove with; selects the matching zkey and verification key (default Groth16) */
+  backend?: ProofSystem;
   timeout?: number;
   debug?: boolean;
   parallel?: boolean;
@@ -192,6 +474,38 @@ export interface Account {
  * Type for utility helper functions
  */
 export type ProofValidator = (proof: DualStateProof | QStreamProof) => Promise<boolean>;
-export type StateHasher = (state: DualState) => string;
 export type StreamCalculator = (stream: Stream, currentTime: number) => bigint;
 
+/**
+ * Ids of the built-in state hashers
+ */
+export enum StateHasherId {
+  KECCAK256 = 'keccak256',
+  SHA3_256 = 'sha3-256',
+  BLAKE3 = 'blake3',
+  /** Poseidon over BN254, as the circuits compute it */
+  POSEIDON = 'poseidon',
+}
+
+/**
+ * Hash function behind state hashes. It receives the domain-tagged,
+ * length-prefixed encoding of the state.
+ */
+export interface StateHasher {
+  /** Recorded in every hash it produces; a StateHasherId for built-in hashers */
+  id: string;
+  /** Digest of `data` as bytes32 */
+  digest(data: Uint8Array): Promise<string>;
+}
+
+/**
+ * A state hash together with the hasher that produced it, so that stored
+ * hashes can be checked and migrated after the default hasher changes
+ */
+export interface StateHash {
+  /** Id of the StateHasher */
+  hasher: string;
+  /** bytes32 */
+  value: string;
+}
+
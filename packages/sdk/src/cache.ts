@@ -4,6 +4,8 @@
  * Provides in-memory caching with TTL, invalidation, and eviction strategies
  */
 
+import { ProofEnvelope } from "@syndual/core-types";
+
 export interface CacheEntry<T> {
   value: T;
   expiresAt: number;
@@ -223,18 +225,18 @@ export class Cache<K, V> {
 }
 
 /**
- * Proof cache for storing generated proofs
+ * Proof cache for storing generated proofs as proof envelopes
  */
-export class ProofCache extends Cache<string, any> {
+export class ProofCache extends Cache<string, ProofEnvelope> {
   constructor() {
     super(500, 1800000, EvictionPolicy.LRU); // 30 min TTL
   }
 
-  cacheProof(id: string, proof: any, ttlMs?: number): void {
+  cacheProof(id: string, proof: ProofEnvelope, ttlMs?: number): void {
     this.set(id, proof, ttlMs);
   }
 
-  getProof(id: string): any | undefined {
+  getProof(id: string): ProofEnvelope | undefined {
     return this.get(id);
   }
 
@@ -283,11 +285,11 @@ export class ProtocolCacheManager {
   }
 
   // Proof caching
-  cacheProof(id: string, proof: any): void {
+  cacheProof(id: string, proof: ProofEnvelope): void {
     this.proofCache.cacheProof(id, proof);
   }
 
-  getProof(id: string): any | undefined {
+  getProof(id: string): ProofEnvelope | undefined {
     return this.proofCache.getProof(id);
   }
 
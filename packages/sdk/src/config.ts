@@ -4,6 +4,8 @@
  * Manages protocol configuration, environment validation, and initialization
  */
 
+import { DEFAULT_MANIFEST_PATH, verifyManifest } from "@syndual/zk";
+
 export interface EnvironmentConfig {
   network: "mainnet" | "testnet" | "localhost";
   nodeUrl: string;
@@ -15,8 +17,10 @@ export interface EnvironmentConfig {
     zkVerifier?: string;
   };
   zkConfig: {
-    circuitWasm: string;
-    zkeyPath: string;
+    /** Artifact manifest written by the @syndual/zk build */
+    manifestPath: string;
+    circuitWasm?: string;
+    zkeyPath?: string;
     debug?: boolean;
   };
   apiPort: number;
@@ -60,11 +64,8 @@ export function validateConfig(config: Partial<EnvironmentConfig>): {
   if (!config.zkConfig) {
     errors.push("ZK config is required");
   } else {
-    if (!config.zkConfig.circuitWasm) {
-      errors.push("Circuit WASM path is required");
-    }
-    if (!config.zkConfig.zkeyPath) {
-      errors.push("ZKEY path is required");
+    if (!config.zkConfig.manifestPath) {
+      errors.push("ZK artifact manifest path is required");
     }
   }
 
@@ -95,8 +96,9 @@ export function loadConfigFromEnv(): Partial<EnvironmentConfig> {
       zkVerifier: process.env.ZK_VERIFIER_ADDRESS,
     },
     zkConfig: {
-      circuitWasm: process.env.CIRCUIT_WASM || "./circuits/hybrid_proof.wasm",
-      zkeyPath: process.env.ZKEY_PATH || "./circuits/hybrid_proof.zkey",
+      manifestPath: DEFAULT_MANIFEST_PATH,
+      circuitWasm: process.env.CIRCUIT_WASM,
+      zkeyPath: process.env.ZKEY_PATH,
       debug: process.env.DEBUG_ZK === "true",
     },
     apiPort: parseInt(process.env.API_PORT || "3001"),
@@ -118,8 +120,7 @@ export function createDevConfig(): EnvironmentConfig {
       zkVerifier: "0x" + "4".repeat(40),
     },
     zkConfig: {
-      circuitWasm: "./circuits/hybrid_proof.wasm",
-      zkeyPath: "./circuits/hybrid_proof.zkey",
+      manifestPath: DEFAULT_MANIFEST_PATH,
       debug: true,
     },
     apiPort: 3001,
@@ -278,8 +279,11 @@ export class ProtocolInitializer {
   }
 
   private async validateZKSetup(): Promise<void> {
-    // In real implementation, would check if ZK files exist and are valid
-    console.log("[Init] Validating ZK setup");
+    console.log(`[Init] Validating ZK artifacts from ${this.config.zkConfig.manifestPath}`);
+    const result = verifyManifest(this.config.zkConfig.manifestPath);
+    if (!result.valid) {
+      throw new Error(`ZK setup invalid: ${(result.errors ?? []).join("; ")}`);
+    }
   }
 
   isInitialized(): boolean {
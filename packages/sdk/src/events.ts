@@ -0,0 +1,325 @@
+/**
+ * On-chain Event Subscriptions
+ *
+ * Polls contract logs with a confirmation depth, re-scans recent blocks to
+ * detect reorgs and pushes decoded events through callbacks or async iterators
+ */
+
+import { Contract, DeferredTopicFilter, EventLog, Log, Provider, Result } from "ethers";
+import {
+  DualStateFinalizedEvent,
+  DualStateSetEvent,
+  StateRootUpdatedEvent,
+  StreamCreatedEvent,
+  WithdrawnEvent,
+} from "@syndual/core-types";
+
+// ==================== Event Decoders ====================
+
+export function decodeDualStateSet(args: Result): DualStateSetEvent {
+  return {
+    key: args.key,
+    state0: args.state0,
+    state1: args.state1,
+    createdAt: BigInt(args.createdAt),
+  };
+}
+
+export function decodeDualStateFinalized(args: Result): DualStateFinalizedEvent {
+  return {
+    key: args.key,
+    chosenIndex: Number(args.chosenIndex),
+    chosenState: args.chosenState,
+  };
+}
+
+export function decodeStateRootUpdated(args: Result): StateRootUpdatedEvent {
+  return {
+    batchIndex: BigInt(args.batchIndex),
+    oldRoot: args.oldRoot,
+    newRoot: args.newRoot,
+  };
+}
+
+export function decodeStreamCreated(args: Result): StreamCreatedEvent {
+  return {
+    streamId: BigInt(args.streamId),
+    from: args.from,
+    to: args.to,
+    ratePerSecond: BigInt(args.ratePerSecond),
+    start: BigInt(args.start),
+    end: BigInt(args.end),
+  };
+}
+
+export function decodeWithdrawn(args: Result): WithdrawnEvent {
+  return {
+    streamId: BigInt(args.streamId),
+    to: args.to,
+    amount: BigInt(args.amount),
+  };
+}
+
+// ==================== Filters ====================
+
+export interface DualStateSetFilter {
+  key?: string;
+}
+
+export interface DualStateFinalizedFilter {
+  key?: string;
+  chosenIndex?: number;
+}
+
+export interface StreamCreatedFilter {
+  streamId?: bigint;
+  from?: string;
+  to?: string;
+}
+
+export interface WithdrawnFilter {
+  streamId?: bigint;
+  to?: string;
+}
+
+// ==================== Subscriptions ====================
+
+export interface SubscriptionOptions {
+  /** Blocks a log must be buried under before it is delivered (default 0) */
+  confirmations?: number;
+  /** Recent blocks re-scanned on every poll to detect reorgs (default 12) */
+  reorgDepth?: number;
+  /** Poll interval in milliseconds (default 4000) */
+  pollIntervalMs?: number;
+  /** Most blocks fetched by one `queryFilter` call, as RPC providers cap log ranges (default 2000) */
+  maxBlockRange?: number;
+  /** First block to scan; defaults to the current safe head */
+  fromBlock?: number;
+  /** Receives polling errors; defaults to console.warn */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * A decoded event, or the retraction of one that was dropped by a reorg
+ */
+export interface EventNotification<E> {
+  event: E;
+  removed: boolean;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type EventListener<E> = (notification: EventNotification<E>) => void;
+
+const DEFAULT_SUBSCRIPTION_OPTIONS = {
+  confirmations: 0,
+  reorgDepth: 12,
+  pollIntervalMs: 4000,
+  maxBlockRange: 2000,
+};
+
+/**
+ * Polling subscription to a single contract event
+ *
+ * Notifications are delivered to the optional listener and to every active
+ * async iterator. Call `unsubscribe()` to stop polling and end the iterators.
+ */
+export class EventSubscription<E> implements AsyncIterable<EventNotification<E>> {
+  private readonly options: Required<Omit<SubscriptionOptions, "fromBlock" | "onError">> &
+    Pick<SubscriptionOptions, "fromBlock" | "onError">;
+  private readonly delivered = new Map<string, EventNotification<E>>();
+  private readonly iterators = new Set<{
+    queue: EventNotification<E>[];
+    wake: (() => void) | null;
+  }>();
+  private timer: NodeJS.Timeout | null = null;
+  /** First block the subscription covers, fixed on the first poll */
+  private startBlock: number | null = null;
+  /** First block not scanned yet */
+  private nextBlock: number | null = null;
+  private polling = false;
+  private stopped = false;
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly contract: Contract,
+    private readonly filter: DeferredTopicFilter,
+    private readonly decode: (args: Result) => E,
+    options: SubscriptionOptions = {},
+    private readonly listener?: EventListener<E>,
+  ) {
+    this.options = { ...DEFAULT_SUBSCRIPTION_OPTIONS, ...options };
+    this.schedule(0);
+  }
+
+  /**
+   * Stops polling and completes all pending iterators. Nothing is delivered
+   * afterwards, even from a poll already in flight.
+   */
+  unsubscribe(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    for (const iterator of this.iterators) {
+      iterator.wake?.();
+    }
+  }
+
+  isActive(): boolean {
+    return !this.stopped;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<EventNotification<E>> {
+    const iterator = { queue: [] as EventNotification<E>[], wake: null as (() => void) | null };
+    this.iterators.add(iterator);
+
+    return {
+      next: async () => {
+        while (iterator.queue.length === 0 && !this.stopped) {
+          await new Promise<void>((resolve) => {
+            iterator.wake = resolve;
+          });
+          iterator.wake = null;
+        }
+
+        if (iterator.queue.length > 0) {
+          return { value: iterator.queue.shift()!, done: false };
+        }
+
+        this.iterators.delete(iterator);
+        return { value: undefined, done: true };
+      },
+      return: async () => {
+        this.iterators.delete(iterator);
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.stopped) return;
+    this.timer = setTimeout(() => {
+      void this.poll().finally(() => this.schedule(this.options.pollIntervalMs));
+    }, delayMs);
+  }
+
+  /**
+   * Scans the last `reorgDepth` already-scanned blocks and every new block up
+   * to the safe head, emitting new logs and retracting delivered logs that are
+   * no longer canonical. Blocks before the start block are never scanned.
+   * The range is fetched `maxBlockRange` blocks at a time, and progress is kept
+   * per page, so a failed catch-up resumes where it stopped.
+   */
+  private async poll(): Promise<void> {
+    if (this.polling || this.stopped) return;
+    this.polling = true;
+
+    try {
+      const head = await this.provider.getBlockNumber();
+      const safeHead = head - this.options.confirmations;
+      if (safeHead < 0) return;
+
+      this.startBlock ??= this.options.fromBlock ?? safeHead;
+      if (this.startBlock > safeHead) return;
+
+      // Only blocks that were already scanned are re-checked for reorgs
+      const scannedUntil = Math.min(this.nextBlock ?? this.startBlock, safeHead + 1);
+      const fromBlock = Math.max(this.startBlock, scannedUntil - this.options.reorgDepth);
+
+      for (const [key, notification] of this.delivered) {
+        if (notification.blockNumber < fromBlock) {
+          // Older than the re-scan window; considered final
+          this.delivered.delete(key);
+        }
+      }
+
+      for (let pageStart = fromBlock; pageStart <= safeHead; ) {
+        const pageEnd = Math.min(safeHead, pageStart + Math.max(1, this.options.maxBlockRange) - 1);
+        const logs = await this.contract.queryFilter(this.filter, pageStart, pageEnd);
+        if (this.stopped) return;
+        this.reconcile(pageStart, pageEnd, logs);
+        this.nextBlock = Math.max(this.nextBlock ?? 0, pageEnd + 1);
+        pageStart = pageEnd + 1;
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      if (this.options.onError) {
+        this.options.onError(err);
+      } else {
+        console.warn("[EventSubscription] Poll failed:", err.message);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Retracts delivered logs of blocks `fromBlock`..`toBlock` that `logs` no
+   * longer holds and emits the ones not delivered yet
+   */
+  private reconcile(fromBlock: number, toBlock: number, logs: (EventLog | Log)[]): void {
+    const current = new Map(logs.map((log) => [logKey(log), log]));
+
+    for (const [key, notification] of this.delivered) {
+      if (notification.blockNumber >= fromBlock && notification.blockNumber <= toBlock && !current.has(key)) {
+        this.delivered.delete(key);
+        this.emit({ ...notification, removed: true });
+      }
+    }
+
+    for (const [key, log] of current) {
+      if (this.delivered.has(key)) continue;
+
+      const notification: EventNotification<E> = {
+        event: this.decode(this.parseArgs(log)),
+        removed: false,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+      };
+      this.delivered.set(key, notification);
+      this.emit(notification);
+    }
+  }
+
+  private parseArgs(log: EventLog | Log): Result {
+    if ("args" in log) {
+      return log.args;
+    }
+    const parsed = this.contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) {
+      throw new Error(`Unable to decode log ${log.transactionHash}:${log.index}`);
+    }
+    return parsed.args;
+  }
+
+  private emit(notification: EventNotification<E>): void {
+    if (this.stopped) return;
+
+    if (this.listener) {
+      try {
+        this.listener(notification);
+      } catch (error) {
+        console.warn("[EventSubscription] Listener threw:", error);
+      }
+    }
+
+    for (const iterator of this.iterators) {
+      iterator.queue.push(notification);
+      iterator.wake?.();
+    }
+  }
+}
+
+/**
+ * Identifies a log by its block hash and position so that the same log
+ * re-included in a different block is treated as a new delivery
+ */
+function logKey(log: EventLog | Log): string {
+  return `${log.blockHash}:${log.transactionHash}:${log.index}`;
+}
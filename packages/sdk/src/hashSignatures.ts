@@ -0,0 +1,475 @@
+/**
+ * Hash-Based Signatures
+ *
+ * XMSS over WOTS+ one-time keys with SHA-256 (n = 32, w = 16), following the
+ * construction of RFC 8391. Security rests only on the hash function, so the
+ * signatures hold up against quantum attackers, unlike ECDSA. The scheme is
+ * stateful: each of the 2^height one-time keys may sign a single message, and
+ * a second message signed with the same key helps forge signatures. HashSigner
+ * therefore stores the advanced key-usage counter before it releases a
+ * signature, and SignatureIndexTracker lets verifiers notice reused keys.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { BytesLike, ethers } from "ethers";
+import {
+  DualStateCommitments,
+  FinalizationIntent,
+  HashPublicKey,
+  HashSignature,
+  SignatureScheme,
+} from "@syndual/core-types";
+
+export const DEFAULT_XMSS_HEIGHT = 10;
+const MAX_XMSS_HEIGHT = 20;
+
+const N = 32;
+const W = 16;
+const LOG_W = 4;
+const LEN_1 = (8 * N) / LOG_W;
+const LEN_2 = 3;
+const WOTS_LEN = LEN_1 + LEN_2;
+
+const OTS_ADDRESS = 0;
+const LTREE_ADDRESS = 1;
+const HASH_TREE_ADDRESS = 2;
+
+const COMMITMENTS_MESSAGE_TAG = "syndual.dual-state-commitments.v1";
+const FINALIZATION_MESSAGE_TAG = "syndual.finalization-intent.v1";
+
+/**
+ * Private key of an XMSS signer. `nextIndex` is the key-usage counter: keys
+ * must be stored with its latest value, or one-time keys will be reused.
+ */
+export interface HashPrivateKey {
+  scheme: SignatureScheme;
+  height: number;
+  /** Derives the one-time secret keys (bytes32) */
+  secretSeed: string;
+  /** Derives the message randomizers (bytes32) */
+  prfKey: string;
+  publicSeed: string;
+  root: string;
+  /** First one-time key that has not signed yet */
+  nextIndex: number;
+}
+
+export interface HashKeyPair {
+  publicKey: HashPublicKey;
+  privateKey: HashPrivateKey;
+}
+
+export interface HashSignerOptions {
+  /**
+   * Stores the key with its advanced counter. Awaited before the signature is
+   * computed, so a signature never exists for an index that was not stored.
+   * Required: a counter kept only in memory is lost when the signer is
+   * rebuilt from the stored key, which would then reuse one-time keys.
+   */
+  persist: (privateKey: HashPrivateKey) => Promise<void> | void;
+}
+
+// ==================== Hash Functions ====================
+
+/** RFC 8391 hash address: eight 32-bit words, big-endian */
+class Address {
+  private readonly words = new Uint32Array(8);
+
+  constructor(type: number) {
+    this.words[3] = type;
+  }
+
+  /** OTS key, L-tree or tree node index, depending on the type */
+  setIndex(index: number): this {
+    this.words[4] = index;
+    return this;
+  }
+
+  /** Chain index (OTS), tree height (L-tree and hash tree) */
+  setHeight(height: number): this {
+    this.words[5] = height;
+    return this;
+  }
+
+  /** Hash index within a chain (OTS), node index (L-tree and hash tree) */
+  setPosition(position: number): this {
+    this.words[6] = position;
+    return this;
+  }
+
+  setKeyAndMask(keyAndMask: number): this {
+    this.words[7] = keyAndMask;
+    return this;
+  }
+
+  toBytes(): Uint8Array {
+    const bytes = new Uint8Array(32);
+    const view = new DataView(bytes.buffer);
+    this.words.forEach((word, i) => view.setUint32(i * 4, word));
+    return bytes;
+  }
+}
+
+function toByte(value: number, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, rest = value; i >= 0 && rest > 0; i--, rest = Math.floor(rest / 256)) {
+    bytes[i] = rest % 256;
+  }
+  return bytes;
+}
+
+const PADDING_F = toByte(0, N);
+const PADDING_H = toByte(1, N);
+const PADDING_HASH = toByte(2, N);
+const PADDING_PRF = toByte(3, N);
+
+function sha256(...parts: Uint8Array[]): Uint8Array {
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    hash.update(part);
+  }
+  return new Uint8Array(hash.digest());
+}
+
+function xor(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return a.map((byte, i) => byte ^ b[i]);
+}
+
+function prf(key: Uint8Array, data: Uint8Array): Uint8Array {
+  return sha256(PADDING_PRF, key, data);
+}
+
+function hashF(publicSeed: Uint8Array, address: Address, message: Uint8Array): Uint8Array {
+  const key = prf(publicSeed, address.setKeyAndMask(0).toBytes());
+  const mask = prf(publicSeed, address.setKeyAndMask(1).toBytes());
+  return sha256(PADDING_F, key, xor(message, mask));
+}
+
+function hashH(publicSeed: Uint8Array, address: Address, left: Uint8Array, right: Uint8Array): Uint8Array {
+  const key = prf(publicSeed, address.setKeyAndMask(0).toBytes());
+  const leftMask = prf(publicSeed, address.setKeyAndMask(1).toBytes());
+  const rightMask = prf(publicSeed, address.setKeyAndMask(2).toBytes());
+  return sha256(PADDING_H, key, xor(left, leftMask), xor(right, rightMask));
+}
+
+function hashMessage(randomness: Uint8Array, root: Uint8Array, index: number, message: Uint8Array): Uint8Array {
+  return sha256(PADDING_HASH, randomness, root, toByte(index, N), message);
+}
+
+// ==================== WOTS+ ====================
+
+/** Base-16 digits of the message digest followed by those of its checksum */
+function wotsDigits(digest: Uint8Array): number[] {
+  const digits = Array.from(digest).flatMap((byte) => [byte >> 4, byte & 0x0f]);
+  const checksum = digits.reduce((sum, digit) => sum + W - 1 - digit, 0) << (8 - ((LEN_2 * LOG_W) % 8));
+  const checksumDigits = Array.from(toByte(checksum, 2)).flatMap((byte) => [byte >> 4, byte & 0x0f]);
+  return digits.concat(checksumDigits.slice(0, LEN_2));
+}
+
+function chain(value: Uint8Array, start: number, steps: number, publicSeed: Uint8Array, address: Address): Uint8Array {
+  let result = value;
+  for (let i = start; i < start + steps; i++) {
+    result = hashF(publicSeed, address.setPosition(i), result);
+  }
+  return result;
+}
+
+function wotsSecretKey(secretSeed: Uint8Array, address: Address, chainIndex: number): Uint8Array {
+  return prf(secretSeed, address.setHeight(chainIndex).setPosition(0).setKeyAndMask(0).toBytes());
+}
+
+function wotsSign(digest: Uint8Array, secretSeed: Uint8Array, publicSeed: Uint8Array, index: number): Uint8Array[] {
+  const address = new Address(OTS_ADDRESS).setIndex(index);
+  return wotsDigits(digest).map((digit, i) =>
+    chain(wotsSecretKey(secretSeed, address, i), 0, digit, publicSeed, address),
+  );
+}
+
+function wotsPublicKeyFromSignature(
+  digest: Uint8Array,
+  signature: Uint8Array[],
+  publicSeed: Uint8Array,
+  index: number,
+): Uint8Array[] {
+  const address = new Address(OTS_ADDRESS).setIndex(index);
+  return wotsDigits(digest).map((digit, i) =>
+    chain(signature[i], digit, W - 1 - digit, publicSeed, address.setHeight(i)),
+  );
+}
+
+/** Compresses a WOTS+ public key into a tree leaf */
+function lTree(publicKey: Uint8Array[], publicSeed: Uint8Array, index: number): Uint8Array {
+  const address = new Address(LTREE_ADDRESS).setIndex(index);
+  let nodes = publicKey;
+  for (let height = 0; nodes.length > 1; height++) {
+    const parents: Uint8Array[] = [];
+    for (let i = 0; i + 1 < nodes.length; i += 2) {
+      parents.push(hashH(publicSeed, address.setHeight(height).setPosition(i / 2), nodes[i], nodes[i + 1]));
+    }
+    if (nodes.length % 2 === 1) {
+      parents.push(nodes[nodes.length - 1]);
+    }
+    nodes = parents;
+  }
+  return nodes[0];
+}
+
+function leaf(secretSeed: Uint8Array, publicSeed: Uint8Array, index: number): Uint8Array {
+  const address = new Address(OTS_ADDRESS).setIndex(index);
+  const publicKey = Array.from({ length: WOTS_LEN }, (_, i) =>
+    chain(wotsSecretKey(secretSeed, address, i), 0, W - 1, publicSeed, address),
+  );
+  return lTree(publicKey, publicSeed, index);
+}
+
+// ==================== XMSS ====================
+
+/** All tree levels, leaves first; the last level holds the root */
+function buildTree(height: number, secretSeed: Uint8Array, publicSeed: Uint8Array): Uint8Array[][] {
+  const levels = [Array.from({ length: 2 ** height }, (_, i) => leaf(secretSeed, publicSeed, i))];
+  for (let level = 0; level < height; level++) {
+    const nodes = levels[level];
+    const address = new Address(HASH_TREE_ADDRESS).setHeight(level);
+    levels.push(
+      Array.from({ length: nodes.length / 2 }, (_, i) =>
+        hashH(publicSeed, address.setPosition(i), nodes[2 * i], nodes[2 * i + 1]),
+      ),
+    );
+  }
+  return levels;
+}
+
+function rootFromPath(leafNode: Uint8Array, index: number, authPath: Uint8Array[], publicSeed: Uint8Array): Uint8Array {
+  const address = new Address(HASH_TREE_ADDRESS);
+  let node = leafNode;
+  authPath.forEach((sibling, level) => {
+    const position = Math.floor(index / 2 ** (level + 1));
+    address.setHeight(level).setPosition(position);
+    node =
+      Math.floor(index / 2 ** level) % 2 === 0
+        ? hashH(publicSeed, address, node, sibling)
+        : hashH(publicSeed, address, sibling, node);
+  });
+  return node;
+}
+
+function assertHeight(height: number): void {
+  if (!Number.isInteger(height) || height < 1 || height > MAX_XMSS_HEIGHT) {
+    throw new Error(`XMSS height must be an integer between 1 and ${MAX_XMSS_HEIGHT}, got ${height}`);
+  }
+}
+
+/**
+ * Generates an XMSS key pair able to sign 2^height messages. Computes every
+ * one-time public key, so this takes around ten seconds at the default height.
+ *
+ * @param seed 96 bytes to derive the key from instead of random bytes
+ */
+export function generateHashKeyPair(height: number = DEFAULT_XMSS_HEIGHT, seed?: BytesLike): HashKeyPair {
+  assertHeight(height);
+  const seedBytes = seed === undefined ? new Uint8Array(randomBytes(3 * N)) : ethers.getBytes(seed);
+  if (seedBytes.length !== 3 * N) {
+    throw new Error(`XMSS seed must be ${3 * N} bytes, got ${seedBytes.length}`);
+  }
+  const secretSeed = seedBytes.slice(0, N);
+  const publicSeed = seedBytes.slice(2 * N);
+  const tree = buildTree(height, secretSeed, publicSeed);
+  const publicKey: HashPublicKey = {
+    scheme: SignatureScheme.XMSS_SHA256,
+    height,
+    root: ethers.hexlify(tree[height][0]),
+    publicSeed: ethers.hexlify(publicSeed),
+  };
+  return {
+    publicKey,
+    privateKey: {
+      ...publicKey,
+      secretSeed: ethers.hexlify(secretSeed),
+      prfKey: ethers.hexlify(seedBytes.slice(N, 2 * N)),
+      nextIndex: 0,
+    },
+  };
+}
+
+/**
+ * Verifies an XMSS signature. Returns false for malformed signatures instead
+ * of throwing.
+ */
+export function verifyHashSignature(publicKey: HashPublicKey, message: BytesLike, signature: HashSignature): boolean {
+  try {
+    if (
+      publicKey.scheme !== SignatureScheme.XMSS_SHA256 ||
+      signature.scheme !== publicKey.scheme ||
+      !Number.isInteger(signature.index) ||
+      signature.index < 0 ||
+      signature.index >= 2 ** publicKey.height ||
+      signature.wots.length !== WOTS_LEN ||
+      signature.authPath.length !== publicKey.height
+    ) {
+      return false;
+    }
+    const root = ethers.getBytes(publicKey.root);
+    const publicSeed = ethers.getBytes(publicKey.publicSeed);
+    const digest = hashMessage(ethers.getBytes(signature.randomness), root, signature.index, ethers.getBytes(message));
+    const wots = signature.wots.map((value) => ethers.getBytes(value));
+    const authPath = signature.authPath.map((value) => ethers.getBytes(value));
+    if ([...wots, ...authPath].some((value) => value.length !== N)) {
+      return false;
+    }
+    const wotsPublicKey = wotsPublicKeyFromSignature(digest, wots, publicSeed, signature.index);
+    const leafNode = lTree(wotsPublicKey, publicSeed, signature.index);
+    return ethers.hexlify(rootFromPath(leafNode, signature.index, authPath, publicSeed)) === ethers.hexlify(root);
+  } catch {
+    return false;
+  }
+}
+
+// ==================== Signed Messages ====================
+
+/** Message signed to vouch for the commitments of a dual state */
+export function dualStateCommitmentsMessage(
+  key: string,
+  commitments: Pick<DualStateCommitments, "commitment0" | "commitment1">,
+): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(
+    ["string", "bytes32", "bytes32", "bytes32"],
+    [COMMITMENTS_MESSAGE_TAG, key, commitments.commitment0, commitments.commitment1],
+  );
+}
+
+/** Message signed to authorize a `finalizeWithProof` call */
+export function finalizationIntentMessage(intent: FinalizationIntent): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(
+    ["string", "bytes32", "uint8", "bytes32", "uint64", "bytes32"],
+    [FINALIZATION_MESSAGE_TAG, intent.key, intent.chosenIndex, intent.chosenState, intent.epoch, intent.nullifier],
+  );
+}
+
+export function verifyDualStateCommitmentsSignature(
+  publicKey: HashPublicKey,
+  key: string,
+  commitments: Pick<DualStateCommitments, "commitment0" | "commitment1">,
+  signature: HashSignature,
+): boolean {
+  return verifyHashSignature(publicKey, dualStateCommitmentsMessage(key, commitments), signature);
+}
+
+export function verifyFinalizationIntentSignature(
+  publicKey: HashPublicKey,
+  intent: FinalizationIntent,
+  signature: HashSignature,
+): boolean {
+  return verifyHashSignature(publicKey, finalizationIntentMessage(intent), signature);
+}
+
+// ==================== Signer ====================
+
+/**
+ * Signs with an XMSS private key, taking each one-time key once. The tree is
+ * rebuilt on the first signature and cached for the later ones.
+ */
+export class HashSigner {
+  private readonly privateKey: HashPrivateKey;
+  private tree?: Uint8Array[][];
+
+  /**
+   * @throws If `options.persist` is missing
+   */
+  constructor(
+    privateKey: HashPrivateKey,
+    private readonly options: HashSignerOptions,
+  ) {
+    assertHeight(privateKey.height);
+    if (typeof options?.persist !== "function") {
+      throw new Error("HashSigner needs a persist callback to store its key-usage counter");
+    }
+    this.privateKey = { ...privateKey };
+  }
+
+  get publicKey(): HashPublicKey {
+    const { scheme, height, root, publicSeed } = this.privateKey;
+    return { scheme, height, root, publicSeed };
+  }
+
+  /** Signatures left before the key is exhausted */
+  get remaining(): number {
+    return 2 ** this.privateKey.height - this.privateKey.nextIndex;
+  }
+
+  /**
+   * Signs `message` with the next unused one-time key
+   *
+   * @throws If the key is exhausted or storing the advanced counter fails; the
+   * reserved index is not handed out again either way
+   */
+  async sign(message: BytesLike): Promise<HashSignature> {
+    const index = this.privateKey.nextIndex;
+    if (index >= 2 ** this.privateKey.height) {
+      throw new Error(`XMSS key ${this.privateKey.root} is exhausted after ${index} signatures`);
+    }
+    this.privateKey.nextIndex = index + 1;
+    await this.options.persist({ ...this.privateKey });
+
+    const secretSeed = ethers.getBytes(this.privateKey.secretSeed);
+    const publicSeed = ethers.getBytes(this.privateKey.publicSeed);
+    const root = ethers.getBytes(this.privateKey.root);
+    this.tree ??= buildTree(this.privateKey.height, secretSeed, publicSeed);
+    if (ethers.hexlify(this.tree[this.privateKey.height][0]) !== this.privateKey.root) {
+      throw new Error(`XMSS private key does not match its root ${this.privateKey.root}`);
+    }
+
+    const randomness = prf(ethers.getBytes(this.privateKey.prfKey), toByte(index, N));
+    const digest = hashMessage(randomness, root, index, ethers.getBytes(message));
+    return {
+      scheme: this.privateKey.scheme,
+      index,
+      randomness: ethers.hexlify(randomness),
+      wots: wotsSign(digest, secretSeed, publicSeed, index).map((value) => ethers.hexlify(value)),
+      authPath: this.tree
+        .slice(0, this.privateKey.height)
+        .map((nodes, level) => ethers.hexlify(nodes[Math.floor(index / 2 ** level) ^ 1])),
+    };
+  }
+
+  signDualStateCommitments(
+    key: string,
+    commitments: Pick<DualStateCommitments, "commitment0" | "commitment1">,
+  ): Promise<HashSignature> {
+    return this.sign(dualStateCommitmentsMessage(key, commitments));
+  }
+
+  signFinalizationIntent(intent: FinalizationIntent): Promise<HashSignature> {
+    return this.sign(finalizationIntentMessage(intent));
+  }
+}
+
+// ==================== Reuse Detection ====================
+
+/**
+ * Remembers which message each one-time key signed. A key that signs two
+ * different messages has leaked enough to forge signatures and should be
+ * treated as compromised.
+ */
+export class SignatureIndexTracker {
+  private readonly signed = new Map<string, string>();
+
+  /**
+   * Records that `signature` signed `message`
+   *
+   * @returns false if its one-time key already signed a different message
+   */
+  record(publicKey: HashPublicKey, signature: HashSignature, message: BytesLike): boolean {
+    const slot = `${publicKey.root.toLowerCase()}:${signature.index}`;
+    const digest = ethers.sha256(message);
+    const previous = this.signed.get(slot);
+    if (previous !== undefined) {
+      return previous === digest;
+    }
+    this.signed.set(slot, digest);
+    return true;
+  }
+
+  clear(): void {
+    this.signed.clear();
+  }
+}
@@ -1,4 +1,4 @@
-import { Contract, Provider, Signer, ethers } from "ethers";
+import { Contract, LogDescription, Provider, Signer, TransactionReceipt, ethers } from "ethers";
 import {
   ContractAddresses,
   DualState,
@@ -11,44 +11,222 @@ import {
   OperationStatus,
   StreamSettlement,
   Account,
+  ProofEnvelope,
   ProofType,
   DualStateBatch,
+  TransactionResult,
+  StreamCreatedEvent,
+  WithdrawnEvent,
+  DualStateSetEvent,
+  DualStateFinalizedEvent,
+  DualStateBatchItemResult,
+  DualStateBatchResult,
+  DualStateCommitments,
+  DualStateRollupProof,
+  FinalizedDualState,
+  ProofConfig,
+  StreamBatchProof,
+  StateRootUpdatedEvent,
 } from "@syndual/core-types";
 import {
   generateDualStateProof,
   generateQStreamProof,
   verifyDualStateProof,
   verifyQStreamProof,
+  DualStateRollup,
+  STREAM_BATCH_SIZE,
+  StreamBatchEntry,
+  generateStreamBatchProof,
   HybridProver,
+  createHybridProver,
+  verifyHybridBinding,
+  commitDualState,
+  encodeProof,
+  envelopeToCalldata,
+  toVerifierCalldata,
+  DUAL_STATE_CIRCUIT,
+  DUAL_STATE_SIGNALS,
+  DualStateProofContext,
+  NullifierSet,
+  QSTREAM_CIRCUIT,
+  QSTREAM_SIGNALS,
+  QStreamProofContext,
+  VerificationKeyRegistry,
+  computeQStreamSecretCommitment,
+  getVerificationKeyRegistry,
+  isMockProof,
+  proofNullifier,
+} from "@syndual/zk";
+import {
+  DualStateFinalizedFilter,
+  DualStateSetFilter,
+  EventListener,
+  EventSubscription,
+  StreamCreatedFilter,
+  SubscriptionOptions,
+  WithdrawnFilter,
+  decodeDualStateFinalized,
+  decodeDualStateSet,
+  decodeStateRootUpdated,
+  decodeStreamCreated,
+  decodeWithdrawn,
+} from "./events";
+
+import { PROTOCOL_PARAMETERS } from "./config";
+import { hashDualState } from "./stateHashers";
+
+export * from "./events";
+export * from "./hashSignatures";
+export * from "./stateHashers";
+export { DualStateRollup, ROLLUP_BATCH_SIZE, STREAM_BATCH_SIZE, getSettlementMerkleProof } from "@syndual/zk";
+export {
+  DUAL_STATE_CIRCUIT,
+  DUAL_STATE_SIGNALS,
+  DualStateProofContext,
+  KeyVerificationResult,
+  NullifierSet,
+  PROOF_ENVELOPE_VERSION,
+  QSTREAM_CIRCUIT,
+  QSTREAM_SIGNALS,
+  QStreamProofContext,
+  VerificationKeyRegistry,
+  VerificationKeyStatus,
+  computeDualStateNullifier,
+  computeQStreamNullifier,
+  computeQStreamSecretCommitment,
+  createProofEnvelope,
+  decodeProofEnvelope,
+  encodeProofEnvelope,
+  envelopeToCalldata,
+  envelopeToSnarkjs,
+  getVerificationKeyRegistry,
+  isMockProof,
+  parseProofEnvelope,
+  proofNullifier,
+  serializeProofEnvelope,
+  setVerificationKeyRegistry,
+  verifyProofEnvelope,
 } from "@syndual/zk";
 
 const DUAL_STATE_ENGINE_ABI = [
   "function setDualState(bytes32 key, bytes32 state0, bytes32 state1) external",
-  "function finalizeState(bytes32 key, uint8 chosenStateIndex) external view returns (bytes32)",
+  "function batchSetDualStates(bytes32[] keys, bytes32[] states0, bytes32[] states1) external",
+  "function finalizeWithProof(bytes32 key, uint8 chosenStateIndex, bytes32 chosenState, uint64 epoch, bytes32 nullifier, bytes proof) external",
+  "function nullifierUsed(bytes32 nullifier) external view returns (bool)",
+  "function commitBatch(bytes32 oldRoot, bytes32 newRoot, bytes32[] keys, bytes proof) external",
+  "function stateRoot() external view returns (bytes32)",
   "function getDualState(bytes32 key) external view returns (bytes32 state0, bytes32 state1, uint64 createdAt)",
+  "function getFinalizedState(bytes32 key) external view returns (bytes32 chosenState, uint8 chosenIndex, uint64 finalizedAt)",
+  "function isFinalized(bytes32 key) external view returns (bool)",
+  "event DualStateSet(bytes32 indexed key, bytes32 state0, bytes32 state1, uint64 createdAt)",
+  "event DualStateFinalized(bytes32 indexed key, uint8 indexed chosenIndex, bytes32 chosenState)",
+  "event StateRootUpdated(uint256 indexed batchIndex, bytes32 oldRoot, bytes32 newRoot)",
 ];
 
 const QSTREAM_ABI = [
-  "function createStream(address to, uint128 ratePerSecond, uint64 start, uint64 end) external returns (uint256)",
+  "function createStream(address to, uint128 ratePerSecond, uint64 start, uint64 end, bytes32 secretCommitment) external returns (uint256)",
   "function getWithdrawable(uint256 streamId) external view returns (uint256)",
   "function withdraw(uint256 streamId) external",
+  "function withdrawWithProof(uint256 streamId, uint256 amount, uint64 provedAt, bytes32 nullifier, bytes proof) external",
+  "function nullifierUsed(bytes32 nullifier) external view returns (bool)",
+  "function withdrawn(uint256 streamId) external view returns (uint256)",
+  "function settleBatch(uint256[] streamIds, uint256[] amounts, uint64 settledAt, bytes32 settlementRoot, bytes proof) external",
+  "event StreamCreated(uint256 indexed streamId, address indexed from, address indexed to, uint128 ratePerSecond, uint64 start, uint64 end)",
+  "event Withdrawn(uint256 indexed streamId, address indexed to, uint256 amount)",
+  "event BatchSettled(bytes32 indexed settlementRoot, uint64 settledAt, uint256 streamCount, uint256 totalAmount)",
 ];
 
+const ZK_VERIFIER_ABI = [
+  "function verify(uint8 proofType, bytes proof, uint256[] publicSignals) external view returns (bool)",
+  "function verifiers(uint8 proofType) external view returns (address)",
+];
+
+/**
+ * Proof type ids understood by the on-chain ZKDualProofVerifier router
+ */
+export const ON_CHAIN_PROOF_TYPES: Partial<Record<ProofType, number>> = {
+  [ProofType.DUAL_STATE]: 0,
+  [ProofType.QSTREAM]: 1,
+  [ProofType.HYBRID]: 2,
+  [ProofType.SETTLEMENT]: 3,
+  [ProofType.ROLLUP]: 4,
+  [ProofType.STREAM_BATCH]: 5,
+};
+
 export interface SynDualClientConfig {
   provider: Provider;
   signer?: Signer;
   addresses: ContractAddresses;
+  /** Nullifiers of proofs already submitted; pass a shared set to refuse replays across clients */
+  nullifiers?: NullifierSet;
+}
+
+/**
+ * Result of a write method: the decoded event plus the transaction it came from
+ */
+export type WriteResult<E> = E & { tx: TransactionResult };
+
+export type DualStateSetResult = WriteResult<DualStateSetEvent>;
+export type StreamCreatedResult = WriteResult<StreamCreatedEvent>;
+export type WithdrawResult = WriteResult<WithdrawnEvent>;
+export type DualStateFinalizedResult = WriteResult<DualStateFinalizedEvent>;
+export type StateRootUpdatedResult = WriteResult<StateRootUpdatedEvent>;
+
+/**
+ * Converts an ethers receipt into the protocol transaction result
+ */
+function toTransactionResult(receipt: TransactionReceipt): TransactionResult {
+  return {
+    hash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed,
+    status: receipt.status === 1 ? "success" : "reverted",
+  };
+}
+
+/**
+ * Encodes a proof as the `bytes` argument expected by the contracts.
+ * Hex strings are passed through as already-encoded calldata.
+ */
+function encodeProofBytes(proof: { proof: string }): string {
+  return ethers.isHexString(proof.proof) ? proof.proof : encodeProof(proof.proof);
+}
+
+/**
+ * Finds and decodes the first log in a receipt matching the given event
+ *
+ * @throws If the receipt is missing or does not contain the event
+ */
+function findEvent(contract: Contract, receipt: TransactionReceipt | null, eventName: string): LogDescription {
+  if (!receipt) {
+    throw new Error(`Transaction receipt unavailable, cannot decode ${eventName}`);
+  }
+
+  const address = receipt.to?.toLowerCase();
+  for (const log of receipt.logs) {
+    if (address && log.address.toLowerCase() !== address) {
+      continue;
+    }
+    const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (parsed && parsed.name === eventName) {
+      return parsed;
+    }
+  }
+
+  throw new Error(`${eventName} event not found in transaction ${receipt.hash}`);
 }
 
 export class SynDualClient {
   private readonly provider: Provider;
   private readonly signer?: Signer;
   private readonly addresses: ContractAddresses;
+  private readonly nullifiers: NullifierSet;
 
   constructor(config: SynDualClientConfig) {
     this.provider = config.provider;
     this.signer = config.signer;
     this.addresses = config.addresses;
+    this.nullifiers = config.nullifiers ?? new NullifierSet();
   }
 
   private get dualStateEngine(): Contract {
@@ -59,6 +237,13 @@ export class SynDualClient {
     return new Contract(this.addresses.qStreamPayments, QSTREAM_ABI, this.signer ?? this.provider);
   }
 
+  private get zkVerifier(): Contract {
+    if (!this.addresses.zkVerifier) {
+      throw new Error("zkVerifier address is not configured");
+    }
+    return new Contract(this.addresses.zkVerifier, ZK_VERIFIER_ABI, this.provider);
+  }
+
   private requireSigner(): Signer {
     if (!this.signer) {
       throw new Error("Signer is required for this action");
@@ -66,29 +251,121 @@ export class SynDualClient {
     return this.signer;
   }
 
+  private requireUnusedNullifier(circuitId: string, proof: { publicSignals: string[] }): string {
+    const nullifier = proofNullifier(circuitId, proof.publicSignals);
+    if (this.nullifiers.has(nullifier)) {
+      throw new Error(`Proof with nullifier ${nullifier} was already submitted`);
+    }
+    return nullifier;
+  }
+
   async getDualState(key: string): Promise<DualState> {
     const ds = await this.dualStateEngine.getDualState(key);
-    return { state0: ds[0], state1: ds[1], createdAt: ds[2] };
+    const state: DualState = { state0: ds[0], state1: ds[1], createdAt: ds[2] };
+    return { ...state, hash: await hashDualState(state) };
   }
 
-  async setDualState(key: string, state0: string, state1: string) {
+  async setDualState(key: string, state0: string, state1: string): Promise<DualStateSetResult> {
     const signer = this.requireSigner();
-    const contract = this.dualStateEngine.connect(signer);
+    const contract = this.dualStateEngine.connect(signer) as Contract;
     const tx = await contract.setDualState(key, state0, state1);
-    return tx.wait();
+    const receipt: TransactionReceipt | null = await tx.wait();
+    const event = findEvent(contract, receipt, "DualStateSet");
+    return { ...decodeDualStateSet(event.args), tx: toTransactionResult(receipt!) };
   }
 
-  async finalizeState(key: string, chosenIndex: number) {
-    return this.dualStateEngine.finalizeState(key, chosenIndex);
+  /**
+   * Reveals the selected state (the proof's first public signal) and finalizes it on-chain,
+   * spending the proof's nullifier
+   *
+   * @throws If this client already submitted a proof with the same nullifier
+   */
+  async finalizeState(key: string, chosenIndex: 0 | 1, proof: DualStateProof): Promise<DualStateFinalizedResult> {
+    const signer = this.requireSigner();
+    const contract = this.dualStateEngine.connect(signer) as Contract;
+    const nullifier = this.requireUnusedNullifier(DUAL_STATE_CIRCUIT, proof);
+    const signals = proof.publicSignals;
+    const chosenState = ethers.toBeHex(BigInt(signals[DUAL_STATE_SIGNALS.selected]), 32);
+    const tx = await contract.finalizeWithProof(
+      key,
+      chosenIndex,
+      chosenState,
+      signals[DUAL_STATE_SIGNALS.epoch],
+      nullifier,
+      encodeProofBytes(proof),
+    );
+    const receipt: TransactionReceipt | null = await tx.wait();
+    const event = findEvent(contract, receipt, "DualStateFinalized");
+    this.nullifiers.consume(nullifier);
+    return { ...decodeDualStateFinalized(event.args), tx: toTransactionResult(receipt!) };
+  }
+
+  /**
+   * Root of the rolled-up dual states committed through `commitBatch`
+   */
+  async getStateRoot(): Promise<string> {
+    return this.dualStateEngine.stateRoot();
+  }
+
+  /**
+   * Commits one rollup proof; its `oldRoot` must be the current on-chain state root
+   */
+  async commitRollupProof(proof: DualStateRollupProof): Promise<StateRootUpdatedResult> {
+    const signer = this.requireSigner();
+    const contract = this.dualStateEngine.connect(signer) as Contract;
+    const tx = await contract.commitBatch(proof.oldRoot, proof.newRoot, proof.keys, encodeProofBytes(proof));
+    const receipt: TransactionReceipt | null = await tx.wait();
+    const event = findEvent(contract, receipt, "StateRootUpdated");
+    return { ...decodeStateRootUpdated(event.args), tx: toTransactionResult(receipt!) };
+  }
+
+  /**
+   * Proves a batch with `rollup` and commits the proofs in order, paying one
+   * verification per `ROLLUP_BATCH_SIZE` states instead of one `setDualState` per key
+   *
+   * @throws If `rollup` is not at the on-chain state root, or proving or a commit fails
+   */
+  async commitDualStateBatch(batch: DualStateBatch, rollup: DualStateRollup): Promise<StateRootUpdatedResult[]> {
+    const onChainRoot = await this.getStateRoot();
+    if (onChainRoot.toLowerCase() !== rollup.root) {
+      throw new Error(`Rollup root ${rollup.root} does not match the on-chain state root ${onChainRoot}`);
+    }
+
+    const proofs = await rollup.proveBatch(batch);
+    const results: StateRootUpdatedResult[] = [];
+    for (const proof of proofs) {
+      results.push(await this.commitRollupProof(proof));
+    }
+    return results;
   }
 
-  async createQStream(to: string, ratePerSecond: bigint, start: number, end: number) {
+  async getFinalizedState(key: string): Promise<FinalizedDualState | null> {
+    const fs = await this.dualStateEngine.getFinalizedState(key);
+    const finalizedAt = BigInt(fs[2]);
+    if (finalizedAt === 0n) {
+      return null;
+    }
+    return { key, chosenState: fs[0], chosenIndex: Number(fs[1]), finalizedAt };
+  }
+
+  /**
+   * Creates a stream whose Q-Stream proofs must be made with `secret`; only its
+   * commitment (`computeQStreamSecretCommitment`) is sent on-chain
+   */
+  async createQStream(
+    to: string,
+    ratePerSecond: bigint,
+    start: number,
+    end: number,
+    secret: string | bigint,
+  ): Promise<StreamCreatedResult> {
     const signer = this.requireSigner();
-    const contract = this.qStream.connect(signer);
-    const tx = await contract.createStream(to, ratePerSecond, start, end);
-    const receipt = await tx.wait();
-    // TODO: parse emitted event for streamId once topics are known
-    return receipt;
+    const contract = this.qStream.connect(signer) as Contract;
+    const secretCommitment = ethers.toBeHex(await computeQStreamSecretCommitment(secret), 32);
+    const tx = await contract.createStream(to, ratePerSecond, start, end, secretCommitment);
+    const receipt: TransactionReceipt | null = await tx.wait();
+    const event = findEvent(contract, receipt, "StreamCreated");
+    return { ...decodeStreamCreated(event.args), tx: toTransactionResult(receipt!) };
   }
 
   async getWithdrawable(streamId: bigint): Promise<bigint> {
@@ -96,15 +373,153 @@ export class SynDualClient {
     return BigInt(result);
   }
 
-  async withdrawStream(streamId: bigint) {
+  async withdrawStream(streamId: bigint): Promise<WithdrawResult> {
     const signer = this.requireSigner();
-    const contract = this.qStream.connect(signer);
+    const contract = this.qStream.connect(signer) as Contract;
     const tx = await contract.withdraw(streamId);
-    return tx.wait();
+    const receipt: TransactionReceipt | null = await tx.wait();
+    const event = findEvent(contract, receipt, "Withdrawn");
+    return { ...decodeWithdrawn(event.args), tx: toTransactionResult(receipt!) };
+  }
+
+  /**
+   * Withdraws the owed amount shown by a Q-Stream proof, spending its nullifier.
+   * The proof must be made with the stream's secret against its current withdrawn amount.
+   *
+   * @throws If this client already submitted a proof with the same nullifier
+   */
+  async withdrawWithProof(streamId: bigint, proof: QStreamProof): Promise<WithdrawResult> {
+    const signer = this.requireSigner();
+    const contract = this.qStream.connect(signer) as Contract;
+    const nullifier = this.requireUnusedNullifier(QSTREAM_CIRCUIT, proof);
+    const signals = proof.publicSignals;
+    const tx = await contract.withdrawWithProof(
+      streamId,
+      signals[QSTREAM_SIGNALS.owedAmount],
+      signals[QSTREAM_SIGNALS.currentTime],
+      nullifier,
+      encodeProofBytes(proof),
+    );
+    const receipt: TransactionReceipt | null = await tx.wait();
+    const event = findEvent(contract, receipt, "Withdrawn");
+    this.nullifiers.consume(nullifier);
+    return { ...decodeWithdrawn(event.args), tx: toTransactionResult(receipt!) };
+  }
+
+  /**
+   * Whether a dual-state or Q-Stream proof was already consumed, by this client or on-chain
+   *
+   * @throws If the proof type carries no nullifier
+   */
+  async isProofConsumed(proof: DualStateProof | QStreamProof, proofType: ProofType): Promise<boolean> {
+    let contract: Contract;
+    let nullifier: string;
+    if (proofType === ProofType.DUAL_STATE) {
+      contract = this.dualStateEngine;
+      nullifier = proofNullifier(DUAL_STATE_CIRCUIT, proof.publicSignals);
+    } else if (proofType === ProofType.QSTREAM) {
+      contract = this.qStream;
+      nullifier = proofNullifier(QSTREAM_CIRCUIT, proof.publicSignals);
+    } else {
+      throw new Error(`Proof type ${proofType} has no nullifier`);
+    }
+    return this.nullifiers.has(nullifier) || contract.nullifierUsed(nullifier);
+  }
+
+  onDualStateSet(
+    filter: DualStateSetFilter = {},
+    listener?: EventListener<DualStateSetEvent>,
+    options?: SubscriptionOptions,
+  ): EventSubscription<DualStateSetEvent> {
+    const contract = this.dualStateEngine;
+    return new EventSubscription(
+      this.provider,
+      contract,
+      contract.filters.DualStateSet(filter.key ?? null),
+      decodeDualStateSet,
+      options,
+      listener,
+    );
+  }
+
+  onDualStateFinalized(
+    filter: DualStateFinalizedFilter = {},
+    listener?: EventListener<DualStateFinalizedEvent>,
+    options?: SubscriptionOptions,
+  ): EventSubscription<DualStateFinalizedEvent> {
+    const contract = this.dualStateEngine;
+    return new EventSubscription(
+      this.provider,
+      contract,
+      contract.filters.DualStateFinalized(filter.key ?? null, filter.chosenIndex ?? null),
+      decodeDualStateFinalized,
+      options,
+      listener,
+    );
   }
 
-  async requestDualStateProof(state0: string, state1: string, selector: 0 | 1): Promise<DualStateProof> {
-    const proof = await generateDualStateProof(state0, state1, selector);
+  onStreamCreated(
+    filter: StreamCreatedFilter = {},
+    listener?: EventListener<StreamCreatedEvent>,
+    options?: SubscriptionOptions,
+  ): EventSubscription<StreamCreatedEvent> {
+    const contract = this.qStream;
+    return new EventSubscription(
+      this.provider,
+      contract,
+      contract.filters.StreamCreated(filter.streamId ?? null, filter.from ?? null, filter.to ?? null),
+      decodeStreamCreated,
+      options,
+      listener,
+    );
+  }
+
+  onWithdrawn(
+    filter: WithdrawnFilter = {},
+    listener?: EventListener<WithdrawnEvent>,
+    options?: SubscriptionOptions,
+  ): EventSubscription<WithdrawnEvent> {
+    const contract = this.qStream;
+    return new EventSubscription(
+      this.provider,
+      contract,
+      contract.filters.Withdrawn(filter.streamId ?? null, filter.to ?? null),
+      decodeWithdrawn,
+      options,
+      listener,
+    );
+  }
+
+  /**
+   * Checks a proof or proof envelope against the deployed verifier with an
+   * `eth_call`, using the same calldata encoding as on-chain finalization
+   *
+   * @throws If no verifier is configured or the proof type has no on-chain verifier
+   */
+  async verifyOnChain(proof: DualStateProof | QStreamProof | ProofEnvelope, proofType: ProofType): Promise<boolean> {
+    const typeId = ON_CHAIN_PROOF_TYPES[proofType];
+    if (typeId === undefined) {
+      throw new Error(`Proof type ${proofType} has no on-chain verifier`);
+    }
+
+    let calldata;
+    try {
+      calldata = "circuitId" in proof ? envelopeToCalldata(proof) : toVerifierCalldata(proof);
+    } catch {
+      // Mock or malformed proofs can never pass the verifier
+      return false;
+    }
+    return this.zkVerifier.verify(typeId, calldata.proof, calldata.publicSignals);
+  }
+
+  async requestDualStateProof(
+    state0: string,
+    state1: string,
+    selector: 0 | 1,
+    salts: Pick<DualStateCommitments, "salt0" | "salt1">,
+    context: DualStateProofContext,
+  ): Promise<DualStateProof> {
+    const proof = await generateDualStateProof(state0, state1, selector, salts, context);
     const valid = await verifyDualStateProof(proof);
     if (!valid) {
       throw new Error("Dual state proof invalid");
@@ -112,8 +527,15 @@ export class SynDualClient {
     return proof;
   }
 
-  async requestQStreamProof(ratePerSecond: bigint, elapsedTime: bigint): Promise<QStreamProof> {
-    const proof = await generateQStreamProof(ratePerSecond, elapsedTime);
+  /**
+   * Proves what `stream` owes at `currentTime`; `stream.settled` is the amount already withdrawn
+   */
+  async requestQStreamProof(
+    stream: Stream,
+    context: QStreamProofContext,
+    currentTime?: number | bigint,
+  ): Promise<QStreamProof> {
+    const proof = await generateQStreamProof(stream, context, currentTime);
     const valid = await verifyQStreamProof(proof);
     if (!valid) {
       throw new Error("Q-Stream proof invalid");
@@ -126,14 +548,39 @@ export class SynDualClient {
  * Utility functions for proof validation and stream operations
  */
 
+/**
+ * Verifies a proof under the keys of `circuitId` in the verification key
+ * registry, so proofs made with a retired key are rejected. Mock proofs have
+ * no key and are checked by `verify` alone.
+ */
+async function verifyWithKeyRegistry(
+  circuitId: string,
+  proof: DualStateProof | QStreamProof,
+  verify: (config: Partial<ProofConfig>) => Promise<boolean>,
+  registry?: VerificationKeyRegistry,
+): Promise<{ valid: boolean; error?: string }> {
+  if (isMockProof(proof.proof)) {
+    return { valid: await verify({}) };
+  }
+  try {
+    return await (registry ?? getVerificationKeyRegistry()).verifyProof(circuitId, proof, { verify });
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
 /**
  * Validates the structure and cryptographic integrity of a dual-state proof.
  * 
  * @param proof - The dual-state proof to validate
+ * @param registry - Verification keys to accept; defaults to the shared registry
  * @returns Promise resolving to validation result with errors and warnings
  * @throws Never throws; returns errors in ValidationResult instead
  */
-export async function validateDualStateProof(proof: DualStateProof): Promise<ValidationResult> {
+export async function validateDualStateProof(
+  proof: DualStateProof,
+  registry?: VerificationKeyRegistry,
+): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
   
@@ -149,9 +596,15 @@ export async function validateDualStateProof(proof: DualStateProof): Promise<Val
     errors.push("Expected at least 2 public signals for dual state");
   }
   
-  const isValid = await verifyDualStateProof(proof);
+  const verification = await verifyWithKeyRegistry(
+    DUAL_STATE_CIRCUIT,
+    proof,
+    (config) => verifyDualStateProof(proof, config),
+    registry,
+  );
+  const isValid = verification.valid;
   if (!isValid) {
-    errors.push("Proof verification failed");
+    errors.push(verification.error ?? "Proof verification failed");
   }
   
   if (proof.timestamp && proof.timestamp > Date.now()) {
@@ -169,9 +622,13 @@ export async function validateDualStateProof(proof: DualStateProof): Promise<Val
  * Validates a quantum stream proof for cryptographic integrity.
  * 
  * @param proof - The quantum stream proof to validate
+ * @param registry - Verification keys to accept; defaults to the shared registry
  * @returns Promise resolving to validation result
  */
-export async function validateQStreamProof(proof: QStreamProof): Promise<ValidationResult> {
+export async function validateQStreamProof(
+  proof: QStreamProof,
+  registry?: VerificationKeyRegistry,
+): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
   
@@ -183,9 +640,15 @@ export async function validateQStreamProof(proof: QStreamProof): Promise<Validat
     errors.push("Public signals are missing");
   }
   
-  const isValid = await verifyQStreamProof(proof);
+  const verification = await verifyWithKeyRegistry(
+    QSTREAM_CIRCUIT,
+    proof,
+    (config) => verifyQStreamProof(proof, config),
+    registry,
+  );
+  const isValid = verification.valid;
   if (!isValid) {
-    errors.push("Proof verification failed");
+    errors.push(verification.error ?? "Proof verification failed");
   }
   
   if (proof.timestamp && proof.timestamp > Date.now()) {
@@ -314,44 +777,46 @@ export function getStreamStatus(stream: Stream, currentTime: number): StreamStat
 }
 
 /**
- * Computes a cryptographic hash of a dual state using Keccak256.
- * 
- * @param state - The dual state to hash
- * @returns Hex string hash (0x prefixed)
+ * Derives the Poseidon commitments to store through `setDualState` in place of the raw states.
+ * Missing salts are generated; the returned salts are needed later to prove a selection.
+ *
+ * @param state0 - First state as a field element (decimal or hex)
+ * @param state1 - Second state as a field element (decimal or hex)
+ * @param salts - Optional fixed salts
+ * @returns Commitments as bytes32 plus the salts used
  */
-export function hashDualState(state: DualState): string {
-  const data = `${state.state0}:${state.state1}:${state.createdAt}`;
-  return ethers.keccak256(ethers.toUtf8Bytes(data));
+export async function deriveDualStateCommitments(
+  state0: string,
+  state1: string,
+  salts?: { salt0?: string; salt1?: string },
+): Promise<DualStateCommitments> {
+  return commitDualState(state0, state1, salts);
 }
 
 /**
- * Creates a hybrid proof combining dual-state and stream proofs.
+ * Creates a hybrid proof binding a dual-state proof to a stream proof.
+ * The binding is a `hybrid_proof.circom` proof whose `hybridHash` commits to
+ * the state commitments and to the settlement the stream proof attests to.
  * 
+ * @param dualState - The dual state the proof selects from
+ * @param stream - The stream being settled
  * @param dualStateProof - The dual-state proof component
  * @param streamProof - The stream proof component
- * @returns Combined hybrid proof with merged signals
+ * @param prover - Prover holding the batch Merkle tree (defaults to a fresh one)
+ * @returns Hybrid proof with the binding proof and its public signals
  */
-export function createHybridProof(
+export async function createHybridProof(
+  dualState: DualState,
+  stream: Stream,
   dualStateProof: DualStateProof,
   streamProof: QStreamProof,
-): HybridProof {
-  const combinedSignals = [
-    ...dualStateProof.publicSignals,
-    ...streamProof.publicSignals,
-  ];
-  
-  return {
-    id: ethers.id(JSON.stringify(combinedSignals)),
-    dualStateProof,
-    streamProof,
-    combinedSignals,
-    timestamp: Date.now(),
-    verified: (dualStateProof.verified ?? false) && (streamProof.verified ?? false),
-  };
+  prover: HybridProver = createHybridProver(),
+): Promise<HybridProof> {
+  return prover.generateHybridProof(dualState, stream, dualStateProof, streamProof);
 }
 
 /**
- * Validates a hybrid proof by checking both component proofs.
+ * Validates a hybrid proof: both component proofs and the binding between them.
  * 
  * @param proof - The hybrid proof to validate
  * @returns Validation result
@@ -385,11 +850,19 @@ export async function validateHybridProof(proof: HybridProof): Promise<Validatio
   if (!proof.combinedSignals || proof.combinedSignals.length === 0) {
     errors.push("Combined signals are missing");
   }
+
+  let binding: ValidationResult | undefined;
+  if (proof.dualStateProof && proof.streamProof) {
+    binding = await verifyHybridBinding(proof);
+    if (!binding.valid && binding.errors) {
+      errors.push(`Hybrid binding invalid: ${binding.errors.join(", ")}`);
+    }
+  }
   
   return {
     valid: errors.length === 0,
     errors: errors.length > 0 ? errors : undefined,
-    verified: proof.verified,
+    metadata: { verified: proof.verified, ...binding?.metadata },
   };
 }
 
@@ -409,17 +882,19 @@ export function estimateStreamCost(
 
 /**
  * Estimates the number of settlement proofs needed for a batch of streams.
- * Calculates merkle tree depth based on stream count.
+ * `StreamSettlementBatcher` proves `STREAM_BATCH_SIZE` streams per proof.
  * 
  * @param numberOfStreams - Total number of streams in batch
- * @returns Estimated proof count (log2 of stream count + 1)
+ * @returns Number of batch proofs (and `settleBatch` transactions)
  */
 export function estimateSettlementProofs(numberOfStreams: number): number {
-  return Math.ceil(Math.log2(numberOfStreams)) + 1;
+  return Math.ceil(numberOfStreams / STREAM_BATCH_SIZE);
 }
 
 /**
  * Validates multiple proofs in parallel.
+ * To check many proofs of one type in a single step, aggregate them with
+ * `aggregateProofs` from `@syndual/zk`.
  * 
  * @param proofs - Array of proofs to validate
  * @returns Array of validation results
@@ -437,32 +912,104 @@ export async function batchValidateProofs(
   );
 }
 
+/**
+ * Rough gas cost of one `batchSetDualStates` item (three fresh storage slots plus the event)
+ */
+export const ESTIMATED_GAS_PER_DUAL_STATE = 75000n;
+
+export interface SubmitDualStateBatchOptions {
+  /** Items per transaction; derived from `gasLimit` when omitted */
+  chunkSize?: number;
+  /** Gas budget per transaction (default PROTOCOL_PARAMETERS.DEFAULT_GAS_LIMIT) */
+  gasLimit?: bigint;
+}
+
 /**
  * Submits a batch of dual-state transitions to the contract.
+ * The batch is split into chunks that fit the gas budget and each chunk is sent
+ * as one `batchSetDualStates` transaction. A failed chunk does not stop the rest.
+ * Keys that are already finalized would revert their whole chunk, so they are
+ * checked first and marked failed without being sent.
  * 
- * @param batch - The dual state batch to submit
+ * @param batch - The dual state batch to submit; every state needs a `key`
  * @param signer - Signer to use for transaction
  * @param engineAddress - Address of dual-state engine contract
- * @returns Transaction hash
- * @throws If batch is invalid or transaction fails
+ * @param options - Chunking options
+ * @returns Per-item status and the transactions that were sent
  */
 export async function submitDualStateBatch(
   batch: DualStateBatch,
   signer: Signer,
   engineAddress: string,
-): Promise<string> {
+  options: SubmitDualStateBatchOptions = {},
+): Promise<DualStateBatchResult> {
   const contract = new Contract(
     engineAddress,
     DUAL_STATE_ENGINE_ABI,
     signer,
   );
 
-  const tx = await contract.batchSetDualStates(
-    batch.states.map((s: DualState) => ({ state0: s.state0, state1: s.state1 })),
-  );
+  const gasLimit = options.gasLimit ?? PROTOCOL_PARAMETERS.DEFAULT_GAS_LIMIT;
+  const chunkSize = Math.max(1, options.chunkSize ?? Number(gasLimit / ESTIMATED_GAS_PER_DUAL_STATE));
+
+  const items: DualStateBatchItemResult[] = batch.states.map((s: DualState, index) => ({
+    index,
+    key: s.key,
+    status: s.key ? OperationStatus.PENDING : OperationStatus.FAILED,
+    error: s.key ? undefined : "Dual state key is missing",
+  }));
+  const pending = items.filter((item) => item.status === OperationStatus.PENDING);
+  const transactions: TransactionResult[] = [];
+
+  for (let offset = 0; offset < pending.length; offset += chunkSize) {
+    const chunk = pending.slice(offset, offset + chunkSize);
+    chunk.forEach((item) => (item.status = OperationStatus.PROCESSING));
+    let sent = chunk;
+
+    try {
+      const finalized: boolean[] = await Promise.all(chunk.map((item) => contract.isFinalized(item.key)));
+      sent = chunk.filter((item, i) => {
+        if (finalized[i]) {
+          item.status = OperationStatus.FAILED;
+          item.error = "Dual state is already finalized";
+        }
+        return !finalized[i];
+      });
+      if (sent.length === 0) continue;
+
+      const tx = await contract.batchSetDualStates(
+        sent.map((item) => item.key),
+        sent.map((item) => batch.states[item.index].state0),
+        sent.map((item) => batch.states[item.index].state1),
+        { gasLimit },
+      );
+      const receipt: TransactionReceipt = await tx.wait();
+      transactions.push(toTransactionResult(receipt));
+
+      const committed = new Set<string>();
+      for (const log of receipt.logs) {
+        const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+        if (parsed?.name === "DualStateSet") {
+          committed.add(String(parsed.args.key).toLowerCase());
+        }
+      }
 
-  const receipt = await tx.wait();
-  return receipt?.hash || "";
+      for (const item of sent) {
+        const ok = committed.has(item.key!.toLowerCase());
+        item.status = ok ? OperationStatus.COMPLETED : OperationStatus.FAILED;
+        item.transactionHash = receipt.hash;
+        if (!ok) item.error = "DualStateSet event not emitted";
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      for (const item of sent) {
+        item.status = OperationStatus.REVERTED;
+        item.error = message;
+      }
+    }
+  }
+
+  return { batchId: batch.id, items, transactions };
 }
 
 /**
@@ -802,6 +1349,135 @@ export class BatchStreamManager {
   }
 }
 
+// ==================== Batched Stream Settlement ====================
+
+/**
+ * Settles streams tracked by a `StreamManager` through `QStreamPayments.settleBatch`,
+ * proving `STREAM_BATCH_SIZE` streams per proof and paying each group out in one
+ * transaction. Manager stream ids must be the on-chain stream ids.
+ */
+export class StreamSettlementBatcher {
+  private readonly contract: Contract;
+
+  constructor(
+    private readonly streams: StreamManager,
+    private readonly signer: Signer,
+    paymentsAddress: string,
+    private readonly config: Partial<ProofConfig> = {},
+  ) {
+    this.contract = new Contract(paymentsAddress, QSTREAM_ABI, signer);
+  }
+
+  /**
+   * Settles `streamIds` (default: every active stream) at `settledAt`
+   * (default: the latest block time). Each stream's `settled` amount is synced
+   * from the contract before proving and advanced once its batch is paid.
+   * A failed batch does not stop the rest.
+   *
+   * @returns One record per requested stream, in request order
+   */
+  async settle(streamIds?: string[], settledAt?: number): Promise<StreamSettlement[]> {
+    const ids =
+      streamIds ?? this.streams.getAllStreams().filter((s) => s.status === StreamStatus.ACTIVE).map((s) => s.id);
+    const time = settledAt ?? (await this.latestBlockTime());
+
+    const seen = new Set<string>();
+    const records: StreamSettlement[] = ids.map((streamId) => {
+      const record: StreamSettlement = {
+        streamId,
+        settlementAmount: 0n,
+        settledAt: time,
+        proof: { proof: "", publicSignals: [] },
+        status: OperationStatus.PENDING,
+      };
+      if (!this.streams.getStream(streamId)) {
+        record.status = OperationStatus.FAILED;
+        record.error = "Unknown stream";
+      } else if (!/^\d+$/.test(streamId)) {
+        record.status = OperationStatus.FAILED;
+        record.error = "Stream id is not an on-chain stream id";
+      } else if (seen.has(streamId)) {
+        record.status = OperationStatus.FAILED;
+        record.error = "Duplicate stream";
+      }
+      seen.add(streamId);
+      return record;
+    });
+
+    // settleBatch takes strictly ascending ids
+    const pending = records
+      .filter((record) => record.status === OperationStatus.PENDING)
+      .sort((a, b) => (BigInt(a.streamId) < BigInt(b.streamId) ? -1 : 1));
+
+    for (let offset = 0; offset < pending.length; offset += STREAM_BATCH_SIZE) {
+      await this.settleChunk(pending.slice(offset, offset + STREAM_BATCH_SIZE), time);
+    }
+
+    return records;
+  }
+
+  private async settleChunk(chunk: StreamSettlement[], settledAt: number): Promise<void> {
+    chunk.forEach((record) => (record.status = OperationStatus.PROCESSING));
+
+    let batch: StreamBatchProof;
+    try {
+      const entries: StreamBatchEntry[] = [];
+      for (const record of chunk) {
+        const withdrawn: bigint = await this.contract.withdrawn(record.streamId);
+        this.streams.updateSettlement(record.streamId, BigInt(withdrawn));
+        entries.push({ streamId: BigInt(record.streamId), stream: this.streams.getStream(record.streamId)! });
+      }
+      batch = await generateStreamBatchProof(entries, settledAt, this.config);
+    } catch (error) {
+      markChunk(chunk, OperationStatus.FAILED, error);
+      return;
+    }
+
+    chunk.forEach((record, i) => {
+      record.settlementAmount = batch.amounts[i];
+      record.proof = batch;
+      record.settlementRoot = batch.settlementRoot;
+    });
+
+    try {
+      const tx = await this.contract.settleBatch(
+        batch.streamIds,
+        batch.amounts,
+        batch.settledAt,
+        batch.settlementRoot,
+        encodeProofBytes(batch),
+      );
+      const receipt: TransactionReceipt | null = await tx.wait();
+      findEvent(this.contract, receipt, "BatchSettled");
+
+      for (const record of chunk) {
+        const stream = this.streams.getStream(record.streamId)!;
+        this.streams.updateSettlement(record.streamId, (stream.settled ?? 0n) + record.settlementAmount);
+        record.status = OperationStatus.COMPLETED;
+        record.transactionHash = receipt!.hash;
+      }
+    } catch (error) {
+      markChunk(chunk, OperationStatus.REVERTED, error);
+    }
+  }
+
+  private async latestBlockTime(): Promise<number> {
+    const block = await this.signer.provider?.getBlock("latest");
+    if (!block) {
+      throw new Error("Signer has no provider to read the block time from");
+    }
+    return block.timestamp;
+  }
+}
+
+function markChunk(chunk: StreamSettlement[], status: OperationStatus, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  for (const record of chunk) {
+    record.status = status;
+    record.error = message;
+  }
+}
+
 // ==================== Package Version & Info ====================
 
 export const SDK_VERSION = "1.0.0";
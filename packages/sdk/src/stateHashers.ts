@@ -0,0 +1,223 @@
+/**
+ * State Hashing
+ *
+ * States are hashed as typed, length-prefixed fields behind a domain tag, so
+ * no two different inputs share an encoding, whatever characters they contain.
+ * Hashers are looked up by id in a registry, and every StateHash names the
+ * hasher that produced it, so stored hashes can still be checked and migrated
+ * after the default hasher changes.
+ */
+
+import { blake3 } from "@noble/hashes/blake3";
+import { sha3_256 } from "@noble/hashes/sha3";
+import { BytesLike, ethers } from "ethers";
+import { DualState, StateHash, StateHasher, StateHasherId } from "@syndual/core-types";
+import { poseidonHash } from "@syndual/zk";
+
+export const DUAL_STATE_HASH_DOMAIN = "syndual.dual-state.v1";
+
+/** Field elements absorbed per Poseidon call, next to the running state */
+const POSEIDON_RATE = 15;
+/** Bytes per field element, so each chunk stays below the BN254 modulus */
+const POSEIDON_CHUNK_BYTES = 31;
+
+export type HashField =
+  | { type: "string"; value: string }
+  | { type: "bytes"; value: BytesLike }
+  | { type: "uint"; value: bigint | number };
+
+const FIELD_TYPE_TAGS = { domain: 0, string: 1, bytes: 2, uint: 3 } as const;
+
+// ==================== Encoding ====================
+
+function encodeField(tag: number, bytes: Uint8Array): Uint8Array {
+  const encoded = new Uint8Array(5 + bytes.length);
+  encoded[0] = tag;
+  new DataView(encoded.buffer).setUint32(1, bytes.length);
+  encoded.set(bytes, 5);
+  return encoded;
+}
+
+function fieldBytes(field: HashField): Uint8Array {
+  switch (field.type) {
+    case "string":
+      return ethers.toUtf8Bytes(field.value);
+    case "bytes":
+      return ethers.getBytes(field.value);
+    case "uint":
+      if (BigInt(field.value) < 0n) {
+        throw new Error(`Hash input ${field.value} is not an unsigned integer`);
+      }
+      return ethers.toBeArray(field.value);
+  }
+}
+
+/**
+ * Encodes `fields` behind `domain`. The domain and each field are written as
+ * a type tag byte, a 4-byte big-endian length and the value's bytes; unsigned
+ * integers take their shortest big-endian form.
+ */
+export function encodeHashInput(domain: string, fields: HashField[]): Uint8Array {
+  return ethers.getBytes(
+    ethers.concat([
+      encodeField(FIELD_TYPE_TAGS.domain, ethers.toUtf8Bytes(domain)),
+      ...fields.map((field) => encodeField(FIELD_TYPE_TAGS[field.type], fieldBytes(field))),
+    ]),
+  );
+}
+
+/** Fields of a dual state covered by its hash */
+export function dualStateHashInput(state: DualState): Uint8Array {
+  return encodeHashInput(DUAL_STATE_HASH_DOMAIN, [
+    { type: "string", value: state.state0 },
+    { type: "string", value: state.state1 },
+    { type: "uint", value: state.createdAt },
+  ]);
+}
+
+// ==================== Hashers ====================
+
+export const keccak256StateHasher: StateHasher = {
+  id: StateHasherId.KECCAK256,
+  digest: async (data) => ethers.keccak256(data),
+};
+
+export const sha3StateHasher: StateHasher = {
+  id: StateHasherId.SHA3_256,
+  digest: async (data) => ethers.hexlify(sha3_256(data)),
+};
+
+export const blake3StateHasher: StateHasher = {
+  id: StateHasherId.BLAKE3,
+  digest: async (data) => ethers.hexlify(blake3(data)),
+};
+
+/**
+ * Absorbs the byte length and then 31-byte chunks of the input, 15 field
+ * elements per Poseidon call chained through the previous output
+ */
+export const poseidonStateHasher: StateHasher = {
+  id: StateHasherId.POSEIDON,
+  async digest(data) {
+    const elements = [BigInt(data.length)];
+    for (let i = 0; i < data.length; i += POSEIDON_CHUNK_BYTES) {
+      elements.push(ethers.toBigInt(data.slice(i, i + POSEIDON_CHUNK_BYTES)));
+    }
+    let state = 0n;
+    for (let i = 0; i < elements.length; i += POSEIDON_RATE) {
+      state = await poseidonHash([state, ...elements.slice(i, i + POSEIDON_RATE)]);
+    }
+    return ethers.toBeHex(state, 32);
+  },
+};
+
+// ==================== Registry ====================
+
+export class StateHasherRegistry {
+  private readonly hashers = new Map<string, StateHasher>();
+  private defaultId: string;
+
+  constructor(
+    hashers: StateHasher[] = [keccak256StateHasher, sha3StateHasher, blake3StateHasher, poseidonStateHasher],
+    defaultId: string = StateHasherId.KECCAK256,
+  ) {
+    hashers.forEach((hasher) => this.register(hasher));
+    this.defaultId = defaultId;
+    this.get(defaultId);
+  }
+
+  /**
+   * @throws If a hasher with the same id is registered, since hashes it
+   * recorded would then be checked against a different function
+   */
+  register(hasher: StateHasher): void {
+    if (this.hashers.has(hasher.id)) {
+      throw new Error(`State hasher "${hasher.id}" is already registered`);
+    }
+    this.hashers.set(hasher.id, hasher);
+  }
+
+  /**
+   * @throws If no hasher has this id
+   */
+  get(id: string): StateHasher {
+    const hasher = this.hashers.get(id);
+    if (!hasher) {
+      throw new Error(`Unknown state hasher "${id}"`);
+    }
+    return hasher;
+  }
+
+  list(): string[] {
+    return [...this.hashers.keys()];
+  }
+
+  /** Hasher for new hashes; existing hashes keep the one they record */
+  get default(): StateHasher {
+    return this.get(this.defaultId);
+  }
+
+  setDefault(id: string): void {
+    this.get(id);
+    this.defaultId = id;
+  }
+}
+
+let defaultRegistry: StateHasherRegistry | undefined;
+
+/**
+ * Registry used by `hashDualState`; holds the built-in hashers with keccak256
+ * as the default
+ */
+export function getStateHasherRegistry(): StateHasherRegistry {
+  defaultRegistry ??= new StateHasherRegistry();
+  return defaultRegistry;
+}
+
+/**
+ * Replaces the registry used by `hashDualState`; pass undefined to go back to
+ * the built-in hashers
+ */
+export function setStateHasherRegistry(registry: StateHasherRegistry | undefined): void {
+  defaultRegistry = registry;
+}
+
+// ==================== Dual States ====================
+
+/**
+ * Hashes a dual state's states and creation time
+ *
+ * @param hasherId - Hasher to use instead of the registry's default
+ */
+export async function hashDualState(state: DualState, hasherId?: string): Promise<StateHash> {
+  const registry = getStateHasherRegistry();
+  const hasher = hasherId === undefined ? registry.default : registry.get(hasherId);
+  return { hasher: hasher.id, value: await hasher.digest(dualStateHashInput(state)) };
+}
+
+/**
+ * Recomputes `state.hash` with the hasher it records
+ *
+ * @returns false if the state has no hash or it does not match
+ * @throws If the recorded hasher is not registered
+ */
+export async function verifyDualStateHash(state: DualState): Promise<boolean> {
+  if (!state.hash) {
+    return false;
+  }
+  const { value } = await hashDualState(state, state.hash.hasher);
+  return value.toLowerCase() === state.hash.value.toLowerCase();
+}
+
+/**
+ * Moves a dual state to another hasher, after checking its current hash
+ *
+ * @param hasherId - Target hasher (default: the registry's default)
+ * @throws If the state has a hash that does not match it
+ */
+export async function rehashDualState(state: DualState, hasherId?: string): Promise<DualState> {
+  if (state.hash && !(await verifyDualStateHash(state))) {
+    throw new Error(`Dual state does not match its recorded ${state.hash.hasher} hash ${state.hash.value}`);
+  }
+  return { ...state, hash: await hashDualState(state, hasherId) };
+}
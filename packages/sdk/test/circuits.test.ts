@@ -0,0 +1,238 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { DualState, Stream } from "@syndual/core-types";
+import {
+  PoseidonMerkleTree,
+  commitDualState,
+  computeDualStateNullifier,
+  computeHybridHash,
+  computeQStreamNullifier,
+  computeQStreamSecretCommitment,
+  computeStreamCommitment,
+  keyToField,
+  toHybridMerkleInputs,
+} from "@syndual/zk";
+import { CircuitHarness, DataGenerator, TestDataSets } from "@syndual/zk/node";
+import { calculateRemainingFlow, calculateStreamFlow, hashDualState } from "../src";
+
+/**
+ * Runs the circuits on generated data and checks their outputs against the
+ * SDK's reference functions. Needs circom (`$CIRCOM_BIN`) and is skipped
+ * without it unless `REQUIRE_CIRCOM=1`; compiled circuits are kept in
+ * `zk/build/test`, so only changed circuits are recompiled.
+ */
+
+const harness = new CircuitHarness();
+const skip = harness.circomSkipReason();
+const SCENARIOS = 5;
+
+before(async () => {
+  if (!skip) {
+    await harness.checkCircom();
+  }
+});
+
+function settlementScenarios(): { stream: Stream; currentTime: number; settled: bigint }[] {
+  return Array.from({ length: SCENARIOS }, () => {
+    const { stream, elapsed, settled } = DataGenerator.generateSettlementScenario();
+    return { stream, currentTime: Number(stream.start) + elapsed, settled };
+  });
+}
+
+/** Times before, at and after each end of the stream and in between */
+function sampleTimes(stream: Stream): number[] {
+  const start = Number(stream.start);
+  const end = Number(stream.end);
+  return [start - 10, start, start + Math.floor((end - start) / 2), end, end + 10];
+}
+
+async function qStreamInput(stream: Stream, currentTime: number, withdrawn: bigint, secret = 12345n) {
+  return {
+    ratePerSecond: stream.ratePerSecond,
+    streamStart: stream.start,
+    streamEnd: stream.end,
+    currentTime,
+    withdrawn,
+    streamId: 7,
+    secretCommitment: await computeQStreamSecretCommitment(12345n),
+    nullifierSecret: secret,
+  };
+}
+
+async function dualStateInput(state: DualState, selector: number) {
+  const state0 = keyToField(state.state0).toString();
+  const state1 = keyToField(state.state1).toString();
+  const commitments = await commitDualState(state0, state1);
+  return {
+    input: {
+      commitment0: BigInt(commitments.commitment0),
+      commitment1: BigInt(commitments.commitment1),
+      selector,
+      key: keyToField((await hashDualState(state)).value),
+      epoch: 3,
+      state0,
+      salt0: commitments.salt0,
+      state1,
+      salt1: commitments.salt1,
+    },
+    commitments,
+  };
+}
+
+describe("qstream_settle", { skip }, () => {
+  it("owes what calculateStreamFlow accrued on edge-case streams", async () => {
+    for (const stream of TestDataSets.createEdgeCaseStreams()) {
+      for (const currentTime of sampleTimes(stream)) {
+        const withdrawn = calculateStreamFlow(stream, currentTime) / 3n;
+        const input = await qStreamInput(stream, currentTime, withdrawn);
+        const outputs = await harness.assertSatisfied("qstream_settle", input);
+        assert.equal(outputs.owedAmount, calculateStreamFlow(stream, currentTime) - withdrawn);
+        assert.equal(outputs.nullifier, await computeQStreamNullifier(12345n, 7n, withdrawn));
+      }
+    }
+  });
+
+  it("owes the unsettled part of settlement scenarios", async () => {
+    for (const { stream, currentTime, settled } of settlementScenarios()) {
+      const outputs = await harness.assertSatisfied("qstream_settle", await qStreamInput(stream, currentTime, settled));
+      assert.equal(outputs.owedAmount, calculateStreamFlow(stream, currentTime) - settled);
+    }
+  });
+
+  it("rejects withdrawals above the accrued amount", async () => {
+    for (const stream of TestDataSets.createEdgeCaseStreams()) {
+      const currentTime = Number(stream.end);
+      const withdrawn = calculateStreamFlow(stream, currentTime) + 1n;
+      const input = await qStreamInput(stream, currentTime, withdrawn);
+      await harness.assertRejected("qstream_settle", input, "QStreamSettle");
+    }
+  });
+
+  it("rejects out-of-range and inverted streams", async () => {
+    const [stream] = TestDataSets.createEdgeCaseStreams();
+    await harness.assertRejected("qstream_settle", await qStreamInput(stream, 2 ** 64, 0n), "Num2Bits");
+    const inverted = { ...stream, start: stream.end, end: stream.start };
+    const input = await qStreamInput(inverted, Number(stream.end), 0n);
+    await harness.assertRejected("qstream_settle", input, "QStreamSettle");
+  });
+
+  it("rejects a secret that does not open the stream's commitment", async () => {
+    const [stream] = TestDataSets.createEdgeCaseStreams();
+    const input = await qStreamInput(stream, Number(stream.end), 0n, 54321n);
+    await harness.assertRejected("qstream_settle", input, "QStreamSettle");
+  });
+});
+
+describe("stream_settlement", { skip }, () => {
+  it("accepts settlements covered by calculateStreamFlow", async () => {
+    for (const { stream, currentTime, settled } of settlementScenarios()) {
+      const outputs = await harness.assertSatisfied("stream_settlement", {
+        ratePerSecond: stream.ratePerSecond,
+        streamStart: stream.start,
+        streamEnd: stream.end,
+        salt: 99,
+        settledAmount: settled,
+        currentTime,
+      });
+      assert.equal(outputs.streamCommitment, await computeStreamCommitment(stream, 99n));
+    }
+  });
+
+  it("rejects settlements above calculateStreamFlow and before the start", async () => {
+    for (const stream of TestDataSets.createEdgeCaseStreams()) {
+      const currentTime = Number(stream.start) + 1;
+      const input = {
+        ratePerSecond: stream.ratePerSecond,
+        streamStart: stream.start,
+        streamEnd: stream.end,
+        salt: 99,
+        settledAmount: calculateStreamFlow(stream, currentTime) + 1n,
+        currentTime,
+      };
+      await harness.assertRejected("stream_settlement", input, "StreamSettlement");
+      await harness.assertRejected(
+        "stream_settlement",
+        { ...input, settledAmount: 0, currentTime: currentTime - 2 },
+        "StreamSettlement",
+      );
+    }
+  });
+});
+
+describe("dual_state", { skip }, () => {
+  it("selects the chosen state and derives the nullifier from hashDualState", async () => {
+    for (const state of TestDataSets.createDualStateSequence(3)) {
+      for (const selector of [0, 1]) {
+        const { input, commitments } = await dualStateInput(state, selector);
+        const outputs = await harness.assertSatisfied("dual_state", input);
+        assert.equal(outputs.selected, BigInt(selector === 0 ? input.state0 : input.state1));
+        const key = (await hashDualState(state)).value;
+        assert.equal(outputs.nullifier, await computeDualStateNullifier(commitments, key, 3));
+      }
+    }
+  });
+
+  it("rejects a state that does not open its commitment", async () => {
+    const [state] = TestDataSets.createDualStateSequence(1);
+    const { input } = await dualStateInput(state, 1);
+    await harness.assertRejected("dual_state", { ...input, state1: BigInt(input.state1) + 1n }, "DualStateSelect");
+    await harness.assertRejected("dual_state", { ...input, selector: 2 });
+  });
+});
+
+describe("hybrid_proof", { skip }, () => {
+  async function hybridInput(stream: Stream, currentTime: number) {
+    const [state] = TestDataSets.createDualStateSequence(1);
+    const { commitments } = await dualStateInput(state, 0);
+    const tree = await PoseidonMerkleTree.create();
+    const leafIndex = tree.insert(commitments.commitment0);
+    const streamAmount = calculateStreamFlow(stream, Number(stream.end));
+    const settledAmount = calculateStreamFlow(stream, currentTime);
+    return {
+      commitments,
+      input: {
+        state0Hash: commitments.commitment0,
+        state1Hash: commitments.commitment1,
+        streamAmount,
+        settledAmount,
+        streamStart: stream.start,
+        streamEnd: stream.end,
+        currentTime,
+        ...toHybridMerkleInputs(tree.getProof(leafIndex)),
+      },
+    };
+  }
+
+  it("binds edge-case streams to their remaining flow", async () => {
+    for (const stream of TestDataSets.createEdgeCaseStreams().filter(({ start, end }) => end - start > 1n)) {
+      const currentTime = Number(stream.start) + 1;
+      const { commitments, input } = await hybridInput(stream, currentTime);
+      const outputs = await harness.assertSatisfied("hybrid_proof", input);
+      assert.equal(outputs.isValid, 1n);
+      assert.equal(outputs.remainingFlow, calculateRemainingFlow(stream, currentTime));
+      const settlement = {
+        streamAmount: input.streamAmount.toString(),
+        settledAmount: input.settledAmount.toString(),
+        timeElapsed: "1",
+      };
+      const hybridHash = await computeHybridHash(commitments.commitment0, commitments.commitment1, settlement);
+      assert.equal(outputs.hybridHash, hybridHash);
+    }
+  });
+
+  it("rejects settlements outside the stream", async () => {
+    const [stream] = TestDataSets.createEdgeCaseStreams();
+    const { input } = await hybridInput(stream, Number(stream.end));
+    const report = await harness.assertRejected("hybrid_proof", input, "HybridProof");
+    assert.ok(report.assertions.some(({ code }) => code?.includes("isValid === 1")));
+  });
+
+  it("rejects amounts and timestamps that wrap around the field", async () => {
+    const [stream] = TestDataSets.createEdgeCaseStreams();
+    const { input } = await hybridInput(stream, Number(stream.start) + 1);
+    // Before the range checks, a settled amount this far above the stream still passed LessEqThan(252)
+    const wrapped = BigInt(input.streamAmount) + 2n ** 252n;
+    await harness.assertRejected("hybrid_proof", { ...input, settledAmount: wrapped }, "Num2Bits");
+    await harness.assertRejected("hybrid_proof", { ...input, currentTime: 2n ** 64n }, "Num2Bits");
+  });
+});
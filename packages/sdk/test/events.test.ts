@@ -0,0 +1,276 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { Contract, DeferredTopicFilter, Provider, Result } from "ethers";
+import { EventNotification, EventSubscription, SubscriptionOptions } from "../src/events";
+
+/**
+ * Drives EventSubscription against an in-memory chain with mocked timers, one
+ * poll per tick
+ */
+
+const POLL_INTERVAL_MS = 1000;
+
+interface StubLog {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  index: number;
+  args: { value: string };
+}
+
+class StubChain {
+  head = 0;
+  logs: StubLog[] = [];
+  readonly queries: [number, number][] = [];
+  /** Makes the query starting at this block fail once */
+  failAt: number | null = null;
+  /** Held queries resolve once this does */
+  gate: Promise<void> | null = null;
+
+  readonly provider = { getBlockNumber: async () => this.head } as unknown as Provider;
+
+  readonly contract = {
+    queryFilter: async (_filter: DeferredTopicFilter, fromBlock: number, toBlock: number) => {
+      this.queries.push([fromBlock, toBlock]);
+      await this.gate;
+      if (fromBlock === this.failAt) {
+        this.failAt = null;
+        throw new Error("query range too large");
+      }
+      return this.logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+    },
+  } as unknown as Contract;
+
+  addLog(blockNumber: number, value: string, blockHash = `0xblock${blockNumber}`): StubLog {
+    const log = { blockNumber, blockHash, transactionHash: `0xtx-${value}`, index: 0, args: { value } };
+    this.logs.push(log);
+    return log;
+  }
+}
+
+function subscribe(chain: StubChain, options: SubscriptionOptions = {}) {
+  const notifications: EventNotification<string>[] = [];
+  const subscription = new EventSubscription<string>(
+    chain.provider,
+    chain.contract,
+    {} as DeferredTopicFilter,
+    (args: Result) => (args as unknown as { value: string }).value,
+    { pollIntervalMs: POLL_INTERVAL_MS, ...options },
+    (notification) => notifications.push(notification),
+  );
+  return { subscription, notifications };
+}
+
+/** Runs the next poll to completion */
+async function poll(): Promise<void> {
+  mock.timers.tick(POLL_INTERVAL_MS);
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("EventSubscription", () => {
+  let chain: StubChain;
+  let active: EventSubscription<string>[];
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+    chain = new StubChain();
+    active = [];
+  });
+
+  afterEach(() => {
+    active.forEach((subscription) => subscription.unsubscribe());
+    mock.timers.reset();
+  });
+
+  function start(options?: SubscriptionOptions) {
+    const result = subscribe(chain, options);
+    active.push(result.subscription);
+    return result;
+  }
+
+  it("starts at the safe head without replaying older blocks", async () => {
+    chain.head = 100;
+    chain.addLog(95, "old");
+    const { notifications } = start();
+
+    await poll();
+    assert.deepEqual(chain.queries, [[100, 100]]);
+    assert.equal(notifications.length, 0);
+  });
+
+  it("starts at fromBlock and never scans before it", async () => {
+    chain.head = 100;
+    chain.addLog(90, "before");
+    chain.addLog(96, "after");
+    const { notifications } = start({ fromBlock: 95, reorgDepth: 12 });
+
+    await poll();
+    chain.head = 103;
+    await poll();
+    assert.deepEqual(chain.queries, [
+      [95, 100],
+      [95, 103],
+    ]);
+    assert.deepEqual(
+      notifications.map(({ event }) => event),
+      ["after"],
+    );
+  });
+
+  it("waits for a fromBlock above the safe head", async () => {
+    chain.head = 100;
+    start({ fromBlock: 102 });
+
+    await poll();
+    assert.deepEqual(chain.queries, []);
+    chain.head = 102;
+    await poll();
+    assert.deepEqual(chain.queries, [[102, 102]]);
+  });
+
+  it("re-checks only the last reorgDepth scanned blocks", async () => {
+    chain.head = 100;
+    start({ fromBlock: 50, reorgDepth: 3 });
+
+    await poll();
+    chain.head = 105;
+    await poll();
+    await poll();
+    assert.deepEqual(chain.queries, [
+      [50, 100],
+      [98, 105],
+      [103, 105],
+    ]);
+  });
+
+  it("delivers logs once they have enough confirmations", async () => {
+    chain.head = 100;
+    chain.addLog(99, "pending");
+    const { notifications } = start({ fromBlock: 98, confirmations: 2 });
+
+    await poll();
+    assert.equal(notifications.length, 0);
+    chain.head = 101;
+    await poll();
+    await poll();
+    assert.deepEqual(
+      notifications.map(({ event, removed }) => [event, removed]),
+      [["pending", false]],
+    );
+  });
+
+  it("retracts logs dropped by a reorg and delivers their replacements", async () => {
+    chain.head = 100;
+    const orphaned = chain.addLog(100, "transfer", "0xa");
+    const { notifications } = start({ fromBlock: 100 });
+
+    await poll();
+    chain.logs = chain.logs.filter((log) => log !== orphaned);
+    chain.addLog(101, "transfer", "0xb");
+    chain.head = 101;
+    await poll();
+
+    assert.deepEqual(
+      notifications.map(({ blockHash, removed }) => [blockHash, removed]),
+      [
+        ["0xa", false],
+        ["0xa", true],
+        ["0xb", false],
+      ],
+    );
+  });
+
+  it("treats logs below the re-scan window as final", async () => {
+    chain.head = 100;
+    const log = chain.addLog(100, "final");
+    const { notifications } = start({ fromBlock: 100, reorgDepth: 2 });
+
+    await poll();
+    chain.head = 110;
+    await poll();
+    chain.logs = chain.logs.filter((candidate) => candidate !== log);
+    await poll();
+    assert.deepEqual(
+      notifications.map(({ removed }) => removed),
+      [false],
+    );
+  });
+
+  it("pages the catch-up scan in maxBlockRange blocks", async () => {
+    chain.head = 100;
+    chain.addLog(55, "first");
+    chain.addLog(95, "second");
+    const { notifications } = start({ fromBlock: 50, maxBlockRange: 20 });
+
+    await poll();
+    assert.deepEqual(chain.queries, [
+      [50, 69],
+      [70, 89],
+      [90, 100],
+    ]);
+    assert.deepEqual(
+      notifications.map(({ event }) => event),
+      ["first", "second"],
+    );
+  });
+
+  it("resumes a failed catch-up after the last scanned page", async () => {
+    chain.head = 100;
+    chain.addLog(55, "first");
+    chain.addLog(95, "second");
+    chain.failAt = 70;
+    const errors: Error[] = [];
+    const { notifications } = start({
+      fromBlock: 50,
+      maxBlockRange: 20,
+      reorgDepth: 0,
+      onError: (error) => errors.push(error),
+    });
+
+    await poll();
+    await poll();
+    assert.deepEqual(
+      errors.map(({ message }) => message),
+      ["query range too large"],
+    );
+    assert.deepEqual(chain.queries, [
+      [50, 69],
+      [70, 89],
+      [70, 89],
+      [90, 100],
+    ]);
+    assert.deepEqual(
+      notifications.map(({ event }) => event),
+      ["first", "second"],
+    );
+  });
+
+  it("delivers nothing after unsubscribe, even from a poll in flight", async () => {
+    chain.head = 100;
+    chain.addLog(100, "late");
+    let release!: () => void;
+    chain.gate = new Promise((resolve) => (release = resolve));
+    const { subscription, notifications } = start({ fromBlock: 100 });
+    const iterator = subscription[Symbol.asyncIterator]();
+
+    await poll();
+    assert.deepEqual(chain.queries, [[100, 100]]);
+    subscription.unsubscribe();
+    release();
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(notifications.length, 0);
+    assert.equal((await iterator.next()).done, true);
+  });
+
+  it("ends async iterators on unsubscribe", async () => {
+    chain.head = 100;
+    chain.addLog(100, "first");
+    const { subscription } = start({ fromBlock: 100 });
+    const iterator = subscription[Symbol.asyncIterator]();
+
+    await poll();
+    assert.equal((await iterator.next()).value?.event, "first");
+    subscription.unsubscribe();
+    assert.equal((await iterator.next()).done, true);
+  });
+});
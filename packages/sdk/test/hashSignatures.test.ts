@@ -0,0 +1,197 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ethers } from "ethers";
+import { FinalizationIntent } from "@syndual/core-types";
+import {
+  generateHashKeyPair,
+  HashPrivateKey,
+  HashSigner,
+  HashSignerOptions,
+  SignatureIndexTracker,
+  verifyDualStateCommitmentsSignature,
+  verifyFinalizationIntentSignature,
+  verifyHashSignature,
+} from "../src/hashSignatures";
+
+/**
+ * Signs with height-2 keys (four one-time keys) derived from fixed seeds
+ */
+
+const HEIGHT = 2;
+const SEED = `0x${"11".repeat(96)}`;
+const MESSAGE = ethers.toUtf8Bytes("finalize 0x01");
+
+function keyPair(seed = SEED) {
+  return generateHashKeyPair(HEIGHT, seed);
+}
+
+/** Keeps what the signer persisted, as a key store would */
+function memoryStore(privateKey: HashPrivateKey) {
+  const store = { saved: [] as HashPrivateKey[], current: privateKey };
+  const options: HashSignerOptions = {
+    persist: (key) => {
+      store.saved.push(key);
+      store.current = key;
+    },
+  };
+  return { store, options };
+}
+
+describe("XMSS signatures", () => {
+  it("derives the same key from the same seed", () => {
+    assert.deepEqual(keyPair(), keyPair());
+    assert.notEqual(keyPair(`0x${"22".repeat(96)}`).publicKey.root, keyPair().publicKey.root);
+    assert.throws(() => generateHashKeyPair(HEIGHT, "0x11"), /seed must be 96 bytes/);
+    assert.throws(() => generateHashKeyPair(0), /height must be an integer/);
+  });
+
+  it("verifies signatures from every one-time key", async () => {
+    const { publicKey, privateKey } = keyPair();
+    const signer = new HashSigner(privateKey, memoryStore(privateKey).options);
+    assert.deepEqual(signer.publicKey, publicKey);
+
+    for (let index = 0; index < 2 ** HEIGHT; index++) {
+      const signature = await signer.sign(MESSAGE);
+      assert.equal(signature.index, index);
+      assert.equal(verifyHashSignature(publicKey, MESSAGE, signature), true);
+    }
+  });
+
+  it("rejects tampered messages, signatures and keys", async () => {
+    const { publicKey, privateKey } = keyPair();
+    const signature = await new HashSigner(privateKey, memoryStore(privateKey).options).sign(MESSAGE);
+    const flip = (value: string) => {
+      const bytes = ethers.getBytes(value);
+      bytes[0] ^= 1;
+      return ethers.hexlify(bytes);
+    };
+    const [wots0, ...wotsRest] = signature.wots;
+    const [path0, path1] = signature.authPath;
+
+    assert.equal(verifyHashSignature(publicKey, ethers.toUtf8Bytes("finalize 0x02"), signature), false);
+    assert.equal(verifyHashSignature(publicKey, MESSAGE, { ...signature, index: 1 }), false);
+    const randomness = flip(signature.randomness);
+    assert.equal(verifyHashSignature(publicKey, MESSAGE, { ...signature, randomness }), false);
+    assert.equal(verifyHashSignature(publicKey, MESSAGE, { ...signature, wots: [flip(wots0), ...wotsRest] }), false);
+    assert.equal(verifyHashSignature(publicKey, MESSAGE, { ...signature, authPath: [path0, flip(path1)] }), false);
+    assert.equal(verifyHashSignature(keyPair(`0x${"22".repeat(96)}`).publicKey, MESSAGE, signature), false);
+  });
+
+  it("returns false for malformed signatures instead of throwing", async () => {
+    const { publicKey, privateKey } = keyPair();
+    const signature = await new HashSigner(privateKey, memoryStore(privateKey).options).sign(MESSAGE);
+
+    assert.equal(verifyHashSignature(publicKey, MESSAGE, { ...signature, index: 2 ** HEIGHT }), false);
+    assert.equal(verifyHashSignature(publicKey, MESSAGE, { ...signature, wots: signature.wots.slice(1) }), false);
+    assert.equal(verifyHashSignature(publicKey, MESSAGE, { ...signature, authPath: ["0x01", "0x02"] }), false);
+    assert.equal(verifyHashSignature(publicKey, MESSAGE, { ...signature, randomness: "not hex" }), false);
+  });
+
+  it("separates commitment and finalization messages", async () => {
+    const { publicKey, privateKey } = keyPair();
+    const signer = new HashSigner(privateKey, memoryStore(privateKey).options);
+    const key = ethers.id("state");
+    const commitments = { commitment0: ethers.id("0"), commitment1: ethers.id("1") };
+    const intent: FinalizationIntent = {
+      key,
+      chosenIndex: 1,
+      chosenState: commitments.commitment1,
+      epoch: 7,
+      nullifier: ethers.id("nullifier"),
+    };
+
+    const commitmentsSignature = await signer.signDualStateCommitments(key, commitments);
+    const intentSignature = await signer.signFinalizationIntent(intent);
+    assert.equal(verifyDualStateCommitmentsSignature(publicKey, key, commitments, commitmentsSignature), true);
+    assert.equal(verifyFinalizationIntentSignature(publicKey, intent, intentSignature), true);
+    assert.equal(verifyFinalizationIntentSignature(publicKey, { ...intent, epoch: 8 }, intentSignature), false);
+    assert.equal(verifyFinalizationIntentSignature(publicKey, intent, commitmentsSignature), false);
+  });
+});
+
+describe("HashSigner", () => {
+  it("refuses to sign without a persist callback", () => {
+    const { privateKey } = keyPair();
+    assert.throws(() => new HashSigner(privateKey, {} as HashSignerOptions), /needs a persist callback/);
+  });
+
+  it("persists the advanced counter before signing", async () => {
+    const { privateKey } = keyPair();
+    const { store, options } = memoryStore(privateKey);
+    const signer = new HashSigner(privateKey, options);
+
+    await signer.sign(MESSAGE);
+    await signer.sign(MESSAGE);
+    assert.deepEqual(
+      store.saved.map(({ nextIndex }) => nextIndex),
+      [1, 2],
+    );
+    assert.equal(signer.remaining, 2);
+    assert.equal(privateKey.nextIndex, 0);
+  });
+
+  it("continues from the stored counter when rebuilt", async () => {
+    const { privateKey } = keyPair();
+    const { store, options } = memoryStore(privateKey);
+    const first = await new HashSigner(store.current, options).sign(MESSAGE);
+    const second = await new HashSigner(store.current, options).sign(MESSAGE);
+    assert.deepEqual([first.index, second.index], [0, 1]);
+  });
+
+  it("does not hand out an index again when persisting fails", async () => {
+    const { publicKey, privateKey } = keyPair();
+    let fail = true;
+    const signer = new HashSigner(privateKey, {
+      persist: () => {
+        if (fail) throw new Error("disk full");
+      },
+    });
+
+    await assert.rejects(signer.sign(MESSAGE), /disk full/);
+    fail = false;
+    const signature = await signer.sign(MESSAGE);
+    assert.equal(signature.index, 1);
+    assert.equal(verifyHashSignature(publicKey, MESSAGE, signature), true);
+  });
+
+  it("refuses to sign once the key is exhausted", async () => {
+    const { privateKey } = keyPair();
+    const signer = new HashSigner(privateKey, memoryStore(privateKey).options);
+    for (let i = 0; i < 2 ** HEIGHT; i++) {
+      await signer.sign(MESSAGE);
+    }
+    assert.equal(signer.remaining, 0);
+    await assert.rejects(signer.sign(MESSAGE), /is exhausted after 4 signatures/);
+  });
+
+  it("refuses a private key that does not match its root", async () => {
+    const { privateKey } = keyPair();
+    const forged = { ...privateKey, root: keyPair(`0x${"22".repeat(96)}`).publicKey.root };
+    await assert.rejects(new HashSigner(forged, memoryStore(forged).options).sign(MESSAGE), /does not match its root/);
+  });
+});
+
+describe("SignatureIndexTracker", () => {
+  it("flags a one-time key that signs two different messages", async () => {
+    const { publicKey, privateKey } = keyPair();
+    const tracker = new SignatureIndexTracker();
+    const first = await new HashSigner(privateKey, memoryStore(privateKey).options).sign(MESSAGE);
+    // The same stored key rebuilt without its advanced counter reuses index 0
+    const reused = await new HashSigner(privateKey, memoryStore(privateKey).options).sign(
+      ethers.toUtf8Bytes("finalize 0x02"),
+    );
+
+    assert.equal(tracker.record(publicKey, first, MESSAGE), true);
+    assert.equal(tracker.record(publicKey, first, MESSAGE), true);
+    assert.equal(tracker.record(publicKey, reused, ethers.toUtf8Bytes("finalize 0x02")), false);
+
+    const other = keyPair(`0x${"22".repeat(96)}`);
+    const otherSignature = await new HashSigner(other.privateKey, memoryStore(other.privateKey).options).sign(
+      ethers.toUtf8Bytes("finalize 0x02"),
+    );
+    assert.equal(tracker.record(other.publicKey, otherSignature, ethers.toUtf8Bytes("finalize 0x02")), true);
+
+    tracker.clear();
+    assert.equal(tracker.record(publicKey, reused, ethers.toUtf8Bytes("finalize 0x02")), true);
+  });
+});
@@ -0,0 +1,180 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { ethers } from "ethers";
+import { DualState, StateHash, StateHasher, StateHasherId } from "@syndual/core-types";
+import { poseidonHash } from "@syndual/zk";
+import {
+  blake3StateHasher,
+  DUAL_STATE_HASH_DOMAIN,
+  dualStateHashInput,
+  encodeHashInput,
+  getStateHasherRegistry,
+  hashDualState,
+  keccak256StateHasher,
+  poseidonStateHasher,
+  rehashDualState,
+  setStateHasherRegistry,
+  sha3StateHasher,
+  StateHasherRegistry,
+  verifyDualStateHash,
+} from "../src/stateHashers";
+
+/**
+ * Checks the hash input encoding, the built-in hashers against reference
+ * digests and the registry behind `hashDualState`
+ */
+
+const EMPTY = new Uint8Array(0);
+
+function dualState(state0: string, state1: string, createdAt: bigint | number = 1_700_000_000): DualState {
+  return { state0, state1, createdAt };
+}
+
+describe("encodeHashInput", () => {
+  it("writes a type tag and a 4-byte length before every field", () => {
+    assert.equal(
+      ethers.hexlify(encodeHashInput("d", [{ type: "string", value: "ab" }, { type: "uint", value: 256 }])),
+      "0x000000000164" + "01000000026162" + "03000000020100",
+    );
+  });
+
+  it("keeps separators inside values from colliding", () => {
+    const encode = (state0: string, state1: string) => ethers.hexlify(dualStateHashInput(dualState(state0, state1)));
+    assert.notEqual(encode("a:b", "c"), encode("a", "b:c"));
+    assert.notEqual(encode("", "ab"), encode("a", "b"));
+    assert.notEqual(encode("a\u0000", "b"), encode("a", "\u0000b"));
+  });
+
+  it("tells field types and domains apart", () => {
+    assert.notEqual(
+      ethers.hexlify(encodeHashInput("d", [{ type: "string", value: "\u0001" }])),
+      ethers.hexlify(encodeHashInput("d", [{ type: "bytes", value: "0x01" }])),
+    );
+    assert.notEqual(
+      ethers.hexlify(encodeHashInput(DUAL_STATE_HASH_DOMAIN, [])),
+      ethers.hexlify(encodeHashInput(`${DUAL_STATE_HASH_DOMAIN}.other`, [])),
+    );
+  });
+
+  it("rejects negative integers", () => {
+    assert.throws(() => encodeHashInput("d", [{ type: "uint", value: -1 }]), /not an unsigned integer/);
+  });
+});
+
+describe("state hashers", () => {
+  it("match the reference digests of the empty input", async () => {
+    assert.equal(
+      await keccak256StateHasher.digest(EMPTY),
+      "0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470",
+    );
+    assert.equal(
+      await sha3StateHasher.digest(EMPTY),
+      "0xa7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a",
+    );
+    assert.equal(
+      await blake3StateHasher.digest(EMPTY),
+      "0xaf1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262",
+    );
+  });
+
+  it("absorbs the length and 31-byte chunks into Poseidon", async () => {
+    const data = ethers.toUtf8Bytes("a".repeat(40));
+    const expected = await poseidonHash([
+      0n,
+      40n,
+      ethers.toBigInt(data.slice(0, 31)),
+      ethers.toBigInt(data.slice(31)),
+    ]);
+    assert.equal(await poseidonStateHasher.digest(data), ethers.toBeHex(expected, 32));
+    assert.notEqual(await poseidonStateHasher.digest(EMPTY), await poseidonStateHasher.digest(new Uint8Array(1)));
+  });
+
+  it("chains Poseidon calls for inputs longer than one rate", async () => {
+    const long = new Uint8Array(31 * 20).fill(7);
+    const changedTail = long.slice();
+    changedTail[long.length - 1] = 8;
+    const digest = await poseidonStateHasher.digest(long);
+    assert.match(digest, /^0x[0-9a-f]{64}$/);
+    assert.notEqual(digest, await poseidonStateHasher.digest(changedTail));
+  });
+});
+
+describe("StateHasherRegistry", () => {
+  const custom: StateHasher = { id: "sha256", digest: async (data) => ethers.sha256(data) };
+
+  it("holds the built-in hashers with keccak256 as the default", () => {
+    const registry = new StateHasherRegistry();
+    assert.deepEqual(registry.list(), Object.values(StateHasherId));
+    assert.equal(registry.default.id, StateHasherId.KECCAK256);
+  });
+
+  it("registers hashers and changes the default", () => {
+    const registry = new StateHasherRegistry();
+    registry.register(custom);
+    registry.setDefault("sha256");
+    assert.equal(registry.default, custom);
+  });
+
+  it("refuses duplicate and unknown hashers", () => {
+    const registry = new StateHasherRegistry();
+    assert.throws(() => registry.register({ ...custom, id: StateHasherId.BLAKE3 }), /"blake3" is already registered/);
+    assert.throws(() => registry.get("md5"), /Unknown state hasher "md5"/);
+    assert.throws(() => registry.setDefault("md5"), /Unknown state hasher "md5"/);
+    assert.throws(() => new StateHasherRegistry([custom]), /Unknown state hasher "keccak256"/);
+  });
+});
+
+describe("dual state hashes", () => {
+  afterEach(() => setStateHasherRegistry(undefined));
+
+  it("records the hasher next to the digest of the encoded state", async () => {
+    const state = dualState("0", "1");
+    for (const id of Object.values(StateHasherId)) {
+      const hash = await hashDualState(state, id);
+      assert.equal(hash.hasher, id);
+      assert.equal(hash.value, await getStateHasherRegistry().get(id).digest(dualStateHashInput(state)));
+    }
+    assert.equal((await hashDualState(state)).hasher, StateHasherId.KECCAK256);
+  });
+
+  it("gives the states behind the old `:` collision different hashes", async () => {
+    const left = await hashDualState(dualState("a:b", "c"));
+    const right = await hashDualState(dualState("a", "b:c"));
+    assert.notEqual(left.value, right.value);
+  });
+
+  it("hashes with the default of a replaced registry", async () => {
+    setStateHasherRegistry(new StateHasherRegistry(undefined, StateHasherId.BLAKE3));
+    assert.equal((await hashDualState(dualState("0", "1"))).hasher, StateHasherId.BLAKE3);
+    setStateHasherRegistry(undefined);
+    assert.equal((await hashDualState(dualState("0", "1"))).hasher, StateHasherId.KECCAK256);
+  });
+
+  it("verifies a stored hash with the hasher it names", async () => {
+    const state = dualState("0", "1");
+    const hashed = { ...state, hash: await hashDualState(state, StateHasherId.SHA3_256) };
+    const withHash = (hash: Partial<StateHash>) => ({ ...hashed, hash: { ...hashed.hash, ...hash } });
+
+    assert.equal(await verifyDualStateHash(hashed), true);
+    assert.equal(await verifyDualStateHash(withHash({ value: hashed.hash.value.toUpperCase() })), true);
+    assert.equal(await verifyDualStateHash({ ...hashed, state1: "2" }), false);
+    assert.equal(await verifyDualStateHash({ ...hashed, createdAt: 1n }), false);
+    assert.equal(await verifyDualStateHash(withHash({ hasher: StateHasherId.BLAKE3 })), false);
+    assert.equal(await verifyDualStateHash(state), false);
+    await assert.rejects(verifyDualStateHash(withHash({ hasher: "md5" })), /Unknown state hasher/);
+  });
+
+  it("rehashes a state after checking its current hash", async () => {
+    const state = dualState("0", "1");
+    const hashed = { ...state, hash: await hashDualState(state) };
+
+    const moved = await rehashDualState(hashed, StateHasherId.POSEIDON);
+    assert.deepEqual(moved.hash, await hashDualState(state, StateHasherId.POSEIDON));
+    assert.equal(await verifyDualStateHash(moved), true);
+    assert.deepEqual((await rehashDualState(state)).hash, hashed.hash);
+    await assert.rejects(
+      rehashDualState({ ...hashed, state0: "2" }, StateHasherId.BLAKE3),
+      /does not match its recorded keccak256 hash/,
+    );
+  });
+});
@@ -1,16 +1,53 @@
 pragma circom 2.0.0;
 
-// Selects one of two state hashes based on a selector bit.
+include "circomlib/circuits/bitify.circom";
+include "circomlib/circuits/poseidon.circom";
+
+// Selects one of two committed states based on a selector bit.
+// Only the commitments Poseidon(state, salt), the selector and the selected
+// state are public; the unselected state and both salts stay private.
+//
+// The nullifier Poseidon(salt0, salt1, key, epoch) marks the proof as spent
+// for its storage key and epoch. It does not depend on the selector, so only
+// one selection per pair, key and epoch can be consumed.
 template DualStateSelect() {
+    signal input commitment0;
+    signal input commitment1;
+    signal input selector; // 0 or 1
+    signal input key; // DualStateEngine key reduced into the field
+    signal input epoch; // uint64
     signal input state0;
+    signal input salt0;
     signal input state1;
-    signal input selector; // 0 or 1
+    signal input salt1;
     signal output selected;
+    signal output nullifier;
 
     // Ensure selector is boolean
     selector * selector === selector;
 
-    selected <== state0 * (1 - selector) + state1 * selector;
+    component epochBits = Num2Bits(64);
+    epochBits.in <== epoch;
+
+    // Bind both states to their published commitments
+    component commit0 = Poseidon(2);
+    commit0.inputs[0] <== state0;
+    commit0.inputs[1] <== salt0;
+    commit0.out === commitment0;
+
+    component commit1 = Poseidon(2);
+    commit1.inputs[0] <== state1;
+    commit1.inputs[1] <== salt1;
+    commit1.out === commitment1;
+
+    selected <== state0 + selector * (state1 - state0);
+
+    component nullifierHash = Poseidon(4);
+    nullifierHash.inputs[0] <== salt0;
+    nullifierHash.inputs[1] <== salt1;
+    nullifierHash.inputs[2] <== key;
+    nullifierHash.inputs[3] <== epoch;
+    nullifier <== nullifierHash.out;
 }
 
-component main = DualStateSelect();
+component main { public [ commitment0, commitment1, selector, key, epoch ] } = DualStateSelect();
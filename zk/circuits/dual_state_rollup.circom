@@ -0,0 +1,130 @@
+pragma circom 2.0.0;
+
+include "circomlib/circuits/poseidon.circom";
+include "circomlib/circuits/bitify.circom";
+include "circomlib/circuits/comparators.circom";
+
+/**
+ * Dual-State Rollup Circuit
+ *
+ * Dual states live in a sparse Poseidon Merkle tree whose leaves are
+ * Poseidon(key, state0, state1) (the states being the commitments stored by
+ * `DualStateEngine`). A batch proof shows that applying up to `batchSize`
+ * leaf writes, in order, turns `oldRoot` into `newRoot`. Disabled slots pad
+ * short batches, have key 0 and leave the tree unchanged.
+ *
+ * A key's leaf index is the low `depth` bits of the key, and a write may only
+ * replace an empty leaf or a leaf of the same key, so every key has one slot
+ * and no write can overwrite another key's state. The keys are public so the
+ * contract can refuse batches that touch finalized keys.
+ *
+ * Public signals: [oldRoot, newRoot, keys[batchSize]]
+ */
+
+/**
+ * Root of a depth-`depth` path from `leaf`, with bit i of `leafIndex` set when
+ * the node at level i is a right child
+ */
+template MerkleRoot(depth) {
+    signal input leaf;
+    signal input pathBits[depth];
+    signal input siblings[depth];
+    signal output root;
+
+    component hashers[depth];
+    signal levels[depth + 1];
+    signal left[depth];
+    signal right[depth];
+    levels[0] <== leaf;
+
+    for (var i = 0; i < depth; i++) {
+        left[i] <== levels[i] + pathBits[i] * (siblings[i] - levels[i]);
+        right[i] <== siblings[i] + pathBits[i] * (levels[i] - siblings[i]);
+
+        hashers[i] = Poseidon(2);
+        hashers[i].inputs[0] <== left[i];
+        hashers[i].inputs[1] <== right[i];
+        levels[i + 1] <== hashers[i].out;
+    }
+
+    root <== levels[depth];
+}
+
+template BatchProof(batchSize, depth) {
+    signal input oldRoot;
+    signal input newRoot;
+
+    // Per transition; `enabled` is 0 for padding slots
+    signal input enabled[batchSize];
+    signal input keys[batchSize];
+    signal input states0[batchSize];
+    signal input states1[batchSize];
+    signal input oldLeaves[batchSize];
+    // States behind a non-empty old leaf
+    signal input oldStates0[batchSize];
+    signal input oldStates1[batchSize];
+    signal input siblings[batchSize][depth];
+
+    component keyBits[batchSize];
+    component keyIsZero[batchSize];
+    component oldIsEmpty[batchSize];
+    component oldLeafHashers[batchSize];
+    component oldPaths[batchSize];
+    component newPaths[batchSize];
+    component leafHashers[batchSize];
+    signal pathBits[batchSize][depth];
+    signal replacesLeaf[batchSize];
+    signal newLeaves[batchSize];
+    signal roots[batchSize + 1];
+    roots[0] <== oldRoot;
+
+    for (var i = 0; i < batchSize; i++) {
+        enabled[i] * (enabled[i] - 1) === 0;
+
+        // Enabled slots have a non-zero key and padding slots key 0
+        keyIsZero[i] = IsZero();
+        keyIsZero[i].in <== keys[i];
+        keyIsZero[i].out === 1 - enabled[i];
+
+        // Strict decomposition, so a key has exactly one leaf index
+        keyBits[i] = Num2Bits_strict();
+        keyBits[i].in <== keys[i];
+        for (var j = 0; j < depth; j++) {
+            pathBits[i][j] <== keyBits[i].out[j];
+        }
+
+        // The slot's current leaf must be in the tree as left by the previous write
+        oldPaths[i] = MerkleRoot(depth);
+        oldPaths[i].leaf <== oldLeaves[i];
+        oldPaths[i].pathBits <== pathBits[i];
+        oldPaths[i].siblings <== siblings[i];
+        oldPaths[i].root === roots[i];
+
+        // ...and be empty or hold the same key
+        oldIsEmpty[i] = IsZero();
+        oldIsEmpty[i].in <== oldLeaves[i];
+        oldLeafHashers[i] = Poseidon(3);
+        oldLeafHashers[i].inputs[0] <== keys[i];
+        oldLeafHashers[i].inputs[1] <== oldStates0[i];
+        oldLeafHashers[i].inputs[2] <== oldStates1[i];
+        replacesLeaf[i] <== enabled[i] * (1 - oldIsEmpty[i].out);
+        replacesLeaf[i] * (oldLeaves[i] - oldLeafHashers[i].out) === 0;
+
+        leafHashers[i] = Poseidon(3);
+        leafHashers[i].inputs[0] <== keys[i];
+        leafHashers[i].inputs[1] <== states0[i];
+        leafHashers[i].inputs[2] <== states1[i];
+        newLeaves[i] <== oldLeaves[i] + enabled[i] * (leafHashers[i].out - oldLeaves[i]);
+
+        newPaths[i] = MerkleRoot(depth);
+        newPaths[i].leaf <== newLeaves[i];
+        newPaths[i].pathBits <== pathBits[i];
+        newPaths[i].siblings <== siblings[i];
+        roots[i + 1] <== newPaths[i].root;
+    }
+
+    roots[batchSize] === newRoot;
+}
+
+// 4 transitions per proof over a depth-16 tree (2^16 dual states)
+component main { public [ oldRoot, newRoot, keys ] } = BatchProof(4, 16);
@@ -1,13 +1,18 @@
-pragma circom 2.0;
+pragma circom 2.0.0;
 
 include "circomlib/circuits/poseidon.circom";
 include "circomlib/circuits/comparators.circom";
+include "circomlib/circuits/bitify.circom";
 
 /**
  * Hybrid Proof Circuit
  * 
  * This circuit combines dual-state verification with quantum stream settlement proofs.
  * It enables efficient batched verification of multiple protocol operations.
+ *
+ * Timestamps are range-checked to uint64 and amounts to 192 bits (a uint128 rate over a
+ * uint64 duration), so the comparisons below cannot be fooled by values that wrap around
+ * the field. Inputs failing any check have no witness.
  * 
  * Inputs:
  *   - state0Hash: Hash of the first dual state
@@ -23,7 +28,7 @@ include "circomlib/circuits/comparators.circom";
  * 
  * Outputs:
  *   - hybridHash: Combined hash of both proofs
- *   - isValid: Whether the hybrid proof is valid
+ *   - isValid: Always 1; kept so the public signal layout does not change
  *   - remainingFlow: Calculated remaining flow amount
  */
 
@@ -49,12 +54,23 @@ template HybridProof(merkleDepth) {
     signal output isValid;
     signal output remainingFlow;
     
+    component startBits = Num2Bits(64);
+    startBits.in <== streamStart;
+    component endBits = Num2Bits(64);
+    endBits.in <== streamEnd;
+    component timeBits = Num2Bits(64);
+    timeBits.in <== currentTime;
+    component streamAmountBits = Num2Bits(192);
+    streamAmountBits.in <== streamAmount;
+    component settledAmountBits = Num2Bits(192);
+    settledAmountBits.in <== settledAmount;
+
     // Verify timestamp validity
     signal validStart <== LessThan(64)([streamStart, currentTime]);
     signal validEnd <== LessThan(64)([currentTime, streamEnd]);
     
     // Verify settlement amount doesn't exceed stream amount
-    signal validSettlement <== LessEqThan(256)([settledAmount, streamAmount]);
+    signal validSettlement <== LessEqThan(192)([settledAmount, streamAmount]);
     
     // Calculate time elapsed
     signal timeElapsed <== currentTime - streamStart;
@@ -66,7 +82,7 @@ template HybridProof(merkleDepth) {
     signal remaining <== streamAmount - settledAmount;
     
     // Verify remaining is positive or zero
-    signal validRemaining <== GreaterEqThan(256)([streamAmount, settledAmount]);
+    signal validRemaining <== GreaterEqThan(192)([streamAmount, settledAmount]);
     
     // Hash state pair using Poseidon
     component statePairHasher = Poseidon(2);
@@ -88,34 +104,40 @@ template HybridProof(merkleDepth) {
     hybridHasher.inputs[1] <== settlementHash;
     hybridHash <== hybridHasher.out;
     
-    // Verify merkle proof path
-    var curHash = state0Hash; // Use state0Hash as leaf
+    // Verify merkle proof path, using state0Hash as the leaf
+    component indexBits = Num2Bits(merkleDepth);
+    indexBits.in <== leafIndex;
+
+    component merkleHashers[merkleDepth];
+    signal levelHashes[merkleDepth + 1];
+    signal left[merkleDepth];
+    signal right[merkleDepth];
+    levelHashes[0] <== state0Hash;
+
     for (var i = 0; i < merkleDepth; i++) {
-        // Determine if we hash on left or right based on leaf index
-        var bit = (leafIndex >> i) & 1;
-        
-        if (bit == 0) {
-            component hasher = Poseidon(2);
-            hasher.inputs[0] <== curHash;
-            hasher.inputs[1] <== merkleProof[i];
-            curHash = hasher.out;
-        } else {
-            component hasher = Poseidon(2);
-            hasher.inputs[0] <== merkleProof[i];
-            hasher.inputs[1] <== curHash;
-            curHash = hasher.out;
-        }
+        // Bit i of the leaf index decides whether the current hash is the left or right child
+        left[i] <== levelHashes[i] + indexBits.out[i] * (merkleProof[i] - levelHashes[i]);
+        right[i] <== merkleProof[i] + indexBits.out[i] * (levelHashes[i] - merkleProof[i]);
+
+        merkleHashers[i] = Poseidon(2);
+        merkleHashers[i].inputs[0] <== left[i];
+        merkleHashers[i].inputs[1] <== right[i];
+        levelHashes[i + 1] <== merkleHashers[i].out;
     }
     
     // Verify merkle root
-    signal merkleMatch <== IsEqual()([curHash, merkleRoot]);
+    signal merkleMatch <== IsEqual()([levelHashes[merkleDepth], merkleRoot]);
     
     // All conditions must be satisfied
     signal validStateProof <== 1; // State hashes are valid inputs
     
     // Final validity: all checks pass
-    signal allValid <== validStart * validEnd * validSettlement * validRemaining * merkleMatch;
+    signal validTime <== validStart * validEnd;
+    signal validAmounts <== validSettlement * validRemaining;
+    signal validChecks <== validTime * validAmounts;
+    signal allValid <== validChecks * merkleMatch;
     isValid <== allValid;
+    isValid === 1;
     
     // Output remaining flow
     remainingFlow <== remaining;
@@ -135,45 +157,11 @@ template StreamRateValidator() {
     signal output isValidRate;
     
     // Check rate is between bounds
-    signal gtMin <== GreaterEqThan(256)([ratePerSecond, minRate]);
-    signal ltMax <== LessEqThan(256)([ratePerSecond, maxRate]);
+    signal gtMin <== GreaterEqThan(252)([ratePerSecond, minRate]);
+    signal ltMax <== LessEqThan(252)([ratePerSecond, maxRate]);
     
     isValidRate <== gtMin * ltMax;
 }
 
-/**
- * Batch Proof Circuit
- * 
- * Processes multiple state transitions in a single proof
- * enabling efficient batching for L2 solutions.
- */
-template BatchProof(batchSize) {
-    // Input states for each transition
-    signal input states0[batchSize];
-    signal input states1[batchSize];
-    signal input transitionProofs[batchSize];
-    
-    // Output
-    signal output batchHash;
-    
-    // Hash all states together
-    component stateHashers[batchSize];
-    signal stateHashes[batchSize];
-    
-    for (var i = 0; i < batchSize; i++) {
-        stateHashers[i] = Poseidon(2);
-        stateHashers[i].inputs[0] <== states0[i];
-        stateHashers[i].inputs[1] <== states1[i];
-        stateHashes[i] <== stateHashers[i].out;
-    }
-    
-    // Create final batch hash from all state hashes
-    component batchHasher = Poseidon(batchSize);
-    for (var i = 0; i < batchSize; i++) {
-        batchHasher.inputs[i] <== stateHashes[i];
-    }
-    batchHash <== batchHasher.out;
-}
-
 // Main component instantiation with merkle depth of 16 (supports 2^16 streams)
 component main { public [ merkleRoot ] } = HybridProof(16);
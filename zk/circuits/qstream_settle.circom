@@ -1,13 +1,71 @@
 pragma circom 2.0.0;
 
-// Computes owedAmount = ratePerSecond * elapsedTime
-// This is a placeholder circuit representing Q-Stream settlement.
+include "circomlib/circuits/comparators.circom";
+include "circomlib/circuits/bitify.circom";
+include "circomlib/circuits/poseidon.circom";
+
+/**
+ * Q-Stream Settlement Circuit
+ *
+ * Computes what a `QStreamPayments` stream owes its recipient at `currentTime`:
+ *   elapsed     = clamp(currentTime, streamStart, streamEnd) - streamStart
+ *   owedAmount  = ratePerSecond * elapsed - withdrawn
+ * Inputs are range-checked to the contract's types (uint64 timestamps, uint128 rate), so
+ * the accrued amount stays below 2^192 and cannot wrap around the field. `withdrawn`
+ * must not exceed the accrued amount.
+ *
+ * Only the holder of the stream's secret can prove: `secretCommitment` must equal
+ * Poseidon(nullifierSecret), which the contract stores at `createStream`.
+ * The nullifier Poseidon(nullifierSecret, streamId, withdrawn) marks the proof as spent for
+ * the stream at its current withdrawn amount, so one payout can be proved per withdrawal
+ * and fresh nullifiers cannot be minted for the same state.
+ *
+ * Public signals:
+ *   [owedAmount, nullifier, ratePerSecond, streamStart, streamEnd, currentTime, withdrawn, streamId,
+ *    secretCommitment]
+ */
 template QStreamSettle() {
     signal input ratePerSecond;
-    signal input elapsedTime;
+    signal input streamStart;
+    signal input streamEnd;
+    signal input currentTime;
+    signal input withdrawn;
+    signal input streamId;
+    signal input secretCommitment;
+    signal input nullifierSecret;
     signal output owedAmount;
+    signal output nullifier;
+
+    component rateBits = Num2Bits(128);
+    rateBits.in <== ratePerSecond;
+    component startBits = Num2Bits(64);
+    startBits.in <== streamStart;
+    component endBits = Num2Bits(64);
+    endBits.in <== streamEnd;
+    component timeBits = Num2Bits(64);
+    timeBits.in <== currentTime;
+    component withdrawnBits = Num2Bits(192);
+    withdrawnBits.in <== withdrawn;
+
+    signal validWindow <== LessEqThan(64)([streamStart, streamEnd]);
+    validWindow === 1;
+
+    // clampedTime = min(max(currentTime, streamStart), streamEnd)
+    signal started <== LessEqThan(64)([streamStart, currentTime]);
+    signal fromStart <== streamStart + started * (currentTime - streamStart);
+    signal ended <== LessThan(64)([streamEnd, fromStart]);
+    signal clampedTime <== fromStart + ended * (streamEnd - fromStart);
+
+    signal accrued <== ratePerSecond * (clampedTime - streamStart);
+    signal covered <== LessEqThan(192)([withdrawn, accrued]);
+    covered === 1;
+
+    owedAmount <== accrued - withdrawn;
+
+    signal commitment <== Poseidon(1)([nullifierSecret]);
+    commitment === secretCommitment;
 
-    owedAmount <== ratePerSecond * elapsedTime;
+    nullifier <== Poseidon(3)([nullifierSecret, streamId, withdrawn]);
 }
 
-component main = QStreamSettle();
+component main { public [ ratePerSecond, streamStart, streamEnd, currentTime, withdrawn, streamId, secretCommitment ] } = QStreamSettle();
@@ -0,0 +1,108 @@
+pragma circom 2.0.0;
+
+include "circomlib/circuits/poseidon.circom";
+include "circomlib/circuits/comparators.circom";
+include "circomlib/circuits/bitify.circom";
+
+/**
+ * Batched Stream Settlement Circuit
+ *
+ * Settles `batchSize` `QStreamPayments` streams at `settledAt` in one proof.
+ * For each stream the owed amount is computed as in `qstream_settle.circom`,
+ * and the settlements are committed to in a Poseidon Merkle tree with leaves
+ * Poseidon(streamId, amount), so each recipient can later prove their payout
+ * against `settlementRoot`.
+ *
+ * Stream terms are public so the contract can supply them from storage;
+ * unused slots are all zeros and settle 0.
+ *
+ * Public signals: [settlementRoot, amounts[batchSize], settledAt, streamIds[batchSize],
+ *                  rates[batchSize], starts[batchSize], ends[batchSize], withdrawn[batchSize]]
+ */
+
+/**
+ * ratePerSecond * (clamp(currentTime, streamStart, streamEnd) - streamStart) - withdrawn,
+ * with the range checks of `qstream_settle.circom` (currentTime is range-checked by the caller)
+ */
+template OwedAmount() {
+    signal input ratePerSecond;
+    signal input streamStart;
+    signal input streamEnd;
+    signal input currentTime;
+    signal input withdrawn;
+    signal output owed;
+
+    component rateBits = Num2Bits(128);
+    rateBits.in <== ratePerSecond;
+    component startBits = Num2Bits(64);
+    startBits.in <== streamStart;
+    component endBits = Num2Bits(64);
+    endBits.in <== streamEnd;
+    component withdrawnBits = Num2Bits(192);
+    withdrawnBits.in <== withdrawn;
+
+    signal validWindow <== LessEqThan(64)([streamStart, streamEnd]);
+    validWindow === 1;
+
+    signal started <== LessEqThan(64)([streamStart, currentTime]);
+    signal fromStart <== streamStart + started * (currentTime - streamStart);
+    signal ended <== LessThan(64)([streamEnd, fromStart]);
+    signal clampedTime <== fromStart + ended * (streamEnd - fromStart);
+
+    signal accrued <== ratePerSecond * (clampedTime - streamStart);
+    signal covered <== LessEqThan(192)([withdrawn, accrued]);
+    covered === 1;
+
+    owed <== accrued - withdrawn;
+}
+
+// batchSize must be a power of two
+template StreamBatchSettle(batchSize) {
+    signal input settledAt;
+    signal input streamIds[batchSize];
+    signal input rates[batchSize];
+    signal input starts[batchSize];
+    signal input ends[batchSize];
+    signal input withdrawn[batchSize];
+
+    signal output settlementRoot;
+    signal output amounts[batchSize];
+
+    component timeBits = Num2Bits(64);
+    timeBits.in <== settledAt;
+
+    component owed[batchSize];
+    component leafHashers[batchSize];
+    for (var i = 0; i < batchSize; i++) {
+        owed[i] = OwedAmount();
+        owed[i].ratePerSecond <== rates[i];
+        owed[i].streamStart <== starts[i];
+        owed[i].streamEnd <== ends[i];
+        owed[i].currentTime <== settledAt;
+        owed[i].withdrawn <== withdrawn[i];
+        amounts[i] <== owed[i].owed;
+
+        leafHashers[i] = Poseidon(2);
+        leafHashers[i].inputs[0] <== streamIds[i];
+        leafHashers[i].inputs[1] <== amounts[i];
+    }
+
+    // Complete binary tree in heap order (node k's children are 2k+1 and 2k+2),
+    // which pairs leaves left to right like `PoseidonMerkleTree`
+    var nodeCount = 2 * batchSize - 1;
+    signal nodes[nodeCount];
+    component nodeHashers[batchSize - 1];
+    for (var i = 0; i < batchSize; i++) {
+        nodes[batchSize - 1 + i] <== leafHashers[i].out;
+    }
+    for (var k = batchSize - 2; k >= 0; k--) {
+        nodeHashers[k] = Poseidon(2);
+        nodeHashers[k].inputs[0] <== nodes[2 * k + 1];
+        nodeHashers[k].inputs[1] <== nodes[2 * k + 2];
+        nodes[k] <== nodeHashers[k].out;
+    }
+    settlementRoot <== nodes[0];
+}
+
+// 4 streams per proof (a depth-2 settlement tree)
+component main { public [ settledAt, streamIds, rates, starts, ends, withdrawn ] } = StreamBatchSettle(4);
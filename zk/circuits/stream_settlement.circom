@@ -0,0 +1,62 @@
+pragma circom 2.0.0;
+
+include "circomlib/circuits/poseidon.circom";
+include "circomlib/circuits/comparators.circom";
+include "circomlib/circuits/bitify.circom";
+
+/**
+ * Stream Settlement Circuit
+ *
+ * Proves that `settledAmount` is covered by what a stream has accrued by `currentTime`:
+ *   currentTime >= streamStart
+ *   settledAmount <= ratePerSecond * (min(currentTime, streamEnd) - streamStart)
+ * The stream terms stay private; `streamCommitment` = Poseidon(ratePerSecond, streamStart,
+ * streamEnd, salt) lets a verifier tie the proof to a stream whose terms were committed to.
+ *
+ * Range checks: timestamps are 64-bit, the rate is 128-bit, so accrued amounts fit in 192 bits.
+ *
+ * Public signals: [streamCommitment, settledAmount, currentTime]
+ */
+template StreamSettlement() {
+    // Private stream terms
+    signal input ratePerSecond;
+    signal input streamStart;
+    signal input streamEnd;
+    signal input salt;
+
+    // Public claim
+    signal input settledAmount;
+    signal input currentTime;
+
+    signal output streamCommitment;
+
+    // Range checks keep the comparators below sound
+    component rateBits = Num2Bits(128);
+    rateBits.in <== ratePerSecond;
+    component startBits = Num2Bits(64);
+    startBits.in <== streamStart;
+    component endBits = Num2Bits(64);
+    endBits.in <== streamEnd;
+    component timeBits = Num2Bits(64);
+    timeBits.in <== currentTime;
+    component settledBits = Num2Bits(192);
+    settledBits.in <== settledAmount;
+
+    // streamStart <= streamEnd and streamStart <= currentTime
+    signal validWindow <== LessEqThan(64)([streamStart, streamEnd]);
+    validWindow === 1;
+    signal started <== LessEqThan(64)([streamStart, currentTime]);
+    started === 1;
+
+    // effectiveTime = min(currentTime, streamEnd)
+    signal ended <== LessThan(64)([streamEnd, currentTime]);
+    signal effectiveTime <== currentTime + ended * (streamEnd - currentTime);
+
+    signal accrued <== ratePerSecond * (effectiveTime - streamStart);
+    signal covered <== LessEqThan(192)([settledAmount, accrued]);
+    covered === 1;
+
+    streamCommitment <== Poseidon(4)([ratePerSecond, streamStart, streamEnd, salt]);
+}
+
+component main { public [ settledAmount, currentTime ] } = StreamSettlement();
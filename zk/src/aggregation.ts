@@ -0,0 +1,197 @@
+import { randomBytes } from "crypto";
+import { curves } from "snarkjs";
+import type { CurvePoint, Groth16Proof } from "snarkjs";
+import { AggregateProof, ProofConfig, ProofSystem, ProofType } from "@syndual/core-types";
+import { ethers } from "ethers";
+import { loadVerificationKey, resolveProofConfig } from "./artifacts";
+import { proofSystemOf } from "./calldata";
+import { DUAL_STATE_CIRCUIT, verifyDualStateProof } from "./dualStateProver";
+import { PoseidonMerkleTree } from "./merkle";
+import { isMockProof, isTestMode } from "./mode";
+import { poseidonHash } from "./poseidon";
+import { QSTREAM_CIRCUIT, verifyQStreamProof } from "./qStreamProver";
+
+/**
+ * Proof Aggregation
+ *
+ * Bundles Groth16 proofs of one circuit into a `MERKLE_BATCH` artifact that
+ * is checked with the randomized batch-verification equation
+ *
+ *   ∏ e(r_i·A_i, B_i) = e(Σ r_i·α, β) · e(Σ r_i·vk_x_i, γ) · e(Σ r_i·C_i, δ)
+ *
+ * This takes N + 3 Miller loops and one final exponentiation, where verifying
+ * the proofs one at a time takes 4 pairings each. The r_i are fresh 128-bit
+ * scalars, so a batch with an invalid proof passes with probability at most 2^-128.
+ * PLONK and fflonk proofs have no such equation here and are not aggregated.
+ */
+
+type AggregatedProof = AggregateProof["proofs"][number];
+
+interface AggregatableCircuit {
+  circuit: string;
+  signalCount: number;
+  /** Single-proof verifier, used for mocks and to locate invalid proofs */
+  verify: (proof: AggregatedProof, config: Partial<ProofConfig>) => Promise<boolean>;
+}
+
+const AGGREGATABLE: Partial<Record<ProofType, AggregatableCircuit>> = {
+  [ProofType.DUAL_STATE]: { circuit: DUAL_STATE_CIRCUIT, signalCount: 7, verify: verifyDualStateProof },
+  [ProofType.QSTREAM]: { circuit: QSTREAM_CIRCUIT, signalCount: 9, verify: verifyQStreamProof },
+};
+
+/** Proof types `aggregateProofs` accepts */
+export const AGGREGATABLE_PROOF_TYPES = Object.keys(AGGREGATABLE) as ProofType[];
+
+interface VerificationKey {
+  curve: string;
+  vk_alpha_1: string[];
+  vk_beta_2: string[][];
+  vk_gamma_2: string[][];
+  vk_delta_2: string[][];
+  IC: string[][];
+}
+
+/**
+ * Aggregates `proofs`, which must all be of `proofType`
+ *
+ * @throws If the type cannot be aggregated, there are no proofs, a proof is not Groth16, or some proof does not verify
+ */
+export async function aggregateProofs(
+  proofType: ProofType,
+  proofs: AggregatedProof[],
+  config: Partial<ProofConfig> = {},
+): Promise<AggregateProof> {
+  const circuit = AGGREGATABLE[proofType];
+  if (!circuit) {
+    throw new Error(`Proof type ${proofType} cannot be aggregated`);
+  }
+  if (proofs.length === 0) {
+    throw new Error("No proofs to aggregate");
+  }
+  if (proofs.some((p) => !isMockProof(p.proof) && proofSystemOf(p.proof) !== ProofSystem.GROTH16)) {
+    throw new Error("Only Groth16 proofs can be aggregated");
+  }
+
+  const aggregate: AggregateProof = {
+    type: ProofType.MERKLE_BATCH,
+    proofType,
+    root: await computeAggregateRoot(proofs),
+    proofs: proofs.map(({ proof, publicSignals }) => ({ proof, publicSignals })),
+    timestamp: Date.now(),
+  };
+
+  if (!(await verifyAggregateProof(aggregate, config))) {
+    const results = await Promise.all(proofs.map((proof) => circuit.verify(proof, config)));
+    const invalid = results.flatMap((valid, index) => (valid ? [] : [index]));
+    throw new Error(
+      invalid.length > 0 ? `Proofs ${invalid.join(", ")} do not verify` : "Proofs do not verify as a batch",
+    );
+  }
+  return aggregate;
+}
+
+/**
+ * Checks an aggregate in one batch pairing check, after recomputing its root
+ */
+export async function verifyAggregateProof(
+  aggregate: AggregateProof,
+  config: Partial<ProofConfig> = {},
+): Promise<boolean> {
+  const circuit = AGGREGATABLE[aggregate.proofType];
+  if (aggregate.type !== ProofType.MERKLE_BATCH || !circuit || !aggregate.proofs || aggregate.proofs.length === 0) {
+    return false;
+  }
+  if (aggregate.proofs.some((p) => !p.proof || !p.publicSignals || p.publicSignals.length !== circuit.signalCount)) {
+    return false;
+  }
+
+  try {
+    if ((await computeAggregateRoot(aggregate.proofs)) !== aggregate.root) {
+      return false;
+    }
+
+    const mocks = aggregate.proofs.filter((p) => isMockProof(p.proof)).length;
+    if (mocks > 0) {
+      // Mocks have no group elements to batch; they only pass on their own, in test mode
+      if (mocks !== aggregate.proofs.length || !isTestMode()) {
+        return false;
+      }
+      const results = await Promise.all(aggregate.proofs.map((proof) => circuit.verify(proof, config)));
+      return results.every(Boolean);
+    }
+
+    if (aggregate.proofs.some((p) => proofSystemOf(p.proof) !== ProofSystem.GROTH16)) {
+      return false;
+    }
+    const verificationKeyPath =
+      config.verificationKeyPath ??
+      resolveProofConfig(circuit.circuit, { ...config, backend: ProofSystem.GROTH16 }).verificationKeyPath;
+    const vkey = (await loadVerificationKey(verificationKeyPath!)) as VerificationKey;
+    return await batchVerifyGroth16(vkey, aggregate.proofs);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Poseidon Merkle root over Poseidon(publicSignals) of each proof, as bytes32
+ */
+async function computeAggregateRoot(proofs: AggregatedProof[]): Promise<string> {
+  const leaves: bigint[] = [];
+  for (const proof of proofs) {
+    leaves.push(await poseidonHash(proof.publicSignals.map(BigInt)));
+  }
+  const depth = Math.max(1, Math.ceil(Math.log2(leaves.length)));
+  const tree = await PoseidonMerkleTree.create(depth, leaves);
+  return ethers.toBeHex(tree.root, 32);
+}
+
+async function batchVerifyGroth16(vkey: VerificationKey, proofs: AggregatedProof[]): Promise<boolean> {
+  const curve = await curves.getCurveFromName(vkey.curve);
+  const { G1, G2, r } = curve;
+  const toG1 = (point: string[]) => G1.fromObject(point.map(BigInt));
+  const toG2 = (point: string[][]) => G2.fromObject(point.map((coords) => coords.map(BigInt)));
+
+  const pairs: CurvePoint[] = [];
+  // Σ r_i, and for each input j, Σ r_i·signal_ij, which weight the vk's IC points
+  const icWeights: bigint[] = new Array(vkey.IC.length).fill(0n);
+  let cSum = G1.zero;
+
+  for (const { proof, publicSignals } of proofs) {
+    const signals = publicSignals.map(BigInt);
+    if (signals.length !== vkey.IC.length - 1 || signals.some((s) => s < 0n || s >= r)) {
+      return false;
+    }
+    const { pi_a, pi_b, pi_c } = JSON.parse(proof) as Groth16Proof;
+    const a = toG1(pi_a);
+    const b = toG2(pi_b);
+    const c = toG1(pi_c);
+    if (!G1.isValid(a) || !G2.isValid(b) || !G1.isValid(c)) {
+      return false;
+    }
+
+    const weight = BigInt(ethers.hexlify(randomBytes(16)));
+    pairs.push(G1.neg(G1.timesScalar(a, weight)), b);
+    cSum = G1.add(cSum, G1.timesScalar(c, weight));
+    icWeights[0] = (icWeights[0] + weight) % r;
+    signals.forEach((signal, j) => (icWeights[j + 1] = (icWeights[j + 1] + weight * signal) % r));
+  }
+
+  let vkX = G1.zero;
+  icWeights.forEach((weight, j) => {
+    if (weight !== 0n) {
+      vkX = G1.add(vkX, G1.timesScalar(toG1(vkey.IC[j]), weight));
+    }
+  });
+
+  // Σ r_i·α reuses the IC[0] weight, which is exactly Σ r_i
+  return curve.pairingEq(
+    ...pairs,
+    vkX,
+    toG2(vkey.vk_gamma_2),
+    cSum,
+    toG2(vkey.vk_delta_2),
+    G1.timesScalar(toG1(vkey.vk_alpha_1), icWeights[0]),
+    toG2(vkey.vk_beta_2),
+  );
+}
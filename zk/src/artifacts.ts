@@ -0,0 +1,212 @@
+import { createHash } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import { ProofConfig, ProofSystem, ValidationResult } from "@syndual/core-types";
+
+/**
+ * Circuit artifact loading
+ *
+ * `zk/src/build.ts` writes every artifact it produces, with its SHA-256 hash,
+ * to `build/manifest.json`. Provers resolve wasm, zkey and verification key
+ * paths through that manifest instead of hard-coded locations. The top-level
+ * zkey, verification key and verifier of a circuit are its Groth16 ones;
+ * circuits also built for PLONK or fflonk list those under `backends`.
+ */
+
+export const MANIFEST_VERSION = 1;
+
+export const DEFAULT_MANIFEST_PATH =
+  process.env.ZK_MANIFEST || path.resolve(__dirname, "../build/manifest.json");
+
+export interface ArtifactEntry {
+  /** Path relative to the manifest directory */
+  path: string;
+  sha256: string;
+}
+
+/** Artifacts specific to one proof system */
+export interface BackendArtifacts {
+  zkey: ArtifactEntry;
+  verificationKey: ArtifactEntry;
+  verifier: ArtifactEntry;
+  ptauPower: number;
+}
+
+export type UniversalProofSystem = ProofSystem.PLONK | ProofSystem.FFLONK;
+
+export interface CircuitManifestEntry {
+  source: ArtifactEntry;
+  r1cs: ArtifactEntry;
+  wasm: ArtifactEntry;
+  zkey: ArtifactEntry;
+  verificationKey: ArtifactEntry;
+  verifier: ArtifactEntry;
+  constraints: number;
+  publicSignals: number;
+  ptauPower: number;
+  backends?: Partial<Record<UniversalProofSystem, BackendArtifacts>>;
+}
+
+export interface ArtifactManifest {
+  version: number;
+  generatedAt: string;
+  circuits: Record<string, CircuitManifestEntry>;
+}
+
+const manifests = new Map<string, ArtifactManifest>();
+const verificationKeys = new Map<string, Promise<unknown>>();
+
+/**
+ * Computes the SHA-256 hex digest of a file
+ */
+export function hashFile(filePath: string): string {
+  return createHash("sha256").update(readFileSync(filePath)).digest("hex");
+}
+
+/**
+ * Loads and caches the artifact manifest
+ *
+ * @throws If the manifest is missing or has an unsupported version
+ */
+export function loadManifest(manifestPath: string = DEFAULT_MANIFEST_PATH): ArtifactManifest {
+  const resolved = path.resolve(manifestPath);
+  if (!manifests.has(resolved)) {
+    if (!existsSync(resolved)) {
+      throw new Error(`Circuit manifest not found at ${resolved}; run the @syndual/zk build first`);
+    }
+    const manifest = JSON.parse(readFileSync(resolved, "utf8")) as ArtifactManifest;
+    if (manifest.version !== MANIFEST_VERSION) {
+      throw new Error(`Unsupported circuit manifest version ${manifest.version}`);
+    }
+    manifests.set(resolved, manifest);
+  }
+  return manifests.get(resolved)!;
+}
+
+/**
+ * Drops cached manifests, e.g. after a rebuild
+ */
+export function clearManifestCache(): void {
+  manifests.clear();
+  verificationKeys.clear();
+}
+
+/**
+ * Resolves the absolute path of a manifest artifact
+ */
+export function resolveArtifactPath(entry: ArtifactEntry, manifestPath: string = DEFAULT_MANIFEST_PATH): string {
+  return path.resolve(path.dirname(path.resolve(manifestPath)), entry.path);
+}
+
+/**
+ * Looks up a circuit in the manifest
+ *
+ * @throws If the circuit was not built
+ */
+export function getCircuitArtifacts(
+  circuitId: string,
+  manifestPath: string = DEFAULT_MANIFEST_PATH,
+): CircuitManifestEntry {
+  const entry = loadManifest(manifestPath).circuits[circuitId];
+  if (!entry) {
+    throw new Error(`Circuit "${circuitId}" is not present in the manifest`);
+  }
+  return entry;
+}
+
+/**
+ * Returns a circuit's artifacts for one proof system
+ *
+ * @throws If the circuit was not built for it
+ */
+export function getBackendArtifacts(entry: CircuitManifestEntry, backend: ProofSystem): BackendArtifacts {
+  if (backend === ProofSystem.GROTH16) {
+    return entry;
+  }
+  const artifacts = entry.backends?.[backend];
+  if (!artifacts) {
+    throw new Error(`Circuit was not built for ${backend}; rebuild with --backend ${backend}`);
+  }
+  return artifacts;
+}
+
+/**
+ * Builds a ProofConfig for a circuit from the manifest, picking the zkey and
+ * verification key of `overrides.backend` (default Groth16) and letting
+ * explicit overrides win. The manifest is not read when the overrides are complete.
+ */
+export function resolveProofConfig(
+  circuitId: string,
+  overrides: Partial<ProofConfig> = {},
+  manifestPath: string = DEFAULT_MANIFEST_PATH,
+): ProofConfig {
+  if (overrides.circuitWasm && overrides.zkeyPath && overrides.verificationKeyPath) {
+    return overrides as ProofConfig;
+  }
+
+  const entry = getCircuitArtifacts(circuitId, manifestPath);
+  const artifacts = getBackendArtifacts(entry, overrides.backend ?? ProofSystem.GROTH16);
+  return {
+    circuitWasm: resolveArtifactPath(entry.wasm, manifestPath),
+    zkeyPath: resolveArtifactPath(artifacts.zkey, manifestPath),
+    verificationKeyPath: resolveArtifactPath(artifacts.verificationKey, manifestPath),
+    ...overrides,
+  };
+}
+
+/**
+ * Checks that every artifact listed in the manifest exists and matches its hash
+ */
+export function verifyManifest(manifestPath: string = DEFAULT_MANIFEST_PATH): ValidationResult {
+  const errors: string[] = [];
+  let manifest: ArtifactManifest;
+
+  try {
+    manifest = loadManifest(manifestPath);
+  } catch (error) {
+    return { valid: false, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  for (const [circuitId, entry] of Object.entries(manifest.circuits)) {
+    const artifacts: Record<string, ArtifactEntry> = {
+      source: entry.source,
+      r1cs: entry.r1cs,
+      wasm: entry.wasm,
+      zkey: entry.zkey,
+      verificationKey: entry.verificationKey,
+      verifier: entry.verifier,
+    };
+    for (const [backend, extra] of Object.entries(entry.backends ?? {})) {
+      artifacts[`${backend} zkey`] = extra.zkey;
+      artifacts[`${backend} verificationKey`] = extra.verificationKey;
+      artifacts[`${backend} verifier`] = extra.verifier;
+    }
+    for (const [kind, artifact] of Object.entries(artifacts)) {
+      const filePath = resolveArtifactPath(artifact, manifestPath);
+      if (!existsSync(filePath)) {
+        errors.push(`${circuitId}: ${kind} missing at ${filePath}`);
+      } else if (hashFile(filePath) !== artifact.sha256) {
+        errors.push(`${circuitId}: ${kind} hash mismatch at ${filePath}`);
+      }
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+    metadata: { circuits: Object.keys(manifest.circuits), generatedAt: manifest.generatedAt },
+  };
+}
+
+/**
+ * Loads and caches a snarkjs verification key JSON file
+ */
+export function loadVerificationKey(filePath: string): Promise<unknown> {
+  if (!verificationKeys.has(filePath)) {
+    const loaded = readFile(filePath, "utf8").then((raw) => JSON.parse(raw) as unknown);
+    loaded.catch(() => verificationKeys.delete(filePath));
+    verificationKeys.set(filePath, loaded);
+  }
+  return verificationKeys.get(filePath)!;
+}
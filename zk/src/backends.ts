@@ -0,0 +1,158 @@
+import { fflonk, groth16, plonk } from "snarkjs";
+import type { FflonkProof, Groth16Proof, PlonkProof } from "snarkjs";
+import { ProofConfig, ProofSystem } from "@syndual/core-types";
+import { loadVerificationKey, resolveProofConfig } from "./artifacts";
+import { encodeFflonkProof, encodeGroth16Proof, encodePlonkProof, proofSystemOf } from "./calldata";
+
+/**
+ * Proving backends
+ *
+ * Every circuit can be proved with Groth16, PLONK or fflonk through snarkjs.
+ * Groth16 proofs are the smallest and cheapest to verify, but each circuit
+ * needs its own phase-2 contribution. PLONK and fflonk only need the
+ * universal Powers of Tau, so circuits can change without a new ceremony.
+ * Each backend has its own zkey, verification key and verifier contract in
+ * the build manifest. Proofs are stored as the snarkjs JSON of their scheme,
+ * whose `protocol` field names it.
+ */
+
+export const DEFAULT_PROOF_SYSTEM = ProofSystem.GROTH16;
+
+export interface ProverResult {
+  /** snarkjs proof JSON */
+  proof: string;
+  publicSignals: string[];
+}
+
+export interface Prover {
+  readonly scheme: ProofSystem;
+
+  /**
+   * Computes the witness and proves it with the scheme's zkey
+   *
+   * @param singleThread - Required inside worker threads, where ffjavascript cannot start its own
+   */
+  fullProve(
+    input: Record<string, unknown>,
+    circuitWasm: string,
+    zkeyPath: string,
+    singleThread?: boolean,
+  ): Promise<ProverResult>;
+
+  verify(verificationKey: unknown, publicSignals: string[], proof: string): Promise<boolean>;
+
+  /** ABI-encodes a proof as the `bytes proof` taken by the scheme's verifier adapter */
+  encodeProof(proof: string): string;
+}
+
+const singleThreadOptions = (singleThread?: boolean) => (singleThread ? { singleThread: true } : undefined);
+
+const groth16Prover: Prover = {
+  scheme: ProofSystem.GROTH16,
+  async fullProve(input, circuitWasm, zkeyPath, singleThread) {
+    const { proof, publicSignals } = await groth16.fullProve(
+      input,
+      circuitWasm,
+      zkeyPath,
+      undefined,
+      undefined,
+      singleThreadOptions(singleThread),
+    );
+    return { proof: JSON.stringify(proof), publicSignals };
+  },
+  verify: (verificationKey, publicSignals, proof) =>
+    groth16.verify(verificationKey, publicSignals, JSON.parse(proof) as Groth16Proof),
+  encodeProof: encodeGroth16Proof,
+};
+
+const plonkProver: Prover = {
+  scheme: ProofSystem.PLONK,
+  async fullProve(input, circuitWasm, zkeyPath, singleThread) {
+    const { proof, publicSignals } = await plonk.fullProve(
+      input,
+      circuitWasm,
+      zkeyPath,
+      undefined,
+      undefined,
+      singleThreadOptions(singleThread),
+    );
+    return { proof: JSON.stringify(proof), publicSignals };
+  },
+  verify: (verificationKey, publicSignals, proof) =>
+    plonk.verify(verificationKey, publicSignals, JSON.parse(proof) as PlonkProof),
+  encodeProof: encodePlonkProof,
+};
+
+const fflonkProver: Prover = {
+  scheme: ProofSystem.FFLONK,
+  async fullProve(input, circuitWasm, zkeyPath, singleThread) {
+    const { proof, publicSignals } = await fflonk.fullProve(
+      input,
+      circuitWasm,
+      zkeyPath,
+      undefined,
+      undefined,
+      singleThreadOptions(singleThread),
+    );
+    return { proof: JSON.stringify(proof), publicSignals };
+  },
+  verify: (verificationKey, publicSignals, proof) =>
+    fflonk.verify(verificationKey, publicSignals, JSON.parse(proof) as FflonkProof),
+  encodeProof: encodeFflonkProof,
+};
+
+const PROVERS: Record<ProofSystem, Prover> = {
+  [ProofSystem.GROTH16]: groth16Prover,
+  [ProofSystem.PLONK]: plonkProver,
+  [ProofSystem.FFLONK]: fflonkProver,
+};
+
+/**
+ * Returns the backend for a proof system
+ *
+ * @throws For an unknown proof system
+ */
+export function getProver(scheme: ProofSystem = DEFAULT_PROOF_SYSTEM): Prover {
+  const prover = PROVERS[scheme];
+  if (!prover) {
+    throw new Error(`Unknown proof system ${scheme}`);
+  }
+  return prover;
+}
+
+/**
+ * Proves `input` for a circuit with the backend selected by `config.backend`
+ */
+export async function proveCircuit(
+  circuitId: string,
+  input: Record<string, unknown>,
+  config: Partial<ProofConfig> = {},
+): Promise<ProverResult & { scheme: ProofSystem }> {
+  const prover = getProver(config.backend);
+  const { circuitWasm, zkeyPath } = resolveProofConfig(circuitId, config);
+  return { ...(await prover.fullProve(input, circuitWasm, zkeyPath)), scheme: prover.scheme };
+}
+
+/**
+ * Verifies a proof of a circuit with the backend that produced it, read from
+ * the proof JSON. A proof whose recorded `scheme` or whose configured
+ * `backend` disagrees with the JSON is rejected.
+ */
+export async function verifyCircuitProof(
+  circuitId: string,
+  proof: { proof: string; publicSignals: string[]; scheme?: ProofSystem },
+  config: Partial<ProofConfig> = {},
+): Promise<boolean> {
+  try {
+    const scheme = proofSystemOf(proof.proof);
+    if ((proof.scheme && proof.scheme !== scheme) || (config.backend && config.backend !== scheme)) {
+      return false;
+    }
+    const verificationKeyPath =
+      config.verificationKeyPath ?? resolveProofConfig(circuitId, { ...config, backend: scheme }).verificationKeyPath;
+    const vkey = await loadVerificationKey(verificationKeyPath!);
+    return await getProver(scheme).verify(vkey, proof.publicSignals, proof.proof);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,433 @@
+import { execFileSync } from "child_process";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "ethers";
+import { curves, groth16, r1cs, wtns, zKey } from "snarkjs";
+import { ProofSystem } from "@syndual/core-types";
+import {
+  BENCHMARK_REPORT_VERSION,
+  BUILT_PARAMS,
+  BenchmarkChange,
+  BenchmarkParams,
+  BenchmarkReport,
+  BenchmarkResult,
+  TimingStats,
+  benchmarkId,
+  compareBenchmarks,
+  estimateVerificationGas,
+} from "./benchmarkReport";
+import { circuitSourcePath, compileCircuit, ensurePtau, requiredPtauPower } from "./build";
+import { encodeGroth16Proof } from "./calldata";
+import { commitDualState } from "./commitment";
+import { keyToField } from "./field";
+import { PoseidonMerkleTree } from "./merkle";
+import { computeQStreamSecretCommitment } from "./nullifier";
+import { poseidonHash } from "./poseidon";
+import { PerformanceMetrics } from "./testUtils";
+
+/**
+ * Prover Benchmarks
+ *
+ * Compiles each circuit, sets up a Groth16 key for it and measures witness
+ * generation, proving and verification over several runs, along with the
+ * constraint count, the memory growth and the size of the proof. Circuits
+ * parametrized by a Merkle depth or a batch size are compiled again for every
+ * value swept, from a copy of their source with other `component main`
+ * arguments. The report is JSON keyed by circuit and parameters, so reports
+ * from two commits can be compared with `--compare`.
+ *
+ * Usage: ts-node src/benchmark.ts [--circuit <name>]... [--depth <n>]... [--batch <n>]... [--runs <n>]
+ *                                 [--out <file>] [--compare <previous.json>]
+ */
+
+export interface BenchmarkOptions {
+  /** Circuits to run (default all) */
+  circuits?: string[];
+  /** Merkle depths to sweep (default the depths the circuits are built with) */
+  depths?: number[];
+  /** Batch sizes to sweep (default the sizes the circuits are built with) */
+  batchSizes?: number[];
+  /** Measured runs per circuit (default 3) */
+  runs?: number;
+  /** Where compiled circuits and keys are kept (default `build/bench`) */
+  outDir?: string;
+  /** Ceremony cache shared with the build (default `build/ptau`) */
+  ptauDir?: string;
+  /** circom executable (default `$CIRCOM_BIN` or `circom`) */
+  circomBin?: string;
+  log?: (message: string) => void;
+}
+
+interface BenchmarkCircuit {
+  /** Parameters of the main template, in argument order */
+  params: (keyof BenchmarkParams)[];
+  /** Parameters of the committed circuit */
+  defaults: BenchmarkParams;
+  input(params: BenchmarkParams): Promise<Record<string, unknown>>;
+}
+
+const STREAM_TERMS = { ratePerSecond: 1000n, streamStart: 1_700_000_000n, streamEnd: 1_700_003_600n };
+const STREAM_TIME = 1_700_001_800n;
+
+const BENCHMARK_CIRCUITS: Record<string, BenchmarkCircuit> = {
+  dual_state: { params: [], defaults: {}, input: dualStateInput },
+  qstream_settle: {
+    params: [],
+    defaults: {},
+    input: async () => ({
+      ...STREAM_TERMS,
+      currentTime: STREAM_TIME,
+      withdrawn: 0n,
+      streamId: 1n,
+      secretCommitment: await computeQStreamSecretCommitment(42n),
+      nullifierSecret: 42n,
+    }),
+  },
+  stream_settlement: {
+    params: [],
+    defaults: {},
+    input: async () => ({ ...STREAM_TERMS, salt: 7n, settledAmount: 1000n, currentTime: STREAM_TIME }),
+  },
+  hybrid_proof: { params: ["depth"], defaults: BUILT_PARAMS.hybrid_proof, input: hybridInput },
+  stream_batch_settle: { params: ["batchSize"], defaults: BUILT_PARAMS.stream_batch_settle, input: streamBatchInput },
+  dual_state_rollup: {
+    params: ["batchSize", "depth"],
+    defaults: BUILT_PARAMS.dual_state_rollup,
+    input: rollupInput,
+  },
+};
+
+/**
+ * Benchmarks every circuit and parameter combination and returns the report
+ *
+ * @throws For an unknown circuit, a parameter the circuit cannot take, or a failed build or proof
+ */
+export async function runBenchmarks(options: BenchmarkOptions = {}): Promise<BenchmarkReport> {
+  const outDir = path.resolve(options.outDir ?? path.join(__dirname, "..", "build", "bench"));
+  const ptauDir = path.resolve(options.ptauDir ?? path.join(__dirname, "..", "build", "ptau"));
+  const circomBin = options.circomBin ?? process.env.CIRCOM_BIN ?? "circom";
+  const log = options.log ?? ((message: string) => console.log(`[zk:bench] ${message}`));
+  const runs = options.runs ?? 3;
+  if (!Number.isInteger(runs) || runs < 1) {
+    throw new Error("runs must be a positive integer");
+  }
+  const circuits = options.circuits && options.circuits.length > 0 ? options.circuits : Object.keys(BENCHMARK_CIRCUITS);
+
+  const results: BenchmarkResult[] = [];
+  const curve = await curves.getCurveFromName("bn128");
+  try {
+    for (const circuit of circuits) {
+      const definition = BENCHMARK_CIRCUITS[circuit];
+      if (!definition) {
+        throw new Error(`No benchmark for circuit "${circuit}"`);
+      }
+      for (const params of sweep(definition, options)) {
+        const id = benchmarkId(circuit, params);
+        const circuitDir = path.join(outDir, id);
+        mkdirSync(circuitDir, { recursive: true });
+
+        log(`Compiling ${id}`);
+        const source = writeVariant(circuit, definition, params, circuitDir);
+        await compileCircuit(circomBin, source, circuitDir);
+        const r1csPath = path.join(circuitDir, `${circuit}.r1cs`);
+        const wasmPath = path.join(circuitDir, `${circuit}_js`, `${circuit}.wasm`);
+        const info = await r1cs.info(r1csPath);
+
+        const zkeyPath = path.join(circuitDir, `${circuit}.zkey`);
+        const ptauPath = await ensurePtau(curve, requiredPtauPower(info), ptauDir, log);
+        await zKey.newZKey(r1csPath, ptauPath, zkeyPath);
+        const verificationKey = await zKey.exportVerificationKey(zkeyPath);
+
+        log(`Proving ${id} (${info.nConstraints} constraints, ${runs} runs)`);
+        const input = await definition.input(params);
+        results.push({
+          id,
+          circuit,
+          params,
+          scheme: ProofSystem.GROTH16,
+          constraints: info.nConstraints,
+          publicSignals: info.nPubInputs + info.nOutputs,
+          ...(await measure(input, wasmPath, zkeyPath, verificationKey, runs)),
+        });
+      }
+    }
+  } finally {
+    await curve.terminate();
+  }
+
+  return {
+    version: BENCHMARK_REPORT_VERSION,
+    generatedAt: new Date().toISOString(),
+    commit: gitCommit(),
+    environment: { node: process.version, platform: `${process.platform}-${process.arch}`, cpus: os.cpus().length },
+    results,
+  };
+}
+
+/**
+ * Reads a report written by `runBenchmarks`
+ *
+ * @throws If the file is not a report of this version
+ */
+export function loadBenchmarkReport(reportPath: string): BenchmarkReport {
+  const report = JSON.parse(readFileSync(reportPath, "utf8")) as BenchmarkReport;
+  if (report.version !== BENCHMARK_REPORT_VERSION || !Array.isArray(report.results)) {
+    throw new Error(`${reportPath} is not a version ${BENCHMARK_REPORT_VERSION} benchmark report`);
+  }
+  return report;
+}
+
+async function measure(
+  input: Record<string, unknown>,
+  wasmPath: string,
+  zkeyPath: string,
+  verificationKey: unknown,
+  runs: number,
+): Promise<Omit<BenchmarkResult, "id" | "circuit" | "params" | "scheme" | "constraints" | "publicSignals">> {
+  const metrics = new PerformanceMetrics();
+  let proof: { proof: string; publicSignals: string[] } | undefined;
+
+  metrics.start("total");
+  try {
+    for (let run = 0; run < runs; run++) {
+      const witness = { type: "mem" as const };
+      metrics.start("witness");
+      await wtns.calculate(input, wasmPath, witness);
+      metrics.end("witness");
+
+      metrics.start("proving");
+      const result = await groth16.prove(zkeyPath, witness);
+      metrics.end("proving");
+
+      metrics.start("verification");
+      const valid = await groth16.verify(verificationKey, result.publicSignals, result.proof);
+      metrics.end("verification");
+      if (!valid) {
+        throw new Error("Benchmark proof did not verify");
+      }
+      proof = { proof: JSON.stringify(result.proof), publicSignals: result.publicSignals };
+    }
+  } finally {
+    metrics.end("total");
+  }
+
+  return {
+    witness: timingStats(metrics, "witness"),
+    proving: timingStats(metrics, "proving"),
+    verification: timingStats(metrics, "verification"),
+    peakMemoryBytes: metrics.getPeakMemory("total") ?? 0,
+    proofSizeBytes: ethers.dataLength(encodeGroth16Proof(proof!.proof)),
+    verificationGas: estimateVerificationGas(proof!),
+  };
+}
+
+function timingStats(metrics: PerformanceMetrics, label: string): TimingStats {
+  const stats = metrics.getStats(label)!;
+  return { runs: stats.count, averageMs: stats.average, minMs: stats.min, maxMs: stats.max };
+}
+
+/**
+ * Parameter combinations to run a circuit with: every swept value of each
+ * parameter it takes, or the value it is built with when none is swept
+ */
+function sweep(definition: BenchmarkCircuit, options: BenchmarkOptions): BenchmarkParams[] {
+  const swept: Record<keyof BenchmarkParams, number[] | undefined> = {
+    depth: options.depths,
+    batchSize: options.batchSizes,
+  };
+  let combinations: BenchmarkParams[] = [{}];
+  for (const param of definition.params) {
+    const values = swept[param]?.length ? swept[param]! : [definition.defaults[param]!];
+    combinations = combinations.flatMap((combination) => values.map((value) => ({ ...combination, [param]: value })));
+  }
+  return combinations;
+}
+
+/**
+ * Path of the source to compile: the committed circuit, or a copy whose
+ * `component main` takes the swept parameters
+ */
+function writeVariant(
+  circuit: string,
+  definition: BenchmarkCircuit,
+  params: BenchmarkParams,
+  circuitDir: string,
+): string {
+  const source = circuitSourcePath(circuit);
+  if (definition.params.every((param) => params[param] === definition.defaults[param])) {
+    return source;
+  }
+  for (const param of definition.params) {
+    const value = params[param]!;
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`${circuit} needs a positive ${param}, got ${value}`);
+    }
+  }
+  if (params.batchSize !== undefined && (params.batchSize & (params.batchSize - 1)) !== 0) {
+    throw new Error(`${circuit} needs a power-of-two batch size, got ${params.batchSize}`);
+  }
+
+  const args = definition.params.map((param) => params[param]).join(", ");
+  const code = readFileSync(source, "utf8");
+  const main = /(component main[^=]*=\s*\w+)\([^)]*\);/;
+  if (!main.test(code)) {
+    throw new Error(`No main component in ${source}`);
+  }
+  const variant = path.join(circuitDir, `${circuit}.circom`);
+  writeFileSync(variant, code.replace(main, `$1(${args});`));
+  return variant;
+}
+
+function gitCommit(): string | undefined {
+  try {
+    return execFileSync("git", ["rev-parse", "HEAD"], { cwd: __dirname, stdio: ["ignore", "pipe", "ignore"] })
+      .toString()
+      .trim();
+  } catch {
+    return undefined;
+  }
+}
+
+async function dualStateInput(): Promise<Record<string, unknown>> {
+  const commitments = await commitDualState("1", "2");
+  return {
+    commitment0: BigInt(commitments.commitment0),
+    commitment1: BigInt(commitments.commitment1),
+    selector: 1n,
+    key: keyToField(ethers.id("benchmark")),
+    epoch: 0n,
+    state0: 1n,
+    salt0: commitments.salt0,
+    state1: 2n,
+    salt1: commitments.salt1,
+  };
+}
+
+async function hybridInput(params: BenchmarkParams): Promise<Record<string, unknown>> {
+  const commitments = await commitDualState("1", "2");
+  const tree = await PoseidonMerkleTree.create(params.depth);
+  const proof = tree.getProof(tree.insert(commitments.commitment0));
+  const streamAmount = STREAM_TERMS.ratePerSecond * (STREAM_TERMS.streamEnd - STREAM_TERMS.streamStart);
+  return {
+    state0Hash: commitments.commitment0,
+    state1Hash: commitments.commitment1,
+    streamAmount,
+    settledAmount: STREAM_TERMS.ratePerSecond * (STREAM_TIME - STREAM_TERMS.streamStart),
+    streamStart: STREAM_TERMS.streamStart,
+    streamEnd: STREAM_TERMS.streamEnd,
+    currentTime: STREAM_TIME,
+    // `toHybridMerkleInputs` only takes proofs of the committed depth
+    merkleProof: proof.siblings,
+    leafIndex: proof.leafIndex,
+    merkleRoot: proof.root,
+  };
+}
+
+async function streamBatchInput(params: BenchmarkParams): Promise<Record<string, unknown>> {
+  const slots = Array.from({ length: params.batchSize! }, (_, i) => BigInt(i));
+  return {
+    settledAt: STREAM_TIME,
+    streamIds: slots.map((i) => i + 1n),
+    rates: slots.map((i) => STREAM_TERMS.ratePerSecond + i),
+    starts: slots.map(() => STREAM_TERMS.streamStart),
+    ends: slots.map(() => STREAM_TERMS.streamEnd),
+    withdrawn: slots.map(() => 0n),
+  };
+}
+
+/** A batch writing new keys to the first leaves of an empty tree */
+async function rollupInput(params: BenchmarkParams): Promise<Record<string, unknown>> {
+  const tree = await PoseidonMerkleTree.create(params.depth);
+  const oldRoot = tree.root;
+  const input = {
+    oldRoot,
+    newRoot: 0n,
+    enabled: [] as bigint[],
+    keys: [] as bigint[],
+    states0: [] as bigint[],
+    states1: [] as bigint[],
+    oldLeaves: [] as bigint[],
+    oldStates0: [] as bigint[],
+    oldStates1: [] as bigint[],
+    siblings: [] as bigint[][],
+  };
+  for (let i = 0; i < params.batchSize!; i++) {
+    // The circuit places a key at its low `depth` bits; the high bit keeps the key non-zero
+    const key = (1n << BigInt(params.depth!)) + BigInt(i);
+    const oldLeaf = tree.getLeaf(i);
+    tree.update(i, await poseidonHash([key, key * 10n, key * 10n + 1n]));
+    input.enabled.push(1n);
+    input.keys.push(key);
+    input.states0.push(key * 10n);
+    input.states1.push(key * 10n + 1n);
+    input.oldLeaves.push(oldLeaf);
+    input.oldStates0.push(0n);
+    input.oldStates1.push(0n);
+    input.siblings.push(tree.getProof(i).siblings);
+  }
+  input.newRoot = tree.root;
+  return input;
+}
+
+function parseArgs(argv: string[]): BenchmarkOptions & { out: string; compare?: string } {
+  const options: BenchmarkOptions & { out: string; compare?: string } = {
+    circuits: [],
+    out: path.join(__dirname, "..", "build", "benchmark.json"),
+  };
+  const positiveInt = (value: string, flag: string) => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new Error(`${flag} takes a positive integer, got ${value}`);
+    }
+    return parsed;
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--circuit") {
+      options.circuits!.push(argv[++i]);
+    } else if (arg === "--depth") {
+      (options.depths ??= []).push(positiveInt(argv[++i], arg));
+    } else if (arg === "--batch") {
+      (options.batchSizes ??= []).push(positiveInt(argv[++i], arg));
+    } else if (arg === "--runs") {
+      options.runs = positiveInt(argv[++i], arg);
+    } else if (arg === "--out") {
+      options.out = argv[++i];
+    } else if (arg === "--compare") {
+      options.compare = argv[++i];
+    } else {
+      throw new Error(`Unknown argument ${arg}`);
+    }
+  }
+  return options;
+}
+
+function formatChange(change: BenchmarkChange): string {
+  const percent = `${change.change >= 0 ? "+" : ""}${(change.change * 100).toFixed(1)}%`;
+  const value = (n: number) => (Number.isInteger(n) ? n.toString() : n.toFixed(2));
+  return `${change.id} ${change.metric}: ${value(change.previous)} -> ${value(change.current)} (${percent})`;
+}
+
+if (require.main === module) {
+  const options = parseArgs(process.argv.slice(2));
+  runBenchmarks(options)
+    .then((report) => {
+      mkdirSync(path.dirname(path.resolve(options.out)), { recursive: true });
+      writeFileSync(options.out, JSON.stringify(report, null, 2));
+      console.log(`[zk:bench] Wrote ${options.out}`);
+      if (options.compare) {
+        if (!existsSync(options.compare)) {
+          throw new Error(`No report at ${options.compare}`);
+        }
+        for (const change of compareBenchmarks(loadBenchmarkReport(options.compare), report)) {
+          console.log(formatChange(change));
+        }
+      }
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
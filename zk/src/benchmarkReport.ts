@@ -0,0 +1,150 @@
+import { ethers } from "ethers";
+import { ProofSystem } from "@syndual/core-types";
+import { toVerifierCalldata } from "./calldata";
+import { HYBRID_MERKLE_DEPTH } from "./merkle";
+import { ROLLUP_BATCH_SIZE, ROLLUP_MERKLE_DEPTH } from "./rollup";
+import { STREAM_BATCH_SIZE } from "./streamBatch";
+
+/**
+ * Benchmark reports
+ *
+ * Format of the reports `runBenchmarks` (`@syndual/zk/node`) writes, and the
+ * lookups and gas estimate that work on them without Node, e.g. for
+ * `HybridProver.getProofComplexity`.
+ */
+
+export const BENCHMARK_REPORT_VERSION = 2;
+
+/** Gas of the 4-pair EIP-1108 pairing check of a Groth16 verifier */
+const GROTH16_PAIRING_GAS = 45000 + 4 * 34000;
+/** EIP-1108 ecMul plus ecAdd per public signal */
+const GAS_PER_PUBLIC_SIGNAL = 6000 + 150;
+/** EIP-2028 calldata prices */
+const GAS_PER_ZERO_BYTE = 4;
+const GAS_PER_NONZERO_BYTE = 16;
+
+export interface BenchmarkParams {
+  depth?: number;
+  batchSize?: number;
+}
+
+export interface TimingStats {
+  runs: number;
+  averageMs: number;
+  minMs: number;
+  maxMs: number;
+}
+
+export interface BenchmarkResult {
+  /** Circuit and swept parameters, e.g. `hybrid_proof[depth=8]`; the key reports are compared by */
+  id: string;
+  circuit: string;
+  params: BenchmarkParams;
+  scheme: ProofSystem;
+  constraints: number;
+  publicSignals: number;
+  witness: TimingStats;
+  proving: TimingStats;
+  verification: TimingStats;
+  /**
+   * Largest growth of the resident set size during witness generation, proving
+   * and verification, over its size before the first run, in bytes
+   */
+  peakMemoryBytes: number;
+  /** Size of the ABI-encoded proof taken by the verifier adapter */
+  proofSizeBytes: number;
+  /** Precompile and calldata gas of verifying the proof on-chain, at EIP-1108 and EIP-2028 prices */
+  verificationGas: number;
+}
+
+export interface BenchmarkReport {
+  version: number;
+  generatedAt: string;
+  /** Git commit the report was made at, when known */
+  commit?: string;
+  environment: { node: string; platform: string; cpus: number };
+  results: BenchmarkResult[];
+}
+
+/** Change of one metric between two reports */
+export interface BenchmarkChange {
+  id: string;
+  metric: string;
+  previous: number;
+  current: number;
+  /** Relative change, e.g. 0.1 for 10% more */
+  change: number;
+}
+
+/** Parameters of the committed parametrized circuits, which results are looked up by default */
+export const BUILT_PARAMS: Record<string, BenchmarkParams> = {
+  hybrid_proof: { depth: HYBRID_MERKLE_DEPTH },
+  stream_batch_settle: { batchSize: STREAM_BATCH_SIZE },
+  dual_state_rollup: { batchSize: ROLLUP_BATCH_SIZE, depth: ROLLUP_MERKLE_DEPTH },
+};
+
+/**
+ * Result of a circuit in a report, by default for the parameters the circuit is built with
+ */
+export function findBenchmark(
+  report: BenchmarkReport,
+  circuit: string,
+  params: BenchmarkParams = BUILT_PARAMS[circuit] ?? {},
+): BenchmarkResult | undefined {
+  const id = benchmarkId(circuit, params);
+  return report.results.find((result) => result.id === id);
+}
+
+/**
+ * Changes of every metric of the results both reports have
+ */
+export function compareBenchmarks(previous: BenchmarkReport, current: BenchmarkReport): BenchmarkChange[] {
+  const changes: BenchmarkChange[] = [];
+  for (const result of current.results) {
+    const before = previous.results.find((candidate) => candidate.id === result.id);
+    if (!before) {
+      continue;
+    }
+    const metrics = Object.entries(benchmarkMetrics(result));
+    const previousMetrics = benchmarkMetrics(before);
+    for (const [metric, value] of metrics) {
+      const old = previousMetrics[metric];
+      changes.push({ id: result.id, metric, previous: old, current: value, change: old === 0 ? 0 : value / old - 1 });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Gas of verifying a Groth16 proof on-chain: the pairing check, one ecMul and
+ * ecAdd per public signal and the calldata of `verify(bytes, uint256[])`.
+ * The verifier contract's own bookkeeping is not included.
+ */
+export function estimateVerificationGas(proof: { proof: string; publicSignals: string[] }): number {
+  const calldata = toVerifierCalldata(proof);
+  const encoded = ethers.getBytes(
+    ethers.AbiCoder.defaultAbiCoder().encode(["bytes", "uint256[]"], [calldata.proof, calldata.publicSignals]),
+  );
+  const calldataGas = encoded.reduce(
+    (gas, byte) => gas + (byte === 0 ? GAS_PER_ZERO_BYTE : GAS_PER_NONZERO_BYTE),
+    0,
+  );
+  return GROTH16_PAIRING_GAS + proof.publicSignals.length * GAS_PER_PUBLIC_SIGNAL + calldataGas;
+}
+
+export function benchmarkId(circuit: string, params: BenchmarkParams): string {
+  const entries = Object.entries(params).sort(([a], [b]) => a.localeCompare(b));
+  return entries.length === 0 ? circuit : `${circuit}[${entries.map(([name, value]) => `${name}=${value}`).join(",")}]`;
+}
+
+function benchmarkMetrics(result: BenchmarkResult): Record<string, number> {
+  return {
+    constraints: result.constraints,
+    witnessMs: result.witness.averageMs,
+    provingMs: result.proving.averageMs,
+    verificationMs: result.verification.averageMs,
+    peakMemoryBytes: result.peakMemoryBytes,
+    proofSizeBytes: result.proofSizeBytes,
+    verificationGas: result.verificationGas,
+  };
+}
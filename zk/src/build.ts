@@ -1,4 +1,380 @@
-// Placeholder build script for circuits
-// TODO: integrate circom compilation and snarkjs setup
+import { execFile } from "child_process";
+import { randomBytes } from "crypto";
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import { promisify } from "util";
+import { curves, fflonk, plonk, powersOfTau, r1cs, zKey } from "snarkjs";
+import { ProofSystem } from "@syndual/core-types";
+import {
+  ArtifactEntry,
+  ArtifactManifest,
+  BackendArtifacts,
+  CircuitManifestEntry,
+  MANIFEST_VERSION,
+  UniversalProofSystem,
+  hashFile,
+} from "./artifacts";
 
-console.log("Building zk circuits (placeholder)");
+/**
+ * Circuit Build Pipeline
+ *
+ * Compiles every circuit in `zk/circuits`, runs a local Powers of Tau ceremony
+ * sized to each circuit, derives Groth16 zkeys and verification keys, exports
+ * Solidity verifiers and records every artifact with its hash in
+ * `build/manifest.json`. Groth16 is always built; `--backend plonk` and
+ * `--backend fflonk` add keys and verifiers for those proof systems, which
+ * only need the universal ceremony. Nothing is downloaded; the ceremony is
+ * local and is only suitable for development and testing.
+ *
+ * Usage: ts-node src/build.ts [--circuit <name>]... [--backend <plonk|fflonk>]... [--out <dir>] [--contracts-dir <dir>]
+ */
+
+const execFileAsync = promisify(execFile);
+
+const ZK_ROOT = path.resolve(__dirname, "..");
+const CIRCUITS_DIR = path.join(ZK_ROOT, "circuits");
+const MIN_PTAU_POWER = 8;
+const MAX_PTAU_POWER = 28;
+
+const UNIVERSAL_SETUPS: Record<UniversalProofSystem, (r1cs: string, ptau: string, zkey: string) => Promise<unknown>> = {
+  [ProofSystem.PLONK]: plonk.setup,
+  [ProofSystem.FFLONK]: fflonk.setup,
+};
+
+const VERIFIER_TEMPLATES: Record<ProofSystem, { file: string; contract: string }> = {
+  [ProofSystem.GROTH16]: { file: "verifier_groth16.sol.ejs", contract: "Groth16Verifier" },
+  [ProofSystem.PLONK]: { file: "verifier_plonk.sol.ejs", contract: "PlonkVerifier" },
+  [ProofSystem.FFLONK]: { file: "verifier_fflonk.sol.ejs", contract: "FflonkVerifier" },
+};
+
+export interface BuildOptions {
+  /** Circuit names (file names without `.circom`); defaults to every circuit */
+  circuits?: string[];
+  /** Output directory for artifacts and the manifest (default `zk/build`) */
+  outDir?: string;
+  /** PLONK and fflonk keys to build next to the Groth16 ones */
+  backends?: UniversalProofSystem[];
+  /** When set, generated Solidity verifiers are copied here as well */
+  contractsDir?: string;
+  /** circom executable (default `$CIRCOM_BIN` or `circom`) */
+  circomBin?: string;
+  log?: (message: string) => void;
+}
+
+/**
+ * Lists the circuit names found in `zk/circuits`
+ */
+export function listCircuits(): string[] {
+  return readdirSync(CIRCUITS_DIR)
+    .filter((file) => file.endsWith(".circom"))
+    .map((file) => file.replace(/\.circom$/, ""))
+    .sort();
+}
+
+/**
+ * Path of a circuit's source in `zk/circuits`
+ *
+ * @throws If the circuit does not exist
+ */
+export function circuitSourcePath(circuit: string): string {
+  const source = path.join(CIRCUITS_DIR, `${circuit}.circom`);
+  if (!existsSync(source)) {
+    throw new Error(`Unknown circuit "${circuit}" (no ${source})`);
+  }
+  return source;
+}
+
+/**
+ * Contract name used for a circuit's exported verifier, e.g. `dual_state` -> `DualStateVerifier`,
+ * or `DualStatePlonkVerifier` for its PLONK verifier
+ */
+export function verifierContractName(circuit: string, scheme: ProofSystem = ProofSystem.GROTH16): string {
+  const capitalize = (part: string) => part.charAt(0).toUpperCase() + part.slice(1);
+  const base = circuit.split("_").map(capitalize).join("");
+  return scheme === ProofSystem.GROTH16 ? `${base}Verifier` : `${base}${capitalize(scheme)}Verifier`;
+}
+
+/**
+ * Smallest ceremony power that fits the circuit, mirroring the check in `snarkjs zkey new`
+ */
+export function requiredPtauPower(info: { nConstraints: number; nPubInputs: number; nOutputs: number }): number {
+  const domain = info.nConstraints + info.nPubInputs + info.nOutputs;
+  return Math.max(MIN_PTAU_POWER, domain.toString(2).length);
+}
+
+/**
+ * Runs the full pipeline and returns the manifest that was written
+ */
+export async function buildCircuits(options: BuildOptions = {}): Promise<ArtifactManifest> {
+  const outDir = path.resolve(options.outDir ?? path.join(ZK_ROOT, "build"));
+  const circomBin = options.circomBin ?? process.env.CIRCOM_BIN ?? "circom";
+  const log = options.log ?? ((message: string) => console.log(`[zk:build] ${message}`));
+  const circuits = options.circuits && options.circuits.length > 0 ? options.circuits : listCircuits();
+  const backends = [...new Set(options.backends ?? [])];
+  for (const backend of backends) {
+    if (!(backend in UNIVERSAL_SETUPS)) {
+      throw new Error(`Unknown backend "${backend}" (expected ${Object.keys(UNIVERSAL_SETUPS).join(" or ")})`);
+    }
+  }
+  const manifestPath = path.join(outDir, "manifest.json");
+
+  mkdirSync(outDir, { recursive: true });
+  const curve = await curves.getCurveFromName("bn128");
+
+  // Keep entries for circuits that are not rebuilt this run
+  const manifest: ArtifactManifest = existsSync(manifestPath)
+    ? (JSON.parse(readFileSync(manifestPath, "utf8")) as ArtifactManifest)
+    : { version: MANIFEST_VERSION, generatedAt: "", circuits: {} };
+  if (manifest.version !== MANIFEST_VERSION) {
+    manifest.circuits = {};
+    manifest.version = MANIFEST_VERSION;
+  }
+
+  try {
+    for (const circuit of circuits) {
+      const source = circuitSourcePath(circuit);
+
+      const circuitDir = path.join(outDir, circuit);
+      rmSync(circuitDir, { recursive: true, force: true });
+      mkdirSync(circuitDir, { recursive: true });
+
+      log(`Compiling ${circuit}`);
+      await compileCircuit(circomBin, source, circuitDir);
+      const r1csPath = path.join(circuitDir, `${circuit}.r1cs`);
+      const wasmPath = path.join(circuitDir, `${circuit}_js`, `${circuit}.wasm`);
+
+      const info = await r1cs.info(r1csPath);
+      const power = requiredPtauPower(info);
+      log(`${circuit}: ${info.nConstraints} constraints, ptau power ${power}`);
+      const ptauDir = path.join(outDir, "ptau");
+      const ptauPath = await ensurePtau(curve, power, ptauDir, log);
+
+      log(`Generating zkey for ${circuit}`);
+      const initialZkey = path.join(circuitDir, `${circuit}_0000.zkey`);
+      const zkeyPath = path.join(circuitDir, `${circuit}.zkey`);
+      await zKey.newZKey(r1csPath, ptauPath, initialZkey);
+      await zKey.contribute(initialZkey, zkeyPath, "syndual local build", randomBytes(32).toString("hex"));
+      rmSync(initialZkey);
+
+      const vkeyPath = path.join(circuitDir, `${circuit}.vkey.json`);
+      const vkey = await zKey.exportVerificationKey(zkeyPath);
+      writeFileSync(vkeyPath, JSON.stringify(vkey, null, 2));
+
+      const verifierPath = await writeVerifier(zkeyPath, circuit, ProofSystem.GROTH16, circuitDir, options.contractsDir);
+
+      const entry = (filePath: string): ArtifactEntry => ({
+        path: path.relative(outDir, filePath),
+        sha256: hashFile(filePath),
+      });
+      const backendEntries: CircuitManifestEntry["backends"] = {};
+      for (const backend of backends) {
+        log(`Generating ${backend} zkey for ${circuit}`);
+        const backendZkey = path.join(circuitDir, `${circuit}.${backend}.zkey`);
+        const backendPower = await setupUniversal(backend, r1csPath, backendZkey, power, curve, ptauDir, log);
+
+        const backendVkey = path.join(circuitDir, `${circuit}.${backend}.vkey.json`);
+        writeFileSync(backendVkey, JSON.stringify(await zKey.exportVerificationKey(backendZkey), null, 2));
+        const backendVerifier = await writeVerifier(backendZkey, circuit, backend, circuitDir, options.contractsDir);
+
+        const artifacts: BackendArtifacts = {
+          zkey: entry(backendZkey),
+          verificationKey: entry(backendVkey),
+          verifier: entry(backendVerifier),
+          ptauPower: backendPower,
+        };
+        backendEntries[backend] = artifacts;
+      }
+
+      const circuitEntry: CircuitManifestEntry = {
+        source: entry(source),
+        r1cs: entry(r1csPath),
+        wasm: entry(wasmPath),
+        zkey: entry(zkeyPath),
+        verificationKey: entry(vkeyPath),
+        verifier: entry(verifierPath),
+        constraints: info.nConstraints,
+        publicSignals: info.nPubInputs + info.nOutputs,
+        ptauPower: power,
+        ...(backends.length > 0 ? { backends: backendEntries } : {}),
+      };
+      manifest.circuits[circuit] = circuitEntry;
+    }
+  } finally {
+    await curve.terminate();
+  }
+
+  manifest.generatedAt = new Date().toISOString();
+  writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  log(`Wrote ${manifestPath}`);
+  return manifest;
+}
+
+/**
+ * Compiles a circuit with circom into `outDir`, writing `<name>.r1cs`, `<name>.sym` and `<name>_js/<name>.wasm`
+ */
+export async function compileCircuit(circomBin: string, source: string, outDir: string): Promise<void> {
+  // Resolve circomlib from this package so `include "circomlib/..."` works with any layout
+  const libDir = path.resolve(path.dirname(require.resolve("circomlib/package.json")), "..");
+  try {
+    await execFileAsync(circomBin, [source, "--r1cs", "--wasm", "--sym", "-l", libDir, "-o", outDir], {
+      maxBuffer: 16 * 1024 * 1024,
+    });
+  } catch (error) {
+    const err = error as Error & { code?: string; stderr?: string; stdout?: string };
+    if (err.code === "ENOENT") {
+      throw circomNotFound(circomBin);
+    }
+    throw new Error(`circom failed for ${source}: ${err.stderr || err.stdout || err.message}`);
+  }
+}
+
+/**
+ * Runs `circom --version`
+ *
+ * @returns The version line, e.g. `circom compiler 2.1.9`
+ * @throws If circom cannot be run, saying how to provide it
+ */
+export async function circomVersion(circomBin: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync(circomBin, ["--version"]);
+    return stdout.trim();
+  } catch (error) {
+    throw circomNotFound(circomBin, (error as Error).message);
+  }
+}
+
+function circomNotFound(circomBin: string, reason?: string): Error {
+  const detail = reason ? ` (${reason})` : "";
+  return new Error(
+    `circom could not be run as "${circomBin}"${detail}; install circom 2 or point CIRCOM_BIN at its binary`,
+  );
+}
+
+/**
+ * Runs the PLONK or fflonk setup, which needs more ceremony points than
+ * Groth16 for the same circuit, on increasing ptau powers until one fits
+ *
+ * @returns The ptau power that was used
+ */
+async function setupUniversal(
+  backend: UniversalProofSystem,
+  r1csPath: string,
+  zkeyPath: string,
+  minPower: number,
+  curve: unknown,
+  ptauDir: string,
+  log: (message: string) => void,
+): Promise<number> {
+  for (let power = minPower; power <= MAX_PTAU_POWER; ) {
+    const ptauPath = await ensurePtau(curve, power, ptauDir, log);
+    // A larger cached ceremony may have been picked
+    const ptauPower = Number(/pot(\d+)_final\.ptau$/.exec(ptauPath)![1]);
+    try {
+      // plonk.setup reports a ceremony that is too small with -1, fflonk.setup throws
+      if ((await UNIVERSAL_SETUPS[backend](r1csPath, ptauPath, zkeyPath)) !== -1) {
+        return ptauPower;
+      }
+    } catch (error) {
+      if (!(error instanceof Error && error.message.includes("not big enough"))) {
+        throw error;
+      }
+    }
+    log(`${backend} setup does not fit ptau power ${ptauPower}, retrying with ${ptauPower + 1}`);
+    power = ptauPower + 1;
+  }
+  throw new Error(`${backend} setup failed for ${r1csPath}: no ceremony up to power ${MAX_PTAU_POWER} is large enough`);
+}
+
+/**
+ * Returns a phase-2 ready ptau of at least the given power, reusing the smallest
+ * cached one and running the local ceremony if there is none
+ */
+export async function ensurePtau(
+  curve: unknown,
+  power: number,
+  ptauDir: string,
+  log: (message: string) => void,
+): Promise<string> {
+  const cached = existsSync(ptauDir)
+    ? readdirSync(ptauDir)
+        .map((file) => /^pot(\d+)_final\.ptau$/.exec(file))
+        .map((match) => (match ? Number(match[1]) : 0))
+        .filter((cachedPower) => cachedPower >= power)
+        .sort((a, b) => a - b)
+    : [];
+  if (cached.length > 0) {
+    return path.join(ptauDir, `pot${cached[0]}_final.ptau`);
+  }
+
+  const finalPath = path.join(ptauDir, `pot${power}_final.ptau`);
+
+  mkdirSync(ptauDir, { recursive: true });
+  log(`Running local Powers of Tau ceremony (power ${power})`);
+  const initial = path.join(ptauDir, `pot${power}_0000.ptau`);
+  const contributed = path.join(ptauDir, `pot${power}_0001.ptau`);
+  await powersOfTau.newAccumulator(curve, power, initial);
+  await powersOfTau.contribute(initial, contributed, "syndual local build", randomBytes(32).toString("hex"));
+  await powersOfTau.preparePhase2(contributed, finalPath);
+  rmSync(initial);
+  rmSync(contributed);
+  return finalPath;
+}
+
+/**
+ * Exports the Solidity verifier of a zkey into the circuit directory, and into `contractsDir` when set
+ *
+ * @returns The path of the verifier in the circuit directory
+ */
+async function writeVerifier(
+  zkeyPath: string,
+  circuit: string,
+  scheme: ProofSystem,
+  circuitDir: string,
+  contractsDir?: string,
+): Promise<string> {
+  const contractName = verifierContractName(circuit, scheme);
+  const verifierPath = path.join(circuitDir, `${contractName}.sol`);
+  writeFileSync(verifierPath, await exportVerifier(zkeyPath, scheme, contractName));
+  if (contractsDir) {
+    mkdirSync(contractsDir, { recursive: true });
+    copyFileSync(verifierPath, path.join(contractsDir, `${contractName}.sol`));
+  }
+  return verifierPath;
+}
+
+async function exportVerifier(zkeyPath: string, scheme: ProofSystem, contractName: string): Promise<string> {
+  const { file, contract } = VERIFIER_TEMPLATES[scheme];
+  // snarkjs does not export its templates directory, so locate it next to the entry point
+  const templatePath = path.resolve(path.dirname(require.resolve("snarkjs")), "../templates", file);
+  const template = readFileSync(templatePath, "utf8");
+  const source = await zKey.exportSolidityVerifier(zkeyPath, { [scheme]: template });
+  return source.replace(new RegExp(`contract ${contract}\\b`), `contract ${contractName}`);
+}
+
+function parseArgs(argv: string[]): BuildOptions {
+  const options: BuildOptions = { circuits: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--circuit") {
+      options.circuits!.push(argv[++i]);
+    } else if (arg === "--backend") {
+      (options.backends ??= []).push(argv[++i] as UniversalProofSystem);
+    } else if (arg === "--out") {
+      options.outDir = argv[++i];
+    } else if (arg === "--contracts-dir") {
+      options.contractsDir = argv[++i];
+    } else {
+      throw new Error(`Unknown argument ${arg}`);
+    }
+  }
+  return options;
+}
+
+if (require.main === module) {
+  buildCircuits(parseArgs(process.argv.slice(2)))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,141 @@
+import { AbiCoder } from "ethers";
+import type { FflonkProof, Groth16Proof, PlonkProof } from "snarkjs";
+import { ProofSystem } from "@syndual/core-types";
+import { toFieldElement } from "./field";
+import { isMockProof } from "./mode";
+
+/**
+ * Verifier calldata encoding
+ *
+ * The on-chain `IZKVerifier.verify(bytes proof, uint256[] publicSignals)` takes
+ * the proof words of the generated verifier behind it:
+ * - Groth16: `abi.encode(uint256[2] a, uint256[2][2] b, uint256[2] c)`
+ * - PLONK and fflonk: `abi.encode(uint256[24])`, in the order of `snarkjs zkey export soliditycalldata`
+ * These helpers turn the JSON proofs produced by the provers into that layout.
+ */
+
+export interface VerifierCalldata {
+  /** ABI-encoded proof words */
+  proof: string;
+  publicSignals: bigint[];
+}
+
+const PROOF_TYPES = ["uint256[2]", "uint256[2][2]", "uint256[2]"];
+const PROOF_WORDS_TYPES = ["uint256[24]"];
+
+/** Proof fields in verifier word order: each point is two words, then one word per evaluation */
+export const PLONK_POINTS = ["A", "B", "C", "Z", "T1", "T2", "T3", "Wxi", "Wxiw"] as const;
+export const PLONK_EVALUATIONS = ["eval_a", "eval_b", "eval_c", "eval_s1", "eval_s2", "eval_zw"] as const;
+export const FFLONK_POINTS = ["C1", "C2", "W1", "W2"] as const;
+export const FFLONK_EVALUATIONS = [
+  "ql", "qr", "qm", "qo", "qc", "s1", "s2", "s3", "a", "b", "c", "z", "zw", "t1w", "t2w", "inv",
+] as const;
+
+/**
+ * ABI-encodes a snarkjs Groth16 proof (JSON string or object) for the verifier contracts.
+ * The G2 point coordinates are swapped, matching `snarkjs zkey export soliditycalldata`.
+ *
+ * @throws For mock proofs or malformed proof JSON
+ */
+export function encodeGroth16Proof(proof: string | Groth16Proof): string {
+  const parsed = parseProof<Groth16Proof>(proof, "Groth16");
+  if (!parsed.pi_a || !parsed.pi_b || !parsed.pi_c) {
+    throw new Error("Proof is not a Groth16 proof JSON");
+  }
+
+  const { pi_a: a, pi_b: b, pi_c: c } = parsed;
+  return AbiCoder.defaultAbiCoder().encode(PROOF_TYPES, [
+    [a[0], a[1]],
+    [
+      [b[0][1], b[0][0]],
+      [b[1][1], b[1][0]],
+    ],
+    [c[0], c[1]],
+  ]);
+}
+
+/**
+ * ABI-encodes a snarkjs PLONK proof as the 24 words taken by its generated verifier
+ *
+ * @throws For mock proofs or malformed proof JSON
+ */
+export function encodePlonkProof(proof: string | PlonkProof): string {
+  const p = parseProof<PlonkProof>(proof, "PLONK");
+  if (!p.A || !p.Wxiw || p.eval_zw === undefined) {
+    throw new Error("Proof is not a PLONK proof JSON");
+  }
+
+  const points = PLONK_POINTS.flatMap((name) => [p[name][0], p[name][1]]);
+  const evaluations = PLONK_EVALUATIONS.map((name) => p[name]);
+  return AbiCoder.defaultAbiCoder().encode(PROOF_WORDS_TYPES, [[...points, ...evaluations]]);
+}
+
+/**
+ * ABI-encodes a snarkjs fflonk proof as the 24 words taken by its generated verifier
+ *
+ * @throws For mock proofs or malformed proof JSON
+ */
+export function encodeFflonkProof(proof: string | FflonkProof): string {
+  const parsed = parseProof<FflonkProof>(proof, "fflonk");
+  if (!parsed.polynomials || !parsed.evaluations) {
+    throw new Error("Proof is not a fflonk proof JSON");
+  }
+
+  const { polynomials, evaluations: e } = parsed;
+  const points = FFLONK_POINTS.flatMap((name) => [polynomials[name][0], polynomials[name][1]]);
+  const evaluations = FFLONK_EVALUATIONS.map((name) => e[name]);
+  return AbiCoder.defaultAbiCoder().encode(PROOF_WORDS_TYPES, [[...points, ...evaluations]]);
+}
+
+/**
+ * Reads the proof system from a proof JSON's `protocol` field
+ *
+ * @throws For mock proofs, malformed JSON or an unknown protocol
+ */
+export function proofSystemOf(proof: string): ProofSystem {
+  const { protocol } = parseProof<{ protocol?: string }>(proof, "snarkjs");
+  if (!Object.values(ProofSystem).includes(protocol as ProofSystem)) {
+    throw new Error(`Unknown proof protocol ${protocol}`);
+  }
+  return protocol as ProofSystem;
+}
+
+/**
+ * ABI-encodes a proof of any supported proof system for its verifier adapter
+ *
+ * @throws For mock proofs or malformed proof JSON
+ */
+export function encodeProof(proof: string): string {
+  switch (proofSystemOf(proof)) {
+    case ProofSystem.PLONK:
+      return encodePlonkProof(proof);
+    case ProofSystem.FFLONK:
+      return encodeFflonkProof(proof);
+    default:
+      return encodeGroth16Proof(proof);
+  }
+}
+
+/**
+ * Builds the `verify` arguments for a proof with its public signals
+ */
+export function toVerifierCalldata(proof: { proof: string; publicSignals: string[] }): VerifierCalldata {
+  return {
+    proof: encodeProof(proof.proof),
+    publicSignals: proof.publicSignals.map(toFieldElement),
+  };
+}
+
+function parseProof<T>(proof: string | T, name: string): T {
+  if (typeof proof !== "string") {
+    return proof;
+  }
+  if (isMockProof(proof)) {
+    throw new Error("Mock proofs cannot be verified on-chain");
+  }
+  try {
+    return JSON.parse(proof) as T;
+  } catch {
+    throw new Error(`Proof is not a ${name} proof JSON`);
+  }
+}
@@ -0,0 +1,132 @@
+import { spawnSync } from "child_process";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import { hashFile } from "./artifacts";
+import { circomVersion, circuitSourcePath, compileCircuit } from "./build";
+import { ProofAssertions } from "./testUtils";
+import { CircuitFiles, WitnessReport, clearWitnessDebugCache } from "./witnessDebugger";
+
+/**
+ * Circuit Test Harness
+ *
+ * Compiles circuits for unit tests and checks witnesses against them, without
+ * the ceremony and zkeys of a full build. Each circuit is compiled once per
+ * harness; the output is kept under `build/test` next to the hash of the
+ * source it came from, so later runs only recompile circuits that changed.
+ */
+
+export interface CircuitHarnessOptions {
+  /** Where compiled circuits are kept (default `zk/build/test`) */
+  outDir?: string;
+  /** circom executable (default `$CIRCOM_BIN` or `circom`) */
+  circomBin?: string;
+}
+
+export class CircuitHarness {
+  private readonly outDir: string;
+  private readonly circomBin: string;
+  private readonly compiled = new Map<string, Promise<CircuitFiles>>();
+
+  constructor(options: CircuitHarnessOptions = {}) {
+    this.outDir = path.resolve(options.outDir ?? path.join(__dirname, "..", "build", "test"));
+    this.circomBin = options.circomBin ?? process.env.CIRCOM_BIN ?? "circom";
+  }
+
+  /**
+   * Checks that circom runs, so that test suites can fail up front with a
+   * clear message instead of on their first compile
+   *
+   * @returns circom's version line
+   * @throws If circom cannot be run
+   */
+  checkCircom(): Promise<string> {
+    return circomVersion(this.circomBin);
+  }
+
+  /**
+   * Why circuit test suites should be skipped: set when circom cannot be run,
+   * unless `REQUIRE_CIRCOM=1` asks for them to run and fail instead. Checked
+   * synchronously so the result can be passed as a suite's `skip` option.
+   */
+  circomSkipReason(): string | undefined {
+    if (process.env.REQUIRE_CIRCOM === "1") {
+      return undefined;
+    }
+    const { error, status } = spawnSync(this.circomBin, ["--version"]);
+    if (!error && status === 0) {
+      return undefined;
+    }
+    return (
+      `circom could not be run as "${this.circomBin}"; point CIRCOM_BIN at circom 2 to run the circuit tests, ` +
+      "or set REQUIRE_CIRCOM=1 to fail without it"
+    );
+  }
+
+  /**
+   * Compiles a circuit unless this harness already did, or its output in
+   * `outDir` was compiled from the same source
+   *
+   * @throws If the circuit does not exist or circom fails
+   */
+  compile(circuitId: string): Promise<CircuitFiles> {
+    if (!this.compiled.has(circuitId)) {
+      const compiled = this.compileFresh(circuitId);
+      compiled.catch(() => this.compiled.delete(circuitId));
+      this.compiled.set(circuitId, compiled);
+    }
+    return this.compiled.get(circuitId)!;
+  }
+
+  /**
+   * Asserts that `input` satisfies the circuit and returns the values of its
+   * main template's signals, or of `signals`, by name. Signals the compiler
+   * optimized away are left out.
+   */
+  async assertSatisfied(
+    circuitId: string,
+    input: Record<string, unknown>,
+    signals?: string[],
+  ): Promise<Record<string, bigint>> {
+    const artifacts = await this.compile(circuitId);
+    const report = await ProofAssertions.assertWitnessSatisfied(circuitId, input, { signals, artifacts });
+    return Object.fromEntries(
+      report.signals
+        .filter((signal) => signal.value !== undefined)
+        .map((signal) => [signal.name, BigInt(signal.value!)]),
+    );
+  }
+
+  /**
+   * Asserts that the circuit rejects `input`, optionally in a given template
+   * such as `Num2Bits`
+   */
+  async assertRejected(circuitId: string, input: Record<string, unknown>, template?: string): Promise<WitnessReport> {
+    const artifacts = await this.compile(circuitId);
+    return ProofAssertions.assertWitnessRejected(circuitId, input, template, { artifacts });
+  }
+
+  private async compileFresh(circuitId: string): Promise<CircuitFiles> {
+    const source = circuitSourcePath(circuitId);
+    const circuitDir = path.join(this.outDir, circuitId);
+    const files: CircuitFiles = {
+      wasm: path.join(circuitDir, `${circuitId}_js`, `${circuitId}.wasm`),
+      r1cs: path.join(circuitDir, `${circuitId}.r1cs`),
+      source,
+    };
+    const stampPath = path.join(circuitDir, "source.sha256");
+    const sourceHash = hashFile(source);
+    const upToDate =
+      existsSync(stampPath) &&
+      readFileSync(stampPath, "utf8") === sourceHash &&
+      existsSync(files.wasm) &&
+      existsSync(files.r1cs.replace(/\.r1cs$/, ".sym"));
+    if (!upToDate) {
+      rmSync(circuitDir, { recursive: true, force: true });
+      mkdirSync(circuitDir, { recursive: true });
+      await compileCircuit(this.circomBin, source, circuitDir);
+      writeFileSync(stampPath, sourceHash);
+      clearWitnessDebugCache();
+    }
+    return files;
+  }
+}
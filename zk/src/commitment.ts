@@ -0,0 +1,44 @@
+import { randomBytes } from "crypto";
+import { ethers } from "ethers";
+import { DualStateCommitments } from "@syndual/core-types";
+import { SNARK_SCALAR_FIELD, toFieldElement } from "./field";
+import { poseidonHash } from "./poseidon";
+
+/**
+ * Poseidon commitments matching the `dual_state` circuit
+ */
+
+/**
+ * Computes Poseidon(state, salt) over the BN254 scalar field
+ */
+export async function poseidonCommit(state: string | bigint, salt: string | bigint): Promise<bigint> {
+  return poseidonHash([toFieldElement(state), toFieldElement(salt)]);
+}
+
+/**
+ * Draws a uniformly random field element for use as a commitment salt
+ */
+export function randomSalt(): bigint {
+  // 64 bytes reduced mod p keeps the modulo bias negligible
+  return BigInt(ethers.hexlify(randomBytes(64))) % SNARK_SCALAR_FIELD;
+}
+
+/**
+ * Commits to both states of a dual state. Missing salts are drawn at random;
+ * keep the returned salts, they are required to prove a selection later.
+ */
+export async function commitDualState(
+  state0: string,
+  state1: string,
+  salts: { salt0?: string; salt1?: string } = {},
+): Promise<DualStateCommitments> {
+  const salt0 = salts.salt0 !== undefined ? toFieldElement(salts.salt0) : randomSalt();
+  const salt1 = salts.salt1 !== undefined ? toFieldElement(salts.salt1) : randomSalt();
+
+  return {
+    commitment0: ethers.toBeHex(await poseidonCommit(state0, salt0), 32),
+    commitment1: ethers.toBeHex(await poseidonCommit(state1, salt1), 32),
+    salt0: salt0.toString(),
+    salt1: salt1.toString(),
+  };
+}
@@ -1,18 +1,171 @@
-import { DualStateProof } from "@syndual/core-types";
+import { DualStateCommitments, DualStateProof, ProofConfig } from "@syndual/core-types";
+import { ethers } from "ethers";
+import { resolveProofConfig } from "./artifacts";
+import { getProver, proveCircuit, verifyCircuitProof } from "./backends";
+import { poseidonCommit } from "./commitment";
+import { assertUintBits, keyToField, toFieldElement } from "./field";
+import { MOCK_PROOF_PREFIX, isMockProof, isTestMode } from "./mode";
+import { computeDualStateNullifier } from "./nullifier";
+import { ProofJob, ProveAllOptions, ProverPool } from "./proverPool";
 
+export const DUAL_STATE_CIRCUIT = "dual_state";
+
+/** Public signal positions of `dual_state.circom` */
+export const DUAL_STATE_SIGNALS = {
+  selected: 0,
+  nullifier: 1,
+  commitment0: 2,
+  commitment1: 3,
+  selector: 4,
+  key: 5,
+  epoch: 6,
+} as const;
+
+/**
+ * DualStateEngine key and epoch a dual-state proof is bound to. The proof's
+ * nullifier is Poseidon(salt0, salt1, key, epoch), so it can be consumed once
+ * per key and epoch whichever state it selects.
+ */
+export interface DualStateProofContext {
+  /** bytes32 */
+  key: string;
+  /** uint64, default 0 */
+  epoch?: number | bigint;
+}
+
+/**
+ * Proves that `selected` (the first public signal) is the state picked by `selector`
+ * from a pair committed to as Poseidon(state, salt).
+ * Public signals are `[selected, nullifier, commitment0, commitment1, selector, key, epoch]`
+ * (`DUAL_STATE_SIGNALS`); the unselected state and both salts stay in the private witness.
+ *
+ * @throws If a value is outside the field or the epoch is not a uint64
+ */
 export const generateDualStateProof = async (
   state0: string,
   state1: string,
   selector: 0 | 1,
+  salts: Pick<DualStateCommitments, "salt0" | "salt1">,
+  context: DualStateProofContext,
+  config: Partial<ProofConfig> = {},
 ): Promise<DualStateProof> => {
-  console.log("TODO: integrate real snarkjs proof generation for dual states");
+  const input = await buildDualStateInput({ state0, state1, selector, salts, ...context });
+
+  if (isTestMode()) {
+    return mockDualStateProof(input);
+  }
+
+  const { proof, publicSignals, scheme } = await proveCircuit(DUAL_STATE_CIRCUIT, input, config);
   return {
-    proof: `0xdual-${selector}-${state0}-${state1}`,
-    publicSignals: [selector.toString(), state0, state1],
+    proof,
+    publicSignals,
+    scheme,
+    timestamp: Date.now(),
   };
 };
 
-export const verifyDualStateProof = async (proof: DualStateProof): Promise<boolean> => {
-  console.log("TODO: integrate real proof verification");
-  return Boolean(proof.proof);
+export interface DualStateProofRequest extends DualStateProofContext {
+  state0: string;
+  state1: string;
+  selector: 0 | 1;
+  salts: Pick<DualStateCommitments, "salt0" | "salt1">;
+}
+
+export interface DualStateProofOutcome {
+  index: number;
+  proof?: DualStateProof;
+  error?: Error;
+}
+
+/**
+ * Proves many selections on a ProverPool. Witness inputs are built lazily as
+ * workers free up, so the request list can be a generator of any length.
+ */
+export const generateDualStateProofs = async (
+  requests: Iterable<DualStateProofRequest>,
+  pool: ProverPool,
+  options: ProveAllOptions & { config?: Partial<ProofConfig> } = {},
+): Promise<DualStateProofOutcome[]> => {
+  if (isTestMode()) {
+    const outcomes: DualStateProofOutcome[] = [];
+    for (const request of requests) {
+      const index = outcomes.length;
+      try {
+        outcomes.push({ index, proof: await mockDualStateProof(await buildDualStateInput(request)) });
+      } catch (error) {
+        outcomes.push({ index, error: error instanceof Error ? error : new Error(String(error)) });
+      }
+    }
+    return outcomes;
+  }
+
+  const { scheme } = getProver(options.config?.backend);
+  const { circuitWasm, zkeyPath } = resolveProofConfig(DUAL_STATE_CIRCUIT, options.config);
+  async function* jobs(): AsyncGenerator<ProofJob> {
+    for (const request of requests) {
+      yield { circuitWasm, zkeyPath, scheme, input: await buildDualStateInput(request) };
+    }
+  }
+
+  const outcomes = await pool.proveAll(jobs(), options);
+  return outcomes.map((outcome) =>
+    outcome.ok
+      ? { index: outcome.index, proof: { ...outcome.result, scheme, timestamp: Date.now() } }
+      : { index: outcome.index, error: outcome.error },
+  );
+};
+
+async function buildDualStateInput(request: DualStateProofRequest) {
+  const { state0, state1, selector, salts, key } = request;
+  const epoch = BigInt(request.epoch ?? 0);
+  assertUintBits(epoch, 64, "Epoch");
+  return {
+    commitment0: await poseidonCommit(state0, salts.salt0),
+    commitment1: await poseidonCommit(state1, salts.salt1),
+    selector: BigInt(selector),
+    key: keyToField(key),
+    epoch,
+    state0: toFieldElement(state0),
+    salt0: toFieldElement(salts.salt0),
+    state1: toFieldElement(state1),
+    salt1: toFieldElement(salts.salt1),
+  };
+}
+
+async function mockDualStateProof(input: Awaited<ReturnType<typeof buildDualStateInput>>): Promise<DualStateProof> {
+  const selected = input.selector === 0n ? input.state0 : input.state1;
+  const nullifier = await computeDualStateNullifier(input, ethers.toBeHex(input.key, 32), input.epoch);
+  return {
+    proof: `${MOCK_PROOF_PREFIX}dual-${input.selector}-${selected}`,
+    publicSignals: [
+      selected,
+      nullifier,
+      input.commitment0,
+      input.commitment1,
+      input.selector,
+      input.key,
+      input.epoch,
+    ].map(String),
+    timestamp: Date.now(),
+  };
+}
+
+export const verifyDualStateProof = async (
+  proof: DualStateProof,
+  config: Partial<ProofConfig> = {},
+): Promise<boolean> => {
+  if (!proof.proof || !proof.publicSignals || proof.publicSignals.length !== 7) {
+    return false;
+  }
+
+  if (isMockProof(proof.proof)) {
+    if (!isTestMode()) {
+      return false;
+    }
+    // The openings are private, so a mock can only be checked for a well-formed selector
+    const selector = proof.publicSignals[DUAL_STATE_SIGNALS.selector];
+    return selector === "0" || selector === "1";
+  }
+
+  return verifyCircuitProof(DUAL_STATE_CIRCUIT, proof, config);
 };
@@ -0,0 +1,292 @@
+import { ProofConfig, ProofEnvelope, ProofSystem } from "@syndual/core-types";
+import { AbiCoder, ethers } from "ethers";
+import { DEFAULT_MANIFEST_PATH, getBackendArtifacts, getCircuitArtifacts, hashFile } from "./artifacts";
+import { verifyCircuitProof } from "./backends";
+import {
+  FFLONK_EVALUATIONS,
+  FFLONK_POINTS,
+  PLONK_EVALUATIONS,
+  PLONK_POINTS,
+  VerifierCalldata,
+  encodeProof,
+  proofSystemOf,
+} from "./calldata";
+import { SNARK_SCALAR_FIELD } from "./field";
+import { isMockProof } from "./mode";
+
+/**
+ * Proof Envelopes
+ *
+ * A `ProofEnvelope` names the circuit, proof system and verification key a
+ * proof belongs to, next to the proof words and public signals. Its JSON
+ * form is the object itself; the binary form is
+ *
+ *   "SDPE" | version u8 | scheme u8 | timestamp u64 | vkeyHash bytes32 |
+ *   circuitId length u8, utf8 | proof word count u8, uint256 words |
+ *   signal count u16, uint256 signals
+ *
+ * with big-endian integers. Proof words are stored in the verifier's
+ * calldata order, so they convert to calldata and back to snarkjs JSON
+ * without losing anything.
+ */
+
+export const PROOF_ENVELOPE_VERSION = 1;
+
+const MAGIC = "0x53445045";
+
+/** Proof system ids in the binary form; never reorder */
+const SCHEME_IDS: ProofSystem[] = [ProofSystem.GROTH16, ProofSystem.PLONK, ProofSystem.FFLONK];
+
+const PROOF_WORD_COUNTS: Record<ProofSystem, number> = {
+  [ProofSystem.GROTH16]: 8,
+  [ProofSystem.PLONK]: 24,
+  [ProofSystem.FFLONK]: 24,
+};
+
+const MAX_SIGNALS = 0xffff;
+
+/**
+ * Wraps a snarkjs proof of `circuitId`. The verification key hash is read
+ * from the build manifest unless given.
+ *
+ * @throws For mock proofs, malformed proofs, or a circuit or backend missing from the manifest
+ */
+export function createProofEnvelope(
+  circuitId: string,
+  proof: { proof: string; publicSignals: string[]; timestamp?: number },
+  options: { vkeyHash?: string; manifestPath?: string } = {},
+): ProofEnvelope {
+  if (isMockProof(proof.proof)) {
+    throw new Error("Mock proofs cannot be put in an envelope");
+  }
+  const scheme = proofSystemOf(proof.proof);
+  const words = AbiCoder.defaultAbiCoder().decode(
+    [`uint256[${PROOF_WORD_COUNTS[scheme]}]`],
+    encodeProof(proof.proof),
+  )[0] as bigint[];
+
+  const vkeyHash =
+    options.vkeyHash ?? manifestVkeyHash(circuitId, scheme, options.manifestPath ?? DEFAULT_MANIFEST_PATH);
+  return checkEnvelope({
+    version: PROOF_ENVELOPE_VERSION,
+    circuitId,
+    scheme,
+    vkeyHash,
+    proof: words.map(String),
+    publicSignals: proof.publicSignals.map(String),
+    timestamp: proof.timestamp ?? Date.now(),
+  });
+}
+
+/**
+ * Serializes an envelope as JSON with a fixed key order
+ */
+export function serializeProofEnvelope(envelope: ProofEnvelope): string {
+  const { version, circuitId, scheme, vkeyHash, proof, publicSignals, timestamp } = checkEnvelope(envelope);
+  return JSON.stringify({ version, circuitId, scheme, vkeyHash, proof, publicSignals, timestamp });
+}
+
+/**
+ * Parses and validates the JSON form of an envelope
+ *
+ * @throws For malformed JSON, an unsupported version or invalid fields
+ */
+export function parseProofEnvelope(json: string | unknown): ProofEnvelope {
+  let parsed: unknown = json;
+  if (typeof json === "string") {
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error("Proof envelope is not valid JSON");
+    }
+  }
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error("Proof envelope must be an object");
+  }
+  const { version, circuitId, scheme, vkeyHash, proof, publicSignals, timestamp } = parsed as ProofEnvelope;
+  return checkEnvelope({ version, circuitId, scheme, vkeyHash, proof, publicSignals, timestamp });
+}
+
+/**
+ * Encodes an envelope in the compact binary form
+ */
+export function encodeProofEnvelope(envelope: ProofEnvelope): Uint8Array {
+  const { version, circuitId, scheme, vkeyHash, proof, publicSignals, timestamp } = checkEnvelope(envelope);
+  const circuitIdBytes = ethers.toUtf8Bytes(circuitId);
+  return ethers.getBytes(
+    ethers.solidityPacked(
+      ["bytes4", "uint8", "uint8", "uint64", "bytes32", "uint8", "bytes", "uint8", "uint256[]", "uint16", "uint256[]"],
+      [
+        MAGIC,
+        version,
+        SCHEME_IDS.indexOf(scheme),
+        timestamp,
+        vkeyHash,
+        circuitIdBytes.length,
+        circuitIdBytes,
+        proof.length,
+        proof,
+        publicSignals.length,
+        publicSignals,
+      ],
+    ),
+  );
+}
+
+/**
+ * Decodes the binary form of an envelope, given as bytes or hex
+ *
+ * @throws For truncated or trailing data, an unsupported version or invalid fields
+ */
+export function decodeProofEnvelope(data: Uint8Array | string): ProofEnvelope {
+  const bytes = ethers.getBytes(data);
+  let offset = 0;
+  const read = (length: number): Uint8Array => {
+    if (offset + length > bytes.length) {
+      throw new Error("Proof envelope is truncated");
+    }
+    const slice = bytes.slice(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+  const readUint = (length: number): number => Number(ethers.toBigInt(read(length)));
+  const readWords = (count: number): string[] =>
+    Array.from({ length: count }, () => ethers.toBigInt(read(32)).toString());
+
+  if (ethers.hexlify(read(4)) !== MAGIC) {
+    throw new Error("Data is not a proof envelope");
+  }
+  const version = readUint(1);
+  const scheme = SCHEME_IDS[readUint(1)];
+  const timestamp = readUint(8);
+  const vkeyHash = ethers.hexlify(read(32));
+  const circuitId = ethers.toUtf8String(read(readUint(1)));
+  const proof = readWords(readUint(1));
+  const publicSignals = readWords(readUint(2));
+  if (offset !== bytes.length) {
+    throw new Error("Proof envelope has trailing data");
+  }
+  return checkEnvelope({ version, circuitId, scheme, vkeyHash, proof, publicSignals, timestamp });
+}
+
+/**
+ * Builds the `IZKVerifier.verify` arguments for an envelope
+ */
+export function envelopeToCalldata(envelope: ProofEnvelope): VerifierCalldata {
+  const { proof, publicSignals } = checkEnvelope(envelope);
+  return {
+    proof: AbiCoder.defaultAbiCoder().encode([`uint256[${proof.length}]`], [proof]),
+    publicSignals: publicSignals.map(BigInt),
+  };
+}
+
+/**
+ * Rebuilds the snarkjs proof JSON, in the shape the provers return
+ */
+export function envelopeToSnarkjs(envelope: ProofEnvelope): {
+  proof: string;
+  publicSignals: string[];
+  scheme: ProofSystem;
+} {
+  const { scheme, proof: w, publicSignals } = checkEnvelope(envelope);
+  const point = (i: number) => [w[i], w[i + 1], "1"];
+  let proof: Record<string, unknown>;
+
+  if (scheme === ProofSystem.GROTH16) {
+    // The verifier takes G2 coordinates swapped
+    proof = {
+      pi_a: point(0),
+      pi_b: [
+        [w[3], w[2]],
+        [w[5], w[4]],
+        ["1", "0"],
+      ],
+      pi_c: point(6),
+    };
+  } else if (scheme === ProofSystem.PLONK) {
+    proof = Object.fromEntries([
+      ...PLONK_POINTS.map((name, i) => [name, point(2 * i)]),
+      ...PLONK_EVALUATIONS.map((name, i) => [name, w[2 * PLONK_POINTS.length + i]]),
+    ]);
+  } else {
+    proof = {
+      polynomials: Object.fromEntries(FFLONK_POINTS.map((name, i) => [name, point(2 * i)])),
+      evaluations: Object.fromEntries(FFLONK_EVALUATIONS.map((name, i) => [name, w[2 * FFLONK_POINTS.length + i]])),
+    };
+  }
+
+  return {
+    proof: JSON.stringify({ ...proof, protocol: scheme, curve: "bn128" }),
+    publicSignals: [...publicSignals],
+    scheme,
+  };
+}
+
+/**
+ * Verifies an envelope against `config.verificationKeyPath`, or else the
+ * verification key its circuit and scheme resolve to, after checking that
+ * key is the one named by `vkeyHash`
+ */
+export async function verifyProofEnvelope(
+  envelope: ProofEnvelope,
+  config: Partial<ProofConfig> = {},
+): Promise<boolean> {
+  try {
+    checkEnvelope(envelope);
+    const vkeyHash = config.verificationKeyPath
+      ? `0x${hashFile(config.verificationKeyPath)}`
+      : manifestVkeyHash(envelope.circuitId, envelope.scheme, DEFAULT_MANIFEST_PATH);
+    if (vkeyHash !== envelope.vkeyHash) {
+      return false;
+    }
+    return await verifyCircuitProof(envelope.circuitId, envelopeToSnarkjs(envelope), config);
+  } catch {
+    return false;
+  }
+}
+
+function manifestVkeyHash(circuitId: string, scheme: ProofSystem, manifestPath: string): string {
+  const artifacts = getBackendArtifacts(getCircuitArtifacts(circuitId, manifestPath), scheme);
+  return `0x${artifacts.verificationKey.sha256}`;
+}
+
+/**
+ * Validates every field, returning the envelope for chaining
+ */
+function checkEnvelope(envelope: ProofEnvelope): ProofEnvelope {
+  const { version, circuitId, scheme, vkeyHash, proof, publicSignals, timestamp } = envelope;
+  if (version !== PROOF_ENVELOPE_VERSION) {
+    throw new Error(`Unsupported proof envelope version ${version}`);
+  }
+  if (typeof circuitId !== "string" || circuitId.length === 0 || ethers.toUtf8Bytes(circuitId).length > 0xff) {
+    throw new Error("Proof envelope circuit id must be 1 to 255 bytes");
+  }
+  if (!SCHEME_IDS.includes(scheme)) {
+    throw new Error(`Unknown proof system ${scheme}`);
+  }
+  if (typeof vkeyHash !== "string" || !/^0x[0-9a-f]{64}$/.test(vkeyHash)) {
+    throw new Error("Proof envelope vkeyHash must be lowercase bytes32 hex");
+  }
+  if (!Number.isSafeInteger(timestamp) || timestamp < 0) {
+    throw new Error("Proof envelope timestamp must be a non-negative integer");
+  }
+  if (!Array.isArray(proof) || proof.length !== PROOF_WORD_COUNTS[scheme]) {
+    throw new Error(`A ${scheme} proof has ${PROOF_WORD_COUNTS[scheme]} words`);
+  }
+  if (!Array.isArray(publicSignals) || publicSignals.length > MAX_SIGNALS) {
+    throw new Error(`Proof envelope holds at most ${MAX_SIGNALS} public signals`);
+  }
+  // Base coordinates are below the base field modulus, which exceeds the scalar field; only bound them to 256 bits
+  proof.forEach((word) => checkWord(word, 2n ** 256n, "Proof words must be decimal uint256 values"));
+  publicSignals.forEach((signal) =>
+    checkWord(signal, SNARK_SCALAR_FIELD, "Public signals must be decimal field elements"),
+  );
+  return envelope;
+}
+
+function checkWord(word: string, bound: bigint, message: string): void {
+  // No leading zeros, so every value has exactly one JSON form
+  if (typeof word !== "string" || !/^(0|[1-9]\d*)$/.test(word) || BigInt(word) >= bound) {
+    throw new Error(message);
+  }
+}
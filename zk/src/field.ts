@@ -0,0 +1,44 @@
+/**
+ * BN254 scalar field helpers shared by the circuits' TypeScript wrappers
+ */
+
+export const SNARK_SCALAR_FIELD =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+/**
+ * Parses a decimal or 0x-prefixed value into a circuit field element.
+ *
+ * @throws If the value is not numeric or does not fit in the scalar field
+ */
+export function toFieldElement(value: string | bigint | number): bigint {
+  let element: bigint;
+  try {
+    element = BigInt(value);
+  } catch {
+    throw new Error(`Value "${value}" is not a numeric field element`);
+  }
+
+  if (element < 0n || element >= SNARK_SCALAR_FIELD) {
+    throw new Error(`Value ${value} is outside the BN254 scalar field`);
+  }
+
+  return element;
+}
+
+/**
+ * Maps a bytes32 storage key into the scalar field, as circuits and contracts take it
+ */
+export function keyToField(key: string): bigint {
+  return BigInt(key) % SNARK_SCALAR_FIELD;
+}
+
+/**
+ * Mirrors a circuit's `Num2Bits(bits)` range check so out-of-range inputs fail before witness generation
+ *
+ * @throws If `value` is negative or does not fit in `bits` bits
+ */
+export function assertUintBits(value: bigint, bits: number, name: string): void {
+  if (value < 0n || value >= 1n << BigInt(bits)) {
+    throw new Error(`${name} must be a ${bits}-bit unsigned integer`);
+  }
+}
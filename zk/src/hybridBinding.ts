@@ -0,0 +1,156 @@
+import { HybridProof, HybridSettlement, ProofConfig, ProofSystem, ValidationResult } from "@syndual/core-types";
+import { verifyCircuitProof } from "./backends";
+import { DUAL_STATE_SIGNALS, verifyDualStateProof } from "./dualStateProver";
+import { isMockProof, isTestMode } from "./mode";
+import { poseidonHash } from "./poseidon";
+import { QSTREAM_SIGNALS, verifyQStreamProof } from "./qStreamProver";
+
+/**
+ * Hybrid proof binding
+ *
+ * `hybrid_proof.circom` outputs
+ *   hybridHash = Poseidon(Poseidon(state0Hash, state1Hash),
+ *                         Poseidon(streamAmount, settledAmount, timeElapsed, remaining))
+ * A hybrid proof is bound when that hash, recomputed from the dual-state
+ * proof's commitments and the settlement read from the stream proof's public
+ * signals, matches the circuit's public output. Swapping either component
+ * proof, or claiming a settlement the stream proof does not show, breaks the
+ * match.
+ */
+
+export const HYBRID_CIRCUIT = "hybrid_proof";
+
+/** Public signal positions of `hybrid_proof.circom` */
+export const HYBRID_SIGNALS = {
+  hybridHash: 0,
+  isValid: 1,
+  remainingFlow: 2,
+  merkleRoot: 3,
+} as const;
+
+/**
+ * Mirrors the circuit's `hybridHash` computation
+ */
+export async function computeHybridHash(
+  commitment0: string | bigint,
+  commitment1: string | bigint,
+  settlement: HybridSettlement,
+): Promise<bigint> {
+  const streamAmount = BigInt(settlement.streamAmount);
+  const settledAmount = BigInt(settlement.settledAmount);
+  const stateHash = await poseidonHash([BigInt(commitment0), BigInt(commitment1)]);
+  const settlementHash = await poseidonHash([
+    streamAmount,
+    settledAmount,
+    BigInt(settlement.timeElapsed),
+    streamAmount - settledAmount,
+  ]);
+  return poseidonHash([stateHash, settlementHash]);
+}
+
+/**
+ * Amount a stream proof shows as settled by its time: the owed amount plus what was already withdrawn
+ */
+export function streamProofSettledAmount(publicSignals: string[]): string {
+  if (publicSignals.length !== 9) {
+    throw new Error("Stream proof does not have the qstream_settle public signals");
+  }
+  const owed = BigInt(publicSignals[QSTREAM_SIGNALS.owedAmount]);
+  return (owed + BigInt(publicSignals[QSTREAM_SIGNALS.withdrawn])).toString();
+}
+
+/**
+ * Settlement a stream proof attests to: the stream's total over [start, end],
+ * the amount settled by the proof's time and the time elapsed since the start
+ *
+ * @throws If the signals are not `qstream_settle` public signals
+ */
+export function streamProofSettlement(publicSignals: string[]): HybridSettlement {
+  const settledAmount = streamProofSettledAmount(publicSignals);
+  const ratePerSecond = BigInt(publicSignals[QSTREAM_SIGNALS.ratePerSecond]);
+  const streamStart = BigInt(publicSignals[QSTREAM_SIGNALS.streamStart]);
+  const streamEnd = BigInt(publicSignals[QSTREAM_SIGNALS.streamEnd]);
+  const currentTime = BigInt(publicSignals[QSTREAM_SIGNALS.currentTime]);
+  return {
+    streamAmount: (ratePerSecond * (streamEnd - streamStart)).toString(),
+    settledAmount,
+    timeElapsed: (currentTime - streamStart).toString(),
+  };
+}
+
+/**
+ * Checks the binding proof and that it commits to exactly the enclosed dual-state and stream proofs
+ */
+export async function verifyHybridBinding(
+  proof: HybridProof,
+  config: Partial<ProofConfig> = {},
+): Promise<ValidationResult> {
+  const errors: string[] = [];
+  const signals = proof.combinedSignals ?? [];
+
+  if (!proof.bindingProof || !proof.settlement || signals.length !== 4) {
+    return { valid: false, errors: ["Hybrid proof has no binding proof"] };
+  }
+
+  if (!(await verifyBindingProof(proof.bindingProof, signals, proof.bindingScheme, config))) {
+    errors.push("Binding proof verification failed");
+  }
+  if (signals[HYBRID_SIGNALS.isValid] !== "1") {
+    errors.push("Binding proof reports unsatisfied stream or Merkle constraints");
+  }
+
+  const { settlement } = proof;
+  try {
+    const attested = streamProofSettlement(proof.streamProof.publicSignals);
+    if (settlement.streamAmount !== attested.streamAmount) {
+      errors.push("Stream amount does not match the stream proof");
+    }
+    if (settlement.settledAmount !== attested.settledAmount) {
+      errors.push("Settled amount does not match the stream proof");
+    }
+    if (settlement.timeElapsed !== attested.timeElapsed) {
+      errors.push("Time elapsed does not match the stream proof");
+    }
+    const remaining = BigInt(settlement.streamAmount) - BigInt(settlement.settledAmount);
+    if (remaining.toString() !== signals[HYBRID_SIGNALS.remainingFlow]) {
+      errors.push("Remaining flow does not match the settlement");
+    }
+
+    const dualStateSignals = proof.dualStateProof.publicSignals;
+    const expected = await computeHybridHash(
+      dualStateSignals[DUAL_STATE_SIGNALS.commitment0],
+      dualStateSignals[DUAL_STATE_SIGNALS.commitment1],
+      settlement,
+    );
+    if (expected.toString() !== signals[HYBRID_SIGNALS.hybridHash]) {
+      errors.push("Hybrid hash does not commit to the enclosed proofs");
+    }
+  } catch (error) {
+    errors.push(`Malformed hybrid proof: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!(await verifyDualStateProof(proof.dualStateProof))) {
+    errors.push("Dual state proof verification failed");
+  }
+  if (!(await verifyQStreamProof(proof.streamProof))) {
+    errors.push("Stream proof verification failed");
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+    metadata: { hybridHash: signals[HYBRID_SIGNALS.hybridHash], merkleRoot: signals[HYBRID_SIGNALS.merkleRoot] },
+  };
+}
+
+async function verifyBindingProof(
+  bindingProof: string,
+  publicSignals: string[],
+  scheme: ProofSystem | undefined,
+  config: Partial<ProofConfig>,
+): Promise<boolean> {
+  if (isMockProof(bindingProof)) {
+    return isTestMode();
+  }
+  return verifyCircuitProof(HYBRID_CIRCUIT, { proof: bindingProof, publicSignals, scheme }, config);
+}
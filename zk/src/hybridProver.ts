@@ -2,22 +2,51 @@ import {
   DualStateProof,
   QStreamProof,
   HybridProof,
+  HybridSettlement,
+  SettlementProof,
   Stream,
   DualState,
+  ProofSystem,
   ValidationResult,
 } from "@syndual/core-types";
 import { ethers } from "ethers";
+import { resolveProofConfig } from "./artifacts";
+import { getProver } from "./backends";
+import { BenchmarkReport, BenchmarkResult, findBenchmark } from "./benchmarkReport";
+import {
+  HYBRID_CIRCUIT,
+  HYBRID_SIGNALS,
+  computeHybridHash,
+  streamProofSettlement,
+  verifyHybridBinding,
+} from "./hybridBinding";
+import { HYBRID_MERKLE_DEPTH, MerkleProof, PoseidonMerkleTree, toHybridMerkleInputs } from "./merkle";
+import { DUAL_STATE_CIRCUIT, DUAL_STATE_SIGNALS } from "./dualStateProver";
+import { createProofEnvelope } from "./envelope";
+import { MOCK_PROOF_PREFIX, isMockProof, isTestMode } from "./mode";
+import { ProofJobResult, ProverPool, ProveAllOptions } from "./proverPool";
+import { QSTREAM_CIRCUIT, QSTREAM_SIGNALS } from "./qStreamProver";
+import { generateSettlementProof } from "./settlementProver";
+import { debugHybridWitness } from "./witnessDebugger";
 
 /**
  * Advanced Hybrid Prover
  * 
  * Combines dual-state and quantum stream proofs for efficient batched verification
  * and supports complex protocol operations involving both state transitions and payments.
+ * Each hybrid proof is a `hybrid_proof.circom` proof binding its two component proofs.
  */
 
+/** Intrinsic gas of the transaction carrying the proofs */
+const TX_BASE_GAS = 21000;
+
 interface ProverConfig {
   circuitWasm: string;
   zkeyPath: string;
+  /** Verification key for binding proofs; resolved from the manifest when unset */
+  verificationKeyPath?: string;
+  /** Proof system of the binding proofs (default Groth16) */
+  backend?: ProofSystem;
   timeout?: number;
   debug?: boolean;
 }
@@ -33,8 +62,14 @@ interface HybridProverState {
 export class HybridProver {
   private config: ProverConfig;
   private proverState: HybridProverState;
-
-  constructor(config: ProverConfig) {
+  private merkleTree: Promise<PoseidonMerkleTree> | null = null;
+  /** Tree leaf of each batch proof; failed or concurrent proofs can leave gaps */
+  private leafIndices: number[] = [];
+
+  constructor(
+    config: ProverConfig,
+    private readonly pool?: ProverPool,
+  ) {
     this.config = config;
     this.proverState = {
       dualStates: [],
@@ -46,7 +81,16 @@ export class HybridProver {
   }
 
   /**
-   * Generates a hybrid proof combining dual-state and stream verification
+   * Proves `hybrid_proof.circom` over the two component proofs. The resulting
+   * `hybridHash` commits to the dual-state commitments and to the settlement
+   * the stream proof attests to, so neither proof can be swapped afterwards.
+   * The state0 commitment is appended to the batch tree and its inclusion is
+   * checked by the same proof.
+   *
+   * The settlement is read from the stream proof, at the time it was proved;
+   * that time must fall strictly inside the stream.
+   *
+   * @throws If `stream` is not the stream the stream proof is for
    */
   async generateHybridProof(
     dualState: DualState,
@@ -57,58 +101,81 @@ export class HybridProver {
     try {
       if (this.config.debug) {
         console.log("[HybridProver] Generating hybrid proof", {
-          dualStateId: dualState.hash,
+          dualStateId: dualState.hash?.value,
           streamFrom: stream.from,
           streamTo: stream.to,
         });
       }
 
-      // Combine public signals from both proofs
-      const combinedSignals = [
-        ...dualStateProof.publicSignals,
-        ...streamProof.publicSignals,
-        // Add stream metadata
-        stream.ratePerSecond.toString(),
-        stream.start.toString(),
-        stream.end.toString(),
-      ];
-
-      // Create hybrid proof ID from combined data
-      const hybridId = ethers.id(
-        JSON.stringify({
-          dualStateHash: dualState.hash,
-          streamFrom: stream.from,
-          streamTo: stream.to,
-          timestamp: Date.now(),
-        }),
-      );
+      const commitment0 = dualStateProof.publicSignals[DUAL_STATE_SIGNALS.commitment0];
+      const commitment1 = dualStateProof.publicSignals[DUAL_STATE_SIGNALS.commitment1];
+      const streamSignals = streamProof.publicSignals;
+      const settlement: HybridSettlement = streamProofSettlement(streamSignals);
+      if (
+        streamSignals[QSTREAM_SIGNALS.ratePerSecond] !== stream.ratePerSecond.toString() ||
+        streamSignals[QSTREAM_SIGNALS.streamStart] !== stream.start.toString() ||
+        streamSignals[QSTREAM_SIGNALS.streamEnd] !== stream.end.toString()
+      ) {
+        throw new Error("Stream proof was made for other stream terms");
+      }
+      const currentTime = streamSignals[QSTREAM_SIGNALS.currentTime];
+
+      const tree = await this.getMerkleTree();
+      const leafIndex = tree.insert(commitment0);
+      const input = {
+        state0Hash: commitment0,
+        state1Hash: commitment1,
+        streamAmount: settlement.streamAmount,
+        settledAmount: settlement.settledAmount,
+        streamStart: stream.start.toString(),
+        streamEnd: stream.end.toString(),
+        currentTime,
+        ...toHybridMerkleInputs(tree.getProof(leafIndex)),
+      };
 
+      // The circuit constrains isValid to 1, so an input failing a check cannot be proved
+      const binding = isTestMode()
+        ? await this.mockBindingProof(input, settlement)
+        : await this.proveBinding(input).catch(async (error) => {
+            throw new Error(await this.describeFailedChecks(input, error));
+          });
+      if (binding.publicSignals[HYBRID_SIGNALS.isValid] !== "1") {
+        throw new Error(await this.describeFailedChecks(input));
+      }
+
+      const hybridHash = BigInt(binding.publicSignals[HYBRID_SIGNALS.hybridHash]);
       const hybridProof: HybridProof = {
-        id: hybridId,
+        id: ethers.toBeHex(hybridHash, 32),
         dualStateProof,
         streamProof,
-        combinedSignals,
+        combinedSignals: binding.publicSignals,
+        bindingProof: binding.proof,
+        bindingScheme: isTestMode() ? undefined : getProver(this.config.backend).scheme,
+        settlement,
         timestamp: Date.now(),
-        verified: this.verifyProofSignatures(dualStateProof, streamProof),
+        verified: false,
       };
+      hybridProof.verified = (await verifyHybridBinding(hybridProof, this.config)).valid;
 
-      // Store in state for batch operations
       this.proverState.proofs.push(hybridProof);
-
+      this.leafIndices.push(leafIndex);
       return hybridProof;
     } catch (error) {
-      throw new Error(`Failed to generate hybrid proof: ${error}`);
+      throw new Error(`Failed to generate hybrid proof: ${error instanceof Error ? error.message : error}`);
     }
   }
 
   /**
-   * Generates a batch of hybrid proofs for multiple stream-state pairs
+   * Generates a batch of hybrid proofs for multiple stream-state pairs.
+   * With a prover pool, up to `pool.concurrency` items are in flight at once;
+   * results keep the input order.
    */
   async generateBatchProofs(
     dualStates: DualState[],
     streams: Stream[],
     dualStateProofs: DualStateProof[],
     streamProofs: QStreamProof[],
+    options: ProveAllOptions = {},
   ): Promise<HybridProof[]> {
     if (
       dualStates.length !== streams.length ||
@@ -118,82 +185,109 @@ export class HybridProver {
       throw new Error("Input arrays must have equal length");
     }
 
-    const proofs: HybridProof[] = [];
-
-    for (let i = 0; i < dualStates.length; i++) {
-      const proof = await this.generateHybridProof(
-        dualStates[i],
-        streams[i],
-        dualStateProofs[i],
-        streamProofs[i],
-      );
-      proofs.push(proof);
-    }
+    const total = dualStates.length;
+    const concurrency = this.pool?.concurrency ?? 1;
+    const proofs: HybridProof[] = new Array(total);
+    let nextIndex = 0;
+    let completed = 0;
+
+    const worker = async () => {
+      while (nextIndex < total) {
+        if (options.signal?.aborted) {
+          throw new Error("Hybrid batch aborted");
+        }
+        const i = nextIndex++;
+        proofs[i] = await this.generateHybridProof(dualStates[i], streams[i], dualStateProofs[i], streamProofs[i]);
+        completed++;
+        options.onProgress?.({
+          total,
+          completed,
+          failed: 0,
+          running: Math.min(concurrency, total - completed),
+        });
+      }
+    };
 
+    await Promise.all(Array.from({ length: Math.min(concurrency, total) }, worker));
     return proofs;
   }
 
   /**
-   * Computes a merkle root for all proofs in the current batch
+   * Computes the Poseidon Merkle root over the batch's state0 commitments,
+   * with the depth checked by `hybrid_proof.circom`
    */
-  computeMerkleRoot(): string {
-    if (this.proverState.proofs.length === 0) {
-      return ethers.keccak256("0x");
-    }
+  async computeMerkleRoot(): Promise<string> {
+    const tree = await this.getMerkleTree();
+    this.proverState.merkleRoot = ethers.toBeHex(tree.root, 32);
+    return this.proverState.merkleRoot;
+  }
 
-    let currentHashes = this.proverState.proofs.map((proof) =>
-      ethers.keccak256(ethers.toBeHex(proof.id)),
-    );
+  /**
+   * Inclusion proof for the proof at `index` in the current batch
+   */
+  async getMerkleProof(index: number): Promise<MerkleProof> {
+    if (index < 0 || index >= this.proverState.proofs.length) {
+      throw new Error(`No proof at batch index ${index}`);
+    }
+    const tree = await this.getMerkleTree();
+    return tree.getProof(this.leafIndices[index]);
+  }
 
-    while (currentHashes.length > 1) {
-      const nextLevel: string[] = [];
-      for (let i = 0; i < currentHashes.length; i += 2) {
-        const left = currentHashes[i];
-        const right = currentHashes[i + 1] || left;
-        const combined = ethers.keccak256(
-          ethers.concat([left, right]),
-        );
-        nextLevel.push(combined);
-      }
-      currentHashes = nextLevel;
+  private getMerkleTree(): Promise<PoseidonMerkleTree> {
+    if (!this.merkleTree) {
+      this.merkleTree = PoseidonMerkleTree.create(HYBRID_MERKLE_DEPTH);
     }
+    return this.merkleTree;
+  }
 
-    this.proverState.merkleRoot = currentHashes[0];
-    return this.proverState.merkleRoot;
+  private async proveBinding(input: Record<string, unknown>): Promise<ProofJobResult> {
+    const { scheme } = getProver(this.config.backend);
+    const job = { circuitWasm: this.config.circuitWasm, zkeyPath: this.config.zkeyPath, scheme, input };
+    if (this.pool) {
+      return this.pool.prove(job);
+    }
+    return getProver(scheme).fullProve(input, job.circuitWasm, job.zkeyPath);
   }
 
   /**
-   * Validates the cryptographic signatures in both proofs
+   * Names the hybrid circuit checks an input fails, read from its witness
+   *
+   * @param cause - Proving error to report when no check failed
    */
-  private verifyProofSignatures(
-    dualStateProof: DualStateProof,
-    streamProof: QStreamProof,
-  ): boolean {
+  private async describeFailedChecks(input: Record<string, unknown>, cause?: unknown): Promise<string> {
+    const fallback =
+      cause === undefined
+        ? "stream window, settled amount or Merkle path does not satisfy the hybrid circuit"
+        : `binding proof failed: ${cause instanceof Error ? cause.message : cause}`;
+    if (isTestMode()) {
+      return fallback;
+    }
     try {
-      // In production, this would verify actual ZK proof signatures
-      // For now, perform basic structural validation
-      if (!dualStateProof.proof || dualStateProof.proof.length === 0) {
-        return false;
-      }
-
-      if (!streamProof.proof || streamProof.proof.length === 0) {
-        return false;
-      }
-
-      if (!dualStateProof.publicSignals || dualStateProof.publicSignals.length === 0) {
-        return false;
-      }
-
-      if (!streamProof.publicSignals || streamProof.publicSignals.length === 0) {
-        return false;
-      }
-
-      return true;
+      const { signals } = await debugHybridWitness(input);
+      const failed = signals.filter((signal) => signal.value === "0").map((signal) => signal.name);
+      return failed.length > 0 ? `hybrid circuit checks failed: ${failed.join(", ")}` : fallback;
     } catch {
-      return false;
+      return fallback;
     }
   }
 
+  /**
+   * Computes the circuit outputs without proving, for test mode
+   */
+  private async mockBindingProof(
+    input: { streamStart: string; streamEnd: string; currentTime: string; state0Hash: string; state1Hash: string; merkleRoot: string },
+    settlement: HybridSettlement,
+  ): Promise<ProofJobResult> {
+    const currentTime = BigInt(input.currentTime);
+    const remaining = BigInt(settlement.streamAmount) - BigInt(settlement.settledAmount);
+    const isValid = BigInt(input.streamStart) < currentTime && currentTime < BigInt(input.streamEnd) && remaining >= 0n;
+    const hybridHash = await computeHybridHash(input.state0Hash, input.state1Hash, settlement);
+    return {
+      proof: `${MOCK_PROOF_PREFIX}hybrid-${hybridHash}`,
+      publicSignals: [hybridHash, isValid ? 1n : 0n, remaining, input.merkleRoot].map(String),
+    };
+  }
+
   /**
    * Validates a hybrid proof against multiple criteria
    */
@@ -214,7 +308,7 @@ export class HybridProver {
       errors.push("Stream proof is missing");
     }
 
-    if (!proof.combinedSignals || proof.combinedSignals.length < 4) {
+    if (!proof.combinedSignals || proof.combinedSignals.length !== 4) {
       errors.push("Combined signals are incomplete or missing");
     }
 
@@ -227,9 +321,10 @@ export class HybridProver {
       warnings.push("Proof is older than 1 hour");
     }
 
-    // Validate proofs
-    if (!this.verifyProofSignatures(proof.dualStateProof, proof.streamProof)) {
-      errors.push("Proof signatures are invalid");
+    // Validate the binding and both component proofs
+    if (proof.dualStateProof && proof.streamProof) {
+      const binding = await verifyHybridBinding(proof, this.config);
+      errors.push(...(binding.errors ?? []));
     }
 
     return {
@@ -247,10 +342,10 @@ export class HybridProver {
   /**
    * Gets the current batch state
    */
-  getBatchState(): HybridProverState {
+  async getBatchState(): Promise<HybridProverState> {
     return {
       ...this.proverState,
-      merkleRoot: this.computeMerkleRoot(),
+      merkleRoot: await this.computeMerkleRoot(),
     };
   }
 
@@ -258,6 +353,8 @@ export class HybridProver {
    * Resets the batch state for a new batch
    */
   resetBatch(): void {
+    this.merkleTree = null;
+    this.leafIndices = [];
     this.proverState = {
       dualStates: [],
       streams: [],
@@ -268,10 +365,12 @@ export class HybridProver {
   }
 
   /**
-   * Exports the current batch as serializable data
+   * Exports the current batch as serializable data. Each proof carries its
+   * binding, dual-state and stream proofs as proof envelopes; mock proofs
+   * have none.
    */
-  exportBatch(): string {
-    const state = this.getBatchState();
+  async exportBatch(): Promise<string> {
+    const state = await this.getBatchState();
     return JSON.stringify(
       {
         ...state,
@@ -280,6 +379,18 @@ export class HybridProver {
           timestamp: p.timestamp,
           verified: p.verified,
           signalCount: p.combinedSignals.length,
+          envelopes:
+            !p.bindingProof || isMockProof(p.bindingProof)
+              ? undefined
+              : {
+                  binding: createProofEnvelope(HYBRID_CIRCUIT, {
+                    proof: p.bindingProof,
+                    publicSignals: p.combinedSignals,
+                    timestamp: p.timestamp,
+                  }),
+                  dualState: createProofEnvelope(DUAL_STATE_CIRCUIT, p.dualStateProof),
+                  stream: createProofEnvelope(QSTREAM_CIRCUIT, p.streamProof),
+                },
         })),
       },
       null,
@@ -288,47 +399,35 @@ export class HybridProver {
   }
 
   /**
-   * Generates proof for settlement verification
+   * Proves that `settledAmount` is covered by what the stream has accrued at
+   * `currentTime`, keeping the stream terms private (see `generateSettlementProof`)
    */
   async generateSettlementProof(
     stream: Stream,
     settledAmount: bigint,
     currentTime: number,
-  ): Promise<QStreamProof & { settlementAmount: bigint }> {
-    const timeElapsed = BigInt(currentTime) - stream.start;
-    const expectedFlow = stream.ratePerSecond * timeElapsed;
-
-    if (settledAmount > expectedFlow) {
-      throw new Error("Settled amount exceeds expected flow");
-    }
-
-    return {
-      proof: ethers.id(
-        JSON.stringify({
-          stream,
-          settledAmount,
-          timestamp: currentTime,
-        }),
-      ),
-      publicSignals: [
-        expectedFlow.toString(),
-        settledAmount.toString(),
-        timeElapsed.toString(),
-      ],
-      timestamp: currentTime,
-      verified: settledAmount <= expectedFlow,
-      settlementAmount: settledAmount,
-    };
+    salt?: string,
+  ): Promise<SettlementProof> {
+    return generateSettlementProof(stream, settledAmount, currentTime, salt);
   }
 
   /**
-   * Computes the size and complexity of proof operations
+   * Computes the size and complexity of proof operations. With a report from
+   * `runBenchmarks`, gas and proving time come from the measured hybrid,
+   * dual-state and Q-Stream circuits, since verifying a hybrid proof verifies
+   * all three; without one, gas is a rough guess.
+   *
+   * @throws If `benchmark` has no result for one of those circuits
    */
-  getProofComplexity(): {
+  getProofComplexity(benchmark?: BenchmarkReport): {
     proofCount: number;
     totalSignals: number;
     estimatedGas: number;
     merkleDepth: number;
+    /** Constraints proved per hybrid proof; only with a benchmark report */
+    constraints?: number;
+    /** Witness and proving time of every proof in the batch; only with a benchmark report */
+    provingTimeMs?: number;
   } {
     const proofCount = this.proverState.proofs.length;
     const totalSignals = this.proverState.proofs.reduce(
@@ -337,6 +436,28 @@ export class HybridProver {
     );
     const merkleDepth = Math.ceil(Math.log2(Math.max(proofCount, 1)));
 
+    if (benchmark) {
+      const measured = [HYBRID_CIRCUIT, DUAL_STATE_CIRCUIT, QSTREAM_CIRCUIT].map((circuit) => {
+        const result = findBenchmark(benchmark, circuit);
+        if (!result) {
+          throw new Error(`Benchmark report has no ${circuit} result`);
+        }
+        return result;
+      });
+      const perProof = (value: (result: BenchmarkResult) => number) =>
+        measured.reduce((sum, result) => sum + value(result), 0);
+
+      return {
+        proofCount,
+        totalSignals,
+        // Calldata of the signals is part of each circuit's verification gas
+        estimatedGas: TX_BASE_GAS + proofCount * perProof((result) => result.verificationGas),
+        merkleDepth,
+        constraints: perProof((result) => result.constraints),
+        provingTimeMs: proofCount * perProof((result) => result.witness.averageMs + result.proving.averageMs),
+      };
+    }
+
     // Rough gas estimates for verification
     const baseGas = 25000;
     const perProofGas = 100000;
@@ -353,15 +474,28 @@ export class HybridProver {
 }
 
 /**
- * Utility function to create and configure a hybrid prover
+ * Utility function to create and configure a hybrid prover. With a pool from
+ * `createProverPool` (`@syndual/zk/node`), binding proofs are proved on its
+ * worker threads.
  */
-export function createHybridProver(config: Partial<ProverConfig> = {}): HybridProver {
+export function createHybridProver(config: Partial<ProverConfig> = {}, pool?: ProverPool): HybridProver {
+  const overrides: Partial<ProverConfig> = {
+    circuitWasm: process.env.CIRCUIT_WASM,
+    zkeyPath: process.env.ZKEY_PATH,
+    ...config,
+  };
+  const artifacts: ProverConfig =
+    overrides.circuitWasm && overrides.zkeyPath
+      ? { circuitWasm: overrides.circuitWasm, zkeyPath: overrides.zkeyPath }
+      : resolveProofConfig(HYBRID_CIRCUIT, { backend: overrides.backend });
+
   const defaultConfig: ProverConfig = {
-    circuitWasm: process.env.CIRCUIT_WASM || "./circuits/hybrid_proof.wasm",
-    zkeyPath: process.env.ZKEY_PATH || "./circuits/hybrid_proof.zkey",
+    circuitWasm: artifacts.circuitWasm,
+    zkeyPath: artifacts.zkeyPath,
+    verificationKeyPath: artifacts.verificationKeyPath,
     timeout: 30000,
     debug: process.env.DEBUG_PROVER === "true",
   };
 
-  return new HybridProver({ ...defaultConfig, ...config });
+  return new HybridProver({ ...defaultConfig, ...config }, pool);
 }
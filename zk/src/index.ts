@@ -1,7 +1,150 @@
-export { generateDualStateProof, verifyDualStateProof } from "./dualStateProver";
-export { generateQStreamProof, verifyQStreamProof } from "./qStreamProver";
+// Kept in the emitted index.d.ts, so consumers of the build get these module declarations
+/* eslint-disable @typescript-eslint/triple-slash-reference */
+/// <reference path="./types/circomlibjs.d.ts" preserve="true" />
+/// <reference path="./types/snarkjs.d.ts" preserve="true" />
+/// <reference path="./types/webassembly.d.ts" preserve="true" />
+/* eslint-enable @typescript-eslint/triple-slash-reference */
+
+/**
+ * Provers, verifiers and proof formats. The only Node module used here is
+ * `fs`, to read circuit artifacts (the manifest, verification keys); it is
+ * left out of browser bundles (`browser` in package.json), so browsers pass
+ * every artifact URL in the `ProofConfig` and verify on a server. Node-only
+ * tooling is in `@syndual/zk/node`.
+ */
+
+export {
+  generateDualStateProof,
+  generateDualStateProofs,
+  verifyDualStateProof,
+  DUAL_STATE_CIRCUIT,
+  DUAL_STATE_SIGNALS,
+  DualStateProofContext,
+  DualStateProofOutcome,
+  DualStateProofRequest,
+} from "./dualStateProver";
+export {
+  QSTREAM_CIRCUIT,
+  QSTREAM_SIGNALS,
+  QStreamProofContext,
+  generateQStreamProof,
+  verifyQStreamProof,
+} from "./qStreamProver";
+export {
+  NullifierSet,
+  computeDualStateNullifier,
+  computeQStreamNullifier,
+  computeQStreamSecretCommitment,
+  proofNullifier,
+} from "./nullifier";
+export {
+  SETTLEMENT_CIRCUIT,
+  computeStreamCommitment,
+  generateSettlementProof,
+  verifySettlementProof,
+} from "./settlementProver";
+export {
+  DualStateRollup,
+  ROLLUP_BATCH_SIZE,
+  ROLLUP_CIRCUIT,
+  ROLLUP_MERKLE_DEPTH,
+  rollupLeafIndex,
+  verifyRollupProof,
+} from "./rollup";
+export {
+  STREAM_BATCH_CIRCUIT,
+  STREAM_BATCH_SIZE,
+  StreamBatchEntry,
+  generateStreamBatchProof,
+  getSettlementMerkleProof,
+  verifyStreamBatchProof,
+} from "./streamBatch";
+export {
+  KeyVerificationResult,
+  KeyVerifier,
+  RegisterKeyOptions,
+  VerificationKeyRegistry,
+  VerificationKeyStatus,
+  getVerificationKeyRegistry,
+  setVerificationKeyRegistry,
+} from "./keyRegistry";
+export { AGGREGATABLE_PROOF_TYPES, aggregateProofs, verifyAggregateProof } from "./aggregation";
 export { HybridProver, createHybridProver } from "./hybridProver";
-export * from "./testUtils";
+export {
+  HYBRID_CIRCUIT,
+  HYBRID_SIGNALS,
+  computeHybridHash,
+  streamProofSettledAmount,
+  streamProofSettlement,
+  verifyHybridBinding,
+} from "./hybridBinding";
+export {
+  BENCHMARK_REPORT_VERSION,
+  BenchmarkChange,
+  BenchmarkParams,
+  BenchmarkReport,
+  BenchmarkResult,
+  TimingStats,
+  compareBenchmarks,
+  estimateVerificationGas,
+  findBenchmark,
+} from "./benchmarkReport";
+export { enableTestMode, disableTestMode, isTestMode, isMockProof } from "./mode";
+export { SNARK_SCALAR_FIELD, assertUintBits, keyToField, toFieldElement } from "./field";
+export { commitDualState, poseidonCommit, randomSalt } from "./commitment";
+export { poseidonHash } from "./poseidon";
+export {
+  HYBRID_MERKLE_DEPTH,
+  HybridMerkleInputs,
+  MerkleProof,
+  PoseidonMerkleTree,
+  toHybridMerkleInputs,
+} from "./merkle";
+export {
+  DEFAULT_PROOF_SYSTEM,
+  Prover,
+  ProverResult,
+  getProver,
+  proveCircuit,
+  verifyCircuitProof,
+} from "./backends";
+export {
+  PROOF_ENVELOPE_VERSION,
+  createProofEnvelope,
+  decodeProofEnvelope,
+  encodeProofEnvelope,
+  envelopeToCalldata,
+  envelopeToSnarkjs,
+  parseProofEnvelope,
+  serializeProofEnvelope,
+  verifyProofEnvelope,
+} from "./envelope";
+export {
+  VerifierCalldata,
+  encodeFflonkProof,
+  encodeGroth16Proof,
+  encodePlonkProof,
+  encodeProof,
+  proofSystemOf,
+  toVerifierCalldata,
+} from "./calldata";
+export {
+  ArtifactEntry,
+  ArtifactManifest,
+  BackendArtifacts,
+  CircuitManifestEntry,
+  DEFAULT_MANIFEST_PATH,
+  MANIFEST_VERSION,
+  UniversalProofSystem,
+  clearManifestCache,
+  getBackendArtifacts,
+  getCircuitArtifacts,
+  loadManifest,
+  loadVerificationKey,
+  resolveArtifactPath,
+  resolveProofConfig,
+  verifyManifest,
+} from "./artifacts";
 
 // Version info
 export const ZK_MODULE_VERSION = "1.0.0";
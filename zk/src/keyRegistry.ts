@@ -0,0 +1,308 @@
+import { ProofConfig, ProofEnvelope, ProofSystem, VerificationKeyRecord } from "@syndual/core-types";
+import {
+  DEFAULT_MANIFEST_PATH,
+  getBackendArtifacts,
+  getCircuitArtifacts,
+  hashFile,
+  loadManifest,
+  resolveArtifactPath,
+} from "./artifacts";
+import { DEFAULT_PROOF_SYSTEM, verifyCircuitProof } from "./backends";
+import { proofSystemOf } from "./calldata";
+import { envelopeToSnarkjs } from "./envelope";
+
+/**
+ * Verification Key Registry
+ *
+ * Each circuit keeps numbered versions of its verification key with an
+ * activation and an optional expiry time (unix seconds). `rotate` registers
+ * the next version and lets the keys it replaces expire after an overlap
+ * window, during which proofs made with either key are accepted; a proof
+ * that only verifies under a retired key is rejected. The records mirror
+ * `VerificationKeyRegistry.sol`, which applies the same rules on-chain.
+ */
+
+export type VerificationKeyStatus = "pending" | "active" | "retired";
+
+export interface RegisterKeyOptions {
+  scheme?: ProofSystem;
+  /** bytes32; read from `verificationKeyPath` when omitted */
+  vkeyHash?: string;
+  verificationKeyPath?: string;
+  /** Defaults to now */
+  activatesAt?: number;
+  expiresAt?: number;
+}
+
+export interface KeyVerificationResult {
+  valid: boolean;
+  /** Key the proof verified under, also set when that key is not active */
+  key?: VerificationKeyRecord;
+  error?: string;
+}
+
+/** Checks a proof against one key; defaults to `verifyCircuitProof` */
+export type KeyVerifier = (config: Partial<ProofConfig>) => Promise<boolean>;
+
+export class VerificationKeyRegistry {
+  private readonly keys = new Map<string, VerificationKeyRecord[]>();
+
+  constructor(records: VerificationKeyRecord[] = []) {
+    const ordered = [...records].sort((a, b) => a.version - b.version);
+    for (const record of ordered) {
+      const versions = this.keys.get(record.circuitId) ?? [];
+      if (record.version !== versions.length + 1) {
+        throw new Error(`${record.circuitId} key versions must count up from 1`);
+      }
+      this.add({ ...record });
+    }
+  }
+
+  /**
+   * Registers the Groth16 key and every universal-setup key of each circuit
+   * in the build manifest as its first versions, active from `activatesAt`
+   */
+  static fromManifest(manifestPath: string = DEFAULT_MANIFEST_PATH, activatesAt = 0): VerificationKeyRegistry {
+    const registry = new VerificationKeyRegistry();
+    for (const [circuitId, entry] of Object.entries(loadManifest(manifestPath).circuits)) {
+      const schemes = [ProofSystem.GROTH16, ...(Object.keys(entry.backends ?? {}) as ProofSystem[])];
+      for (const scheme of schemes) {
+        const { verificationKey } = getBackendArtifacts(entry, scheme);
+        registry.register(circuitId, {
+          scheme,
+          vkeyHash: `0x${verificationKey.sha256}`,
+          verificationKeyPath: resolveArtifactPath(verificationKey, manifestPath),
+          activatesAt,
+        });
+      }
+    }
+    return registry;
+  }
+
+  /**
+   * Adds the next version of `circuitId`'s key
+   *
+   * @throws If the key is already registered or expires before it activates
+   */
+  register(circuitId: string, options: RegisterKeyOptions): VerificationKeyRecord {
+    const vkeyHash =
+      options.vkeyHash ?? (options.verificationKeyPath && `0x${hashFile(options.verificationKeyPath)}`);
+    if (!vkeyHash) {
+      throw new Error("A verification key needs a vkeyHash or a verificationKeyPath");
+    }
+    return this.add({
+      circuitId,
+      version: (this.keys.get(circuitId)?.length ?? 0) + 1,
+      scheme: options.scheme ?? DEFAULT_PROOF_SYSTEM,
+      vkeyHash,
+      verificationKeyPath: options.verificationKeyPath,
+      activatesAt: options.activatesAt ?? now(),
+      expiresAt: options.expiresAt,
+    });
+  }
+
+  /**
+   * Registers the next key of `circuitId` and expires the keys it replaces
+   * `overlap` seconds after the new key activates
+   *
+   * @throws If the circuit has no key yet
+   */
+  rotate(circuitId: string, options: RegisterKeyOptions, overlap: number): VerificationKeyRecord {
+    const previous = this.list(circuitId);
+    if (previous.length === 0) {
+      throw new Error(`${circuitId} has no key to rotate`);
+    }
+    const activatesAt = options.activatesAt ?? now();
+    const expiresAt = activatesAt + overlap;
+    const next = this.register(circuitId, { ...options, activatesAt });
+    for (const record of previous) {
+      if (record.expiresAt === undefined || record.expiresAt > expiresAt) {
+        record.expiresAt = expiresAt;
+      }
+    }
+    return next;
+  }
+
+  /**
+   * Expires a key at `at` (default now), e.g. after its setup was compromised
+   *
+   * @throws If the key is unknown or already retired
+   */
+  retire(circuitId: string, version: number, at: number = now()): VerificationKeyRecord {
+    const record = this.get(circuitId, version);
+    if (!record) {
+      throw new Error(`Unknown ${circuitId} key version ${version}`);
+    }
+    if (this.status(record, at) === "retired") {
+      throw new Error(`${circuitId} key version ${version} is already retired`);
+    }
+    record.expiresAt = at;
+    return record;
+  }
+
+  get(circuitId: string, version: number): VerificationKeyRecord | undefined {
+    return this.keys.get(circuitId)?.[version - 1];
+  }
+
+  findByHash(vkeyHash: string): VerificationKeyRecord | undefined {
+    const hash = vkeyHash.toLowerCase();
+    return this.list().find((record) => record.vkeyHash === hash);
+  }
+
+  /**
+   * Keys of `circuitId`, or of every circuit, oldest first
+   */
+  list(circuitId?: string): VerificationKeyRecord[] {
+    if (circuitId !== undefined) {
+      return [...(this.keys.get(circuitId) ?? [])];
+    }
+    return [...this.keys.values()].flat();
+  }
+
+  status(record: VerificationKeyRecord, at: number = now()): VerificationKeyStatus {
+    if (at < record.activatesAt) {
+      return "pending";
+    }
+    return record.expiresAt !== undefined && at >= record.expiresAt ? "retired" : "active";
+  }
+
+  /**
+   * Active keys of `circuitId` at `at`, newest first
+   */
+  activeKeys(circuitId: string, at: number = now()): VerificationKeyRecord[] {
+    return this.list(circuitId)
+      .filter((record) => this.status(record, at) === "active")
+      .reverse();
+  }
+
+  /**
+   * Verifies a snarkjs proof against the active keys of `circuitId` for its
+   * proof system, newest first. If none accepts it, the inactive keys are
+   * tried so the result can say the proof was made with a retired key.
+   */
+  async verifyProof(
+    circuitId: string,
+    proof: { proof: string; publicSignals: string[]; scheme?: ProofSystem },
+    options: { at?: number; verify?: KeyVerifier } = {},
+  ): Promise<KeyVerificationResult> {
+    let scheme: ProofSystem;
+    try {
+      scheme = proofSystemOf(proof.proof);
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    const at = options.at ?? now();
+    const verify = options.verify ?? ((config) => verifyCircuitProof(circuitId, proof, config));
+    const candidates = this.list(circuitId)
+      .filter((record) => record.scheme === scheme)
+      .reverse();
+    const active = candidates.filter((record) => this.status(record, at) === "active");
+
+    for (const record of [...active, ...candidates.filter((candidate) => !active.includes(candidate))]) {
+      const verificationKeyPath = this.keyPath(record);
+      if (!verificationKeyPath || !(await verify({ backend: scheme, verificationKeyPath }))) {
+        continue;
+      }
+      const status = this.status(record, at);
+      return status === "active"
+        ? { valid: true, key: record }
+        : { valid: false, key: record, error: inactiveKeyError(record, status) };
+    }
+    if (active.length === 0) {
+      return { valid: false, error: `No active ${scheme} verification key for ${circuitId}` };
+    }
+    return { valid: false, error: "Proof verification failed" };
+  }
+
+  /**
+   * Verifies an envelope under the key named by its `vkeyHash`, which must
+   * be registered for the envelope's circuit and active at `at`
+   */
+  async verifyEnvelope(envelope: ProofEnvelope, at: number = now()): Promise<KeyVerificationResult> {
+    const record = this.findByHash(envelope.vkeyHash);
+    if (!record || record.circuitId !== envelope.circuitId || record.scheme !== envelope.scheme) {
+      return { valid: false, error: `Unknown ${envelope.circuitId} verification key ${envelope.vkeyHash}` };
+    }
+    const status = this.status(record, at);
+    if (status !== "active") {
+      return { valid: false, key: record, error: inactiveKeyError(record, status) };
+    }
+    const verificationKeyPath = this.keyPath(record);
+    let valid = false;
+    if (verificationKeyPath) {
+      try {
+        valid = await verifyCircuitProof(record.circuitId, envelopeToSnarkjs(envelope), { verificationKeyPath });
+      } catch {
+        valid = false;
+      }
+    }
+    return valid ? { valid, key: record } : { valid, key: record, error: "Proof verification failed" };
+  }
+
+  /**
+   * Records as plain JSON, e.g. to persist the registry
+   */
+  toJSON(): VerificationKeyRecord[] {
+    return this.list().map((record) => ({ ...record }));
+  }
+
+  private add(record: VerificationKeyRecord): VerificationKeyRecord {
+    record.vkeyHash = record.vkeyHash.toLowerCase();
+    if (!/^0x[0-9a-f]{64}$/.test(record.vkeyHash)) {
+      throw new Error("vkeyHash must be bytes32 hex");
+    }
+    if (this.findByHash(record.vkeyHash)) {
+      throw new Error(`Verification key ${record.vkeyHash} is already registered`);
+    }
+    if (record.expiresAt !== undefined && record.expiresAt <= record.activatesAt) {
+      throw new Error("A verification key must expire after it activates");
+    }
+    const versions = this.keys.get(record.circuitId) ?? [];
+    versions.push(record);
+    this.keys.set(record.circuitId, versions);
+    return record;
+  }
+
+  /**
+   * Key file of a record: its own path, or the manifest's key when that is
+   * the same key. Undefined when no file matching `vkeyHash` is known.
+   */
+  private keyPath(record: VerificationKeyRecord): string | undefined {
+    if (record.verificationKeyPath) {
+      return record.verificationKeyPath;
+    }
+    try {
+      const { verificationKey } = getBackendArtifacts(getCircuitArtifacts(record.circuitId), record.scheme);
+      return `0x${verificationKey.sha256}` === record.vkeyHash ? resolveArtifactPath(verificationKey) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+let defaultRegistry: VerificationKeyRegistry | undefined;
+
+/**
+ * Registry used by proof validation; built from the build manifest on first
+ * use, with every key active and without expiry
+ */
+export function getVerificationKeyRegistry(): VerificationKeyRegistry {
+  defaultRegistry ??= VerificationKeyRegistry.fromManifest();
+  return defaultRegistry;
+}
+
+/**
+ * Replaces the registry used by proof validation; pass undefined to go back
+ * to the manifest's keys
+ */
+export function setVerificationKeyRegistry(registry: VerificationKeyRegistry | undefined): void {
+  defaultRegistry = registry;
+}
+
+function inactiveKeyError(record: VerificationKeyRecord, status: VerificationKeyStatus): string {
+  return `Proof was made with ${status} ${record.circuitId} key version ${record.version}`;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
@@ -0,0 +1,187 @@
+import type { Poseidon } from "circomlibjs";
+import { toFieldElement } from "./field";
+import { getPoseidon } from "./poseidon";
+
+/**
+ * Sparse Poseidon Merkle Tree
+ *
+ * Fixed-depth binary tree hashed with Poseidon(2), matching the path check in
+ * `hybrid_proof.circom`: at level i, bit i of the leaf index selects whether
+ * the current node is the right (1) or left (0) child. Empty leaves are 0 and
+ * only non-empty nodes are stored, so a depth-16 tree costs memory in
+ * proportion to its leaves.
+ */
+
+/** Depth of the Merkle path checked by `hybrid_proof.circom` */
+export const HYBRID_MERKLE_DEPTH = 16;
+
+export interface MerkleProof {
+  leaf: bigint;
+  leafIndex: number;
+  /** Sibling hashes from the leaf level up to just below the root */
+  siblings: bigint[];
+  root: bigint;
+}
+
+/**
+ * Merkle inputs of the `HybridProof` circuit, as decimal strings
+ */
+export interface HybridMerkleInputs {
+  merkleProof: string[];
+  leafIndex: string;
+  merkleRoot: string;
+}
+
+export class PoseidonMerkleTree {
+  private readonly nodes = new Map<string, bigint>();
+  private readonly zeros: bigint[];
+  private nextIndex = 0;
+
+  private constructor(
+    private readonly poseidon: Poseidon,
+    readonly depth: number,
+  ) {
+    this.zeros = [0n];
+    for (let level = 0; level < depth; level++) {
+      this.zeros.push(this.hash(this.zeros[level], this.zeros[level]));
+    }
+  }
+
+  /**
+   * Creates an empty tree, optionally pre-filled with leaves
+   */
+  static async create(
+    depth: number = HYBRID_MERKLE_DEPTH,
+    leaves: (bigint | string)[] = [],
+  ): Promise<PoseidonMerkleTree> {
+    // Indices are handled with 32-bit bitwise operators
+    if (!Number.isInteger(depth) || depth < 1 || depth > 31) {
+      throw new Error(`Unsupported Merkle depth ${depth}`);
+    }
+    const tree = new PoseidonMerkleTree(await getPoseidon(), depth);
+    tree.insertMany(leaves);
+    return tree;
+  }
+
+  get capacity(): number {
+    return 2 ** this.depth;
+  }
+
+  /** Number of leaf slots filled by `insert` */
+  get size(): number {
+    return this.nextIndex;
+  }
+
+  get root(): bigint {
+    return this.getNode(this.depth, 0);
+  }
+
+  /**
+   * Appends a leaf at the next free index and returns that index
+   */
+  insert(leaf: bigint | string): number {
+    if (this.nextIndex >= this.capacity) {
+      throw new Error(`Merkle tree of depth ${this.depth} is full`);
+    }
+    const index = this.nextIndex;
+    this.update(index, leaf);
+    return index;
+  }
+
+  insertMany(leaves: (bigint | string)[]): number[] {
+    return leaves.map((leaf) => this.insert(leaf));
+  }
+
+  /**
+   * Sets the leaf at `index` and recomputes only the path above it
+   */
+  update(index: number, leaf: bigint | string): void {
+    this.checkIndex(index);
+    let value = toFieldElement(leaf);
+    let position = index;
+    this.setNode(0, position, value);
+
+    for (let level = 0; level < this.depth; level++) {
+      const isRight = position & 1;
+      const sibling = this.getNode(level, position ^ 1);
+      value = isRight ? this.hash(sibling, value) : this.hash(value, sibling);
+      position >>= 1;
+      this.setNode(level + 1, position, value);
+    }
+
+    this.nextIndex = Math.max(this.nextIndex, index + 1);
+  }
+
+  getLeaf(index: number): bigint {
+    this.checkIndex(index);
+    return this.getNode(0, index);
+  }
+
+  /**
+   * Builds the inclusion proof for the leaf at `index` (empty slots prove the zero leaf)
+   */
+  getProof(index: number): MerkleProof {
+    this.checkIndex(index);
+    const siblings: bigint[] = [];
+    let position = index;
+    for (let level = 0; level < this.depth; level++) {
+      siblings.push(this.getNode(level, position ^ 1));
+      position >>= 1;
+    }
+    return { leaf: this.getNode(0, index), leafIndex: index, siblings, root: this.root };
+  }
+
+  /**
+   * Recomputes the root from a proof and compares it with the proof's root
+   */
+  verifyProof(proof: MerkleProof): boolean {
+    if (proof.siblings.length !== this.depth) {
+      return false;
+    }
+    let value = proof.leaf;
+    for (let level = 0; level < this.depth; level++) {
+      const isRight = (proof.leafIndex >> level) & 1;
+      const sibling = proof.siblings[level];
+      value = isRight ? this.hash(sibling, value) : this.hash(value, sibling);
+    }
+    return value === proof.root;
+  }
+
+  private hash(left: bigint, right: bigint): bigint {
+    return this.poseidon.F.toObject(this.poseidon([left, right]));
+  }
+
+  private getNode(level: number, index: number): bigint {
+    return this.nodes.get(`${level}:${index}`) ?? this.zeros[level];
+  }
+
+  private setNode(level: number, index: number, value: bigint): void {
+    const key = `${level}:${index}`;
+    if (value === this.zeros[level]) {
+      this.nodes.delete(key);
+    } else {
+      this.nodes.set(key, value);
+    }
+  }
+
+  private checkIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.capacity) {
+      throw new Error(`Leaf index ${index} is outside a tree of depth ${this.depth}`);
+    }
+  }
+}
+
+/**
+ * Formats an inclusion proof as the `merkleProof`, `leafIndex` and `merkleRoot`
+ * inputs of `hybrid_proof.circom` (the leaf itself goes in `state0Hash`)
+ */
+export function toHybridMerkleInputs(proof: MerkleProof): HybridMerkleInputs {
+  if (proof.siblings.length !== HYBRID_MERKLE_DEPTH) {
+    throw new Error(`Hybrid circuit expects a depth-${HYBRID_MERKLE_DEPTH} proof, got ${proof.siblings.length}`);
+  }
+  return {
+    merkleProof: proof.siblings.map(String),
+    leafIndex: proof.leafIndex.toString(),
+    merkleRoot: proof.root.toString(),
+  };
+}
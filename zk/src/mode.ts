@@ -0,0 +1,32 @@
+/**
+ * Prover mode switch
+ *
+ * Mock proofs are only produced and accepted while test mode is explicitly
+ * enabled. Outside test mode every proof goes through snarkjs.
+ */
+
+export const MOCK_PROOF_PREFIX = "mock:";
+
+let testMode = false;
+
+/**
+ * Enables mock proving and verification. Refuses to run in production.
+ */
+export function enableTestMode(): void {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("ZK test mode cannot be enabled when NODE_ENV=production");
+  }
+  testMode = true;
+}
+
+export function disableTestMode(): void {
+  testMode = false;
+}
+
+export function isTestMode(): boolean {
+  return testMode;
+}
+
+export function isMockProof(proof: string): boolean {
+  return proof.startsWith(MOCK_PROOF_PREFIX);
+}
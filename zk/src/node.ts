@@ -0,0 +1,34 @@
+/**
+ * Node-only tooling: proving on worker threads, compiling and benchmarking
+ * circuits, witness debugging and test data. Kept out of the main entry so
+ * browser bundles of `@syndual/zk` (and of the SDK) do not pull in
+ * `child_process` or `worker_threads`.
+ */
+
+export {
+  ProofJob,
+  ProofJobOutcome,
+  ProofJobResult,
+  ProveAllOptions,
+  ProveOptions,
+  ProverPool,
+  ProverPoolOptions,
+  ProverPoolProgress,
+  createProverPool,
+} from "./proverPool";
+export {
+  AssertionFailure,
+  CircuitFiles,
+  ConstraintViolation,
+  DebugWitnessOptions,
+  HYBRID_CHECK_SIGNALS,
+  SignalValue,
+  WitnessReport,
+  clearWitnessDebugCache,
+  debugHybridWitness,
+  debugWitness,
+  formatWitnessReport,
+} from "./witnessDebugger";
+export { CircuitHarness, CircuitHarnessOptions } from "./circuitHarness";
+export { BenchmarkOptions, loadBenchmarkReport, runBenchmarks } from "./benchmark";
+export * from "./testUtils";
@@ -0,0 +1,117 @@
+import { ethers } from "ethers";
+import { DUAL_STATE_CIRCUIT, DUAL_STATE_SIGNALS } from "./dualStateProver";
+import { keyToField, toFieldElement } from "./field";
+import { poseidonHash } from "./poseidon";
+import { QSTREAM_CIRCUIT, QSTREAM_SIGNALS } from "./qStreamProver";
+
+/**
+ * Nullifiers
+ *
+ * `dual_state` and `qstream_settle` output a nullifier derived from a secret
+ * and the context the proof is for:
+ *   dual_state      Poseidon(salt0, salt1, key, epoch)
+ *   qstream_settle  Poseidon(nullifierSecret, streamId, withdrawn)
+ * The Q-Stream secret is bound to its stream by the commitment
+ * Poseidon(nullifierSecret) stored at `createStream`, and the nullifier follows
+ * the stream's withdrawn amount, so each payout state of a stream yields
+ * exactly one nullifier.
+ * Consumers record nullifiers as proofs are used and refuse any proof whose
+ * nullifier was seen before, so a proof unlocks a payment or finalization
+ * at most once. The contracts keep the same set on-chain.
+ */
+
+/**
+ * Mirrors the `dual_state` nullifier; `key` is the DualStateEngine key (bytes32)
+ */
+export async function computeDualStateNullifier(
+  salts: { salt0: string | bigint; salt1: string | bigint },
+  key: string,
+  epoch: number | bigint,
+): Promise<bigint> {
+  return poseidonHash([toFieldElement(salts.salt0), toFieldElement(salts.salt1), keyToField(key), BigInt(epoch)]);
+}
+
+/**
+ * Mirrors the `qstream_settle` nullifier; `withdrawn` is the stream's withdrawn amount the proof is made against
+ */
+export async function computeQStreamNullifier(
+  secret: string | bigint,
+  streamId: number | bigint,
+  withdrawn: number | bigint,
+): Promise<bigint> {
+  return poseidonHash([toFieldElement(secret), toFieldElement(BigInt(streamId)), toFieldElement(BigInt(withdrawn))]);
+}
+
+/**
+ * Commitment to a Q-Stream secret, passed to `QStreamPayments.createStream`. Use a
+ * fresh secret per stream so streams cannot be linked by their commitments.
+ */
+export async function computeQStreamSecretCommitment(secret: string | bigint): Promise<bigint> {
+  return poseidonHash([toFieldElement(secret)]);
+}
+
+/**
+ * Reads the nullifier of a proof of `circuitId` as bytes32, the form the contracts store
+ *
+ * @throws If the circuit has no nullifier or the signals are missing it
+ */
+export function proofNullifier(circuitId: string, publicSignals: string[]): string {
+  const index =
+    circuitId === DUAL_STATE_CIRCUIT
+      ? DUAL_STATE_SIGNALS.nullifier
+      : circuitId === QSTREAM_CIRCUIT
+        ? QSTREAM_SIGNALS.nullifier
+        : undefined;
+  if (index === undefined) {
+    throw new Error(`Circuit ${circuitId} has no nullifier`);
+  }
+  if (publicSignals[index] === undefined) {
+    throw new Error(`Proof has no ${circuitId} nullifier`);
+  }
+  return ethers.toBeHex(toFieldElement(publicSignals[index]), 32);
+}
+
+/**
+ * In-memory set of consumed nullifiers. `consume` checks and records in one
+ * synchronous step, so concurrent consumers cannot both accept the same proof.
+ */
+export class NullifierSet {
+  private readonly used = new Set<string>();
+
+  constructor(nullifiers: Iterable<string> = []) {
+    for (const nullifier of nullifiers) {
+      this.used.add(normalize(nullifier));
+    }
+  }
+
+  get size(): number {
+    return this.used.size;
+  }
+
+  has(nullifier: string | bigint): boolean {
+    return this.used.has(normalize(nullifier));
+  }
+
+  /**
+   * Records `nullifier`, returning false if it was already consumed
+   */
+  consume(nullifier: string | bigint): boolean {
+    const value = normalize(nullifier);
+    if (this.used.has(value)) {
+      return false;
+    }
+    this.used.add(value);
+    return true;
+  }
+
+  /**
+   * Nullifiers consumed so far as bytes32, e.g. to persist the set
+   */
+  values(): string[] {
+    return [...this.used];
+  }
+}
+
+function normalize(nullifier: string | bigint): string {
+  return ethers.toBeHex(toFieldElement(nullifier), 32);
+}
@@ -0,0 +1,26 @@
+import { buildPoseidon } from "circomlibjs";
+import type { Poseidon } from "circomlibjs";
+
+/**
+ * Shared Poseidon instance matching circomlib's `Poseidon(n)` templates
+ */
+
+let poseidonInstance: Promise<Poseidon> | null = null;
+
+/**
+ * Builds circomlibjs Poseidon once and reuses it
+ */
+export function getPoseidon(): Promise<Poseidon> {
+  if (!poseidonInstance) {
+    poseidonInstance = buildPoseidon();
+  }
+  return poseidonInstance;
+}
+
+/**
+ * Hashes field elements with Poseidon, returning the digest as a field element
+ */
+export async function poseidonHash(inputs: bigint[]): Promise<bigint> {
+  const poseidon = await getPoseidon();
+  return poseidon.F.toObject(poseidon(inputs));
+}
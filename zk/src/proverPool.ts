@@ -0,0 +1,361 @@
+import os from "os";
+import path from "path";
+import { Worker } from "worker_threads";
+import { ProofConfig, ProofSystem } from "@syndual/core-types";
+import { ProverWorkerRequest, ProverWorkerResponse } from "./proverWorker";
+
+/**
+ * Worker-thread Prover Pool
+ *
+ * Runs snarkjs proving off the main thread with bounded concurrency.
+ * Jobs beyond the running ones wait in a bounded queue; `prove` rejects when
+ * the queue is full and `proveAll` only pulls new jobs from its source as
+ * slots free up, so large batches neither block the event loop nor sit in
+ * memory all at once.
+ */
+
+export interface ProofJob {
+  circuitWasm: string;
+  zkeyPath: string;
+  /** Proof system the zkey was set up for (default Groth16) */
+  scheme?: ProofSystem;
+  input: Record<string, unknown>;
+}
+
+export interface ProofJobResult {
+  proof: string;
+  publicSignals: string[];
+}
+
+export interface ProverPoolOptions {
+  /** Worker threads proving at once (default: CPU count - 1, at least 1) */
+  concurrency?: number;
+  /** Per-job timeout in milliseconds; 0 disables it (default 0) */
+  timeout?: number;
+  /** Jobs allowed to wait for a worker before `prove` rejects (default 100) */
+  maxQueueSize?: number;
+  /**
+   * Worker thread entry answering ProverWorkerRequest messages with a
+   * ProverWorkerResponse (default the bundled proverWorker)
+   */
+  workerScript?: string;
+}
+
+export interface ProveOptions {
+  signal?: AbortSignal;
+  /** Overrides the pool timeout for this job */
+  timeout?: number;
+}
+
+export interface ProverPoolProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  running: number;
+}
+
+export interface ProveAllOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ProverPoolProgress) => void;
+}
+
+/**
+ * Outcome of one job in `proveAll`, in the order the jobs were supplied
+ */
+export type ProofJobOutcome =
+  | { index: number; ok: true; result: ProofJobResult }
+  | { index: number; ok: false; error: Error };
+
+interface PendingJob {
+  id: number;
+  job: ProofJob;
+  timeout: number;
+  signal?: AbortSignal;
+  resolve: (result: ProofJobResult) => void;
+  reject: (error: Error) => void;
+  onAbort?: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current: PendingJob | null;
+  timer: NodeJS.Timeout | null;
+}
+
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+
+export class ProverPool {
+  readonly concurrency: number;
+  private readonly timeout: number;
+  private readonly maxQueueSize: number;
+  private readonly workerScript?: string;
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: PendingJob[] = [];
+  private nextJobId = 0;
+  private destroyed = false;
+
+  constructor(options: ProverPoolOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? os.cpus().length - 1);
+    this.timeout = options.timeout ?? 0;
+    this.maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    this.workerScript = options.workerScript;
+  }
+
+  /** Jobs currently being proved */
+  get running(): number {
+    return this.workers.filter((w) => w.current !== null).length;
+  }
+
+  /** Jobs waiting for a worker */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /** True when `prove` would reject new jobs because the queue is full */
+  isSaturated(): boolean {
+    return this.queue.length >= this.maxQueueSize;
+  }
+
+  /**
+   * Proves a single job on a worker thread
+   *
+   * @throws If the queue is full, the job times out or is aborted, or proving fails
+   */
+  prove(job: ProofJob, options: ProveOptions = {}): Promise<ProofJobResult> {
+    if (this.destroyed) {
+      return Promise.reject(new Error("Prover pool has been destroyed"));
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(new Error("Proof job aborted"));
+    }
+    if (this.queue.length >= this.maxQueueSize) {
+      return Promise.reject(new Error(`Prover pool queue is full (${this.maxQueueSize} jobs waiting)`));
+    }
+
+    return new Promise<ProofJobResult>((resolve, reject) => {
+      const pending: PendingJob = {
+        id: this.nextJobId++,
+        job,
+        timeout: options.timeout ?? this.timeout,
+        signal: options.signal,
+        resolve,
+        reject,
+      };
+
+      if (options.signal) {
+        pending.onAbort = () => this.cancel(pending, new Error("Proof job aborted"));
+        options.signal.addEventListener("abort", pending.onAbort, { once: true });
+      }
+
+      this.queue.push(pending);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Proves every job from `jobs`, keeping at most `concurrency` in flight.
+   * Jobs are pulled lazily, so generators and async iterables are never
+   * materialised. Failures are reported per job; aborting stops pulling
+   * new jobs and cancels the running ones.
+   */
+  async proveAll(
+    jobs: Iterable<ProofJob> | AsyncIterable<ProofJob>,
+    options: ProveAllOptions = {},
+  ): Promise<ProofJobOutcome[]> {
+    const outcomes: ProofJobOutcome[] = [];
+    const inFlight = new Set<Promise<void>>();
+    const progress: ProverPoolProgress = { total: 0, completed: 0, failed: 0, running: 0 };
+    const report = () => options.onProgress?.({ ...progress });
+
+    let index = 0;
+    for await (const job of jobs) {
+      if (options.signal?.aborted) break;
+
+      while (inFlight.size >= this.concurrency) {
+        await Promise.race(inFlight);
+      }
+      if (options.signal?.aborted) break;
+
+      const jobIndex = index++;
+      progress.total++;
+      progress.running++;
+      report();
+
+      const task = (async () => {
+        try {
+          const result = await this.prove(job, { signal: options.signal });
+          outcomes[jobIndex] = { index: jobIndex, ok: true, result };
+          progress.completed++;
+        } catch (error) {
+          outcomes[jobIndex] = { index: jobIndex, ok: false, error: error as Error };
+          progress.failed++;
+        }
+      })().finally(() => {
+        progress.running--;
+        inFlight.delete(task);
+        report();
+      });
+      inFlight.add(task);
+    }
+
+    await Promise.all(inFlight);
+    return outcomes;
+  }
+
+  /**
+   * Rejects queued and running jobs and terminates all workers
+   */
+  async destroy(): Promise<void> {
+    this.destroyed = true;
+    const error = new Error("Prover pool has been destroyed");
+    for (const pending of this.queue.splice(0)) {
+      this.settle(pending);
+      pending.reject(error);
+    }
+    await Promise.all(
+      this.workers.splice(0).map((w) => {
+        if (w.current) {
+          this.clearTimer(w);
+          this.settle(w.current);
+          w.current.reject(error);
+          w.current = null;
+        }
+        return w.worker.terminate();
+      }),
+    );
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.acquireWorker();
+      if (!worker) return;
+
+      const pending = this.queue.shift()!;
+      worker.current = pending;
+
+      if (pending.timeout > 0) {
+        worker.timer = setTimeout(
+          () => this.cancel(pending, new Error(`Proof job timed out after ${pending.timeout}ms`)),
+          pending.timeout,
+        );
+      }
+
+      const request: ProverWorkerRequest = { id: pending.id, ...pending.job };
+      worker.worker.ref();
+      worker.worker.postMessage(request);
+    }
+  }
+
+  private acquireWorker(): PoolWorker | null {
+    const idle = this.workers.find((w) => w.current === null);
+    if (idle) return idle;
+    if (this.workers.length >= this.concurrency) return null;
+
+    const poolWorker = this.spawnWorker();
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  private spawnWorker(): PoolWorker {
+    // Under ts-node the worker is loaded from source and needs the same hook
+    const extension = path.extname(__filename);
+    const worker = new Worker(this.workerScript ?? path.join(__dirname, `proverWorker${extension}`), {
+      execArgv: extension === ".ts" ? ["--require", "ts-node/register"] : undefined,
+      // snarkjs pulls in the `web-worker` polyfill, which treats any non-main thread as one
+      // of its own workers and boots the module named in workerData; give it an empty one
+      workerData: { mod: "data:text/javascript,", name: "syndual-prover" },
+    });
+    const poolWorker: PoolWorker = { worker, current: null, timer: null };
+
+    worker.on("message", (response: ProverWorkerResponse) => {
+      const pending = poolWorker.current;
+      if (!pending || pending.id !== response.id) return;
+
+      this.clearTimer(poolWorker);
+      poolWorker.current = null;
+      // Idle workers must not keep the process alive
+      worker.unref();
+      this.settle(pending);
+      if (response.ok) {
+        pending.resolve({ proof: response.proof, publicSignals: response.publicSignals });
+      } else {
+        pending.reject(new Error(`Proving failed: ${response.error}`));
+      }
+      this.dispatch();
+    });
+
+    worker.on("error", (error) => this.replaceWorker(poolWorker, error));
+    worker.on("exit", (code) => {
+      if (poolWorker.current) {
+        this.replaceWorker(poolWorker, new Error(`Prover worker exited with code ${code}`));
+      }
+    });
+
+    return poolWorker;
+  }
+
+  /**
+   * Removes a queued job, or kills the worker running it
+   */
+  private cancel(pending: PendingJob, error: Error): void {
+    const queuedAt = this.queue.indexOf(pending);
+    if (queuedAt !== -1) {
+      this.queue.splice(queuedAt, 1);
+      this.settle(pending);
+      pending.reject(error);
+      return;
+    }
+
+    const poolWorker = this.workers.find((w) => w.current === pending);
+    if (poolWorker) {
+      this.replaceWorker(poolWorker, error);
+    }
+  }
+
+  /**
+   * Fails the worker's current job and drops the worker; a fresh one is
+   * spawned on the next dispatch
+   */
+  private replaceWorker(poolWorker: PoolWorker, error: Error): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) return;
+    this.workers.splice(index, 1);
+
+    this.clearTimer(poolWorker);
+    const pending = poolWorker.current;
+    poolWorker.current = null;
+    void poolWorker.worker.terminate();
+
+    if (pending) {
+      this.settle(pending);
+      pending.reject(error);
+    }
+    this.dispatch();
+  }
+
+  private settle(pending: PendingJob): void {
+    if (pending.signal && pending.onAbort) {
+      pending.signal.removeEventListener("abort", pending.onAbort);
+    }
+  }
+
+  private clearTimer(poolWorker: PoolWorker): void {
+    if (poolWorker.timer) {
+      clearTimeout(poolWorker.timer);
+      poolWorker.timer = null;
+    }
+  }
+}
+
+/**
+ * Creates a pool from a ProofConfig: `parallel: false` proves one job at a
+ * time and `timeout` becomes the per-job timeout
+ */
+export function createProverPool(config: Partial<ProofConfig> = {}, options: ProverPoolOptions = {}): ProverPool {
+  return new ProverPool({
+    concurrency: config.parallel === false ? 1 : options.concurrency,
+    timeout: config.timeout ?? options.timeout,
+    maxQueueSize: options.maxQueueSize,
+    workerScript: options.workerScript,
+  });
+}
@@ -0,0 +1,44 @@
+import { parentPort } from "worker_threads";
+import { ProofSystem } from "@syndual/core-types";
+import { getProver } from "./backends";
+
+/**
+ * Worker thread entry point for ProverPool
+ *
+ * Receives one proving job at a time and replies with the proof or the error
+ * message. The pool terminates the worker to cancel a job, since snarkjs
+ * cannot be interrupted.
+ */
+
+export interface ProverWorkerRequest {
+  id: number;
+  circuitWasm: string;
+  zkeyPath: string;
+  /** Proof system the zkey was set up for (default Groth16) */
+  scheme?: ProofSystem;
+  input: Record<string, unknown>;
+}
+
+export type ProverWorkerResponse =
+  | { id: number; ok: true; proof: string; publicSignals: string[] }
+  | { id: number; ok: false; error: string };
+
+if (parentPort) {
+  const port = parentPort;
+  port.on("message", async (request: ProverWorkerRequest) => {
+    let response: ProverWorkerResponse;
+    try {
+      // ffjavascript cannot start its own threads from inside a worker; the pool provides the parallelism
+      const { proof, publicSignals } = await getProver(request.scheme).fullProve(
+        request.input,
+        request.circuitWasm,
+        request.zkeyPath,
+        true,
+      );
+      response = { id: request.id, ok: true, proof, publicSignals };
+    } catch (error) {
+      response = { id: request.id, ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    port.postMessage(response);
+  });
+}
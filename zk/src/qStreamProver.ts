@@ -1,18 +1,142 @@
-import { QStreamProof } from "@syndual/core-types";
+import { ProofConfig, QStreamProof, Stream } from "@syndual/core-types";
+import { proveCircuit, verifyCircuitProof } from "./backends";
+import { assertUintBits, toFieldElement } from "./field";
+import { MOCK_PROOF_PREFIX, isMockProof, isTestMode } from "./mode";
+import { computeQStreamNullifier, computeQStreamSecretCommitment } from "./nullifier";
 
+export const QSTREAM_CIRCUIT = "qstream_settle";
+
+/** Public signal positions of `qstream_settle.circom` */
+export const QSTREAM_SIGNALS = {
+  owedAmount: 0,
+  nullifier: 1,
+  ratePerSecond: 2,
+  streamStart: 3,
+  streamEnd: 4,
+  currentTime: 5,
+  withdrawn: 6,
+  streamId: 7,
+  secretCommitment: 8,
+} as const;
+
+/**
+ * QStreamPayments stream a Q-Stream proof is bound to. `secret` must open the
+ * commitment the stream was created with (`computeQStreamSecretCommitment`);
+ * keep it private. The proof's nullifier is Poseidon(secret, streamId, withdrawn),
+ * so the stream can be paid out once per withdrawn amount.
+ */
+export interface QStreamProofContext {
+  streamId: number | bigint;
+  /** Field element */
+  secret: string | bigint;
+}
+
+/**
+ * Proves what `stream` owes its recipient at `currentTime`: the amount accrued
+ * over the part of [start, end] that has elapsed, minus `stream.settled`
+ * (the amount already withdrawn, default 0).
+ * Public signals are
+ * `[owedAmount, nullifier, ratePerSecond, start, end, currentTime, withdrawn, streamId, secretCommitment]`
+ * (`QSTREAM_SIGNALS`).
+ *
+ * @param currentTime - Unix time in seconds (default now)
+ * @throws If a value is outside the contract's types or more was withdrawn than accrued
+ */
 export const generateQStreamProof = async (
-  ratePerSecond: bigint,
-  elapsedTime: bigint,
+  stream: Pick<Stream, "ratePerSecond" | "start" | "end" | "settled">,
+  context: QStreamProofContext,
+  currentTime: number | bigint = Math.floor(Date.now() / 1000),
+  config: Partial<ProofConfig> = {},
 ): Promise<QStreamProof> => {
-  console.log("TODO: integrate real snarkjs proof generation for Q-Stream");
-  const owed = ratePerSecond * elapsedTime;
+  const input = {
+    ratePerSecond: stream.ratePerSecond,
+    streamStart: stream.start,
+    streamEnd: stream.end,
+    currentTime: BigInt(currentTime),
+    withdrawn: stream.settled ?? 0n,
+    streamId: toFieldElement(BigInt(context.streamId)),
+    secretCommitment: await computeQStreamSecretCommitment(context.secret),
+    nullifierSecret: toFieldElement(context.secret),
+  };
+  const owedAmount = computeOwedAmount(input);
+
+  if (isTestMode()) {
+    return {
+      proof: `${MOCK_PROOF_PREFIX}qstream-${owedAmount}`,
+      publicSignals: [
+        owedAmount,
+        await computeQStreamNullifier(input.nullifierSecret, input.streamId, input.withdrawn),
+        input.ratePerSecond,
+        input.streamStart,
+        input.streamEnd,
+        input.currentTime,
+        input.withdrawn,
+        input.streamId,
+        input.secretCommitment,
+      ].map(String),
+      timestamp: Date.now(),
+    };
+  }
+
+  const { proof, publicSignals, scheme } = await proveCircuit(QSTREAM_CIRCUIT, input, config);
   return {
-    proof: `0xqstream-${ratePerSecond}-${elapsedTime}`,
-    publicSignals: [ratePerSecond.toString(), elapsedTime.toString(), owed.toString()],
+    proof,
+    publicSignals,
+    scheme,
+    timestamp: Date.now(),
   };
 };
 
-export const verifyQStreamProof = async (proof: QStreamProof): Promise<boolean> => {
-  console.log("TODO: integrate real proof verification");
-  return Boolean(proof.proof);
+export const verifyQStreamProof = async (
+  proof: QStreamProof,
+  config: Partial<ProofConfig> = {},
+): Promise<boolean> => {
+  if (!proof.proof || !proof.publicSignals || proof.publicSignals.length !== 9) {
+    return false;
+  }
+
+  if (isMockProof(proof.proof)) {
+    if (!isTestMode()) {
+      return false;
+    }
+    // Every settlement input is public, so a mock can be checked by recomputing the owed amount
+    try {
+      const [owed, , ratePerSecond, streamStart, streamEnd, currentTime, withdrawn] = proof.publicSignals.map(BigInt);
+      return computeOwedAmount({ ratePerSecond, streamStart, streamEnd, currentTime, withdrawn }) === owed;
+    } catch {
+      return false;
+    }
+  }
+
+  return verifyCircuitProof(QSTREAM_CIRCUIT, proof, config);
 };
+
+/**
+ * Mirrors the circuit's constraints and output
+ *
+ * @throws If a value is outside the contract's types or more was withdrawn than accrued
+ */
+export function computeOwedAmount(input: {
+  ratePerSecond: bigint;
+  streamStart: bigint;
+  streamEnd: bigint;
+  currentTime: bigint;
+  withdrawn: bigint;
+}): bigint {
+  const { ratePerSecond, streamStart, streamEnd, currentTime, withdrawn } = input;
+  assertUintBits(ratePerSecond, 128, "Stream rate");
+  assertUintBits(streamStart, 64, "Stream start");
+  assertUintBits(streamEnd, 64, "Stream end");
+  assertUintBits(currentTime, 64, "Current time");
+  assertUintBits(withdrawn, 192, "Withdrawn amount");
+  if (streamEnd < streamStart) {
+    throw new Error("Stream ends before it starts");
+  }
+
+  const clampedTime = currentTime < streamStart ? streamStart : currentTime > streamEnd ? streamEnd : currentTime;
+  const accrued = ratePerSecond * (clampedTime - streamStart);
+  if (withdrawn > accrued) {
+    throw new Error("Withdrawn amount exceeds the accrued amount");
+  }
+  return accrued - withdrawn;
+}
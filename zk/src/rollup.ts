@@ -0,0 +1,219 @@
+import { DualState, DualStateBatch, DualStateRollupProof, ProofConfig, ProofSystem } from "@syndual/core-types";
+import { ethers } from "ethers";
+import { proveCircuit, verifyCircuitProof } from "./backends";
+import { keyToField, toFieldElement } from "./field";
+import { PoseidonMerkleTree } from "./merkle";
+import { MOCK_PROOF_PREFIX, isMockProof, isTestMode } from "./mode";
+import { poseidonHash } from "./poseidon";
+
+/**
+ * Dual-State Rollup
+ *
+ * Keeps dual states in a sparse Poseidon Merkle tree with leaves
+ * Poseidon(key, state0, state1) and proves batches of writes with
+ * `dual_state_rollup.circom`. DualStateEngine only stores the root, so a
+ * batch costs one proof verification instead of one `setDualState` per key.
+ *
+ * A key's leaf is the low `ROLLUP_MERKLE_DEPTH` bits of the key (reduced
+ * into the field), as the circuit requires, so the tree does not depend on
+ * the order keys were first written. Two keys that share a leaf cannot both
+ * be rolled up; the second is refused.
+ */
+
+export const ROLLUP_CIRCUIT = "dual_state_rollup";
+
+/** Transitions per rollup proof, fixed by the circuit */
+export const ROLLUP_BATCH_SIZE = 4;
+
+/** Depth of the rollup state tree */
+export const ROLLUP_MERKLE_DEPTH = 16;
+
+/** Dual state held by a leaf, as field elements */
+interface LeafState {
+  key: string;
+  state0: bigint;
+  state1: bigint;
+}
+
+interface LeafWrite {
+  index: number;
+  oldLeaf: bigint;
+  /** Absent when the leaf was empty */
+  oldState?: LeafState;
+}
+
+/**
+ * Leaf index of a dual state key in the rollup tree
+ */
+export function rollupLeafIndex(key: string): number {
+  return Number(keyToField(key) & ((1n << BigInt(ROLLUP_MERKLE_DEPTH)) - 1n));
+}
+
+export class DualStateRollup {
+  private readonly leaves = new Map<number, LeafState>();
+
+  private constructor(private readonly tree: PoseidonMerkleTree) {}
+
+  /**
+   * Creates a rollup, replaying already committed states in order
+   */
+  static async create(committed: DualState[] = []): Promise<DualStateRollup> {
+    const rollup = new DualStateRollup(await PoseidonMerkleTree.create(ROLLUP_MERKLE_DEPTH));
+    for (const state of committed) {
+      await rollup.write(state);
+    }
+    return rollup;
+  }
+
+  /** Current state root as bytes32 */
+  get root(): string {
+    return ethers.toBeHex(this.tree.root, 32);
+  }
+
+  /** Number of keys in the tree */
+  get size(): number {
+    return this.leaves.size;
+  }
+
+  /**
+   * Applies a batch and proves it, one proof per `ROLLUP_BATCH_SIZE` states.
+   * The tree only advances if every proof succeeds; the proofs must then be
+   * committed on-chain in the returned order.
+   *
+   * @throws If a state has no key or is not a field element, its key shares a
+   * leaf with another key, or proving fails
+   */
+  async proveBatch(batch: DualStateBatch, config: Partial<ProofConfig> = {}): Promise<DualStateRollupProof[]> {
+    const writes: LeafWrite[] = [];
+    const proofs: DualStateRollupProof[] = [];
+
+    try {
+      for (let offset = 0; offset < batch.states.length; offset += ROLLUP_BATCH_SIZE) {
+        const chunk = batch.states.slice(offset, offset + ROLLUP_BATCH_SIZE);
+        proofs.push(await this.proveChunk(chunk, writes, config));
+      }
+    } catch (error) {
+      this.revert(writes);
+      throw error;
+    }
+
+    return proofs;
+  }
+
+  private async proveChunk(
+    states: DualState[],
+    writes: LeafWrite[],
+    config: Partial<ProofConfig>,
+  ): Promise<DualStateRollupProof> {
+    const oldRoot = this.tree.root;
+    const input = {
+      oldRoot,
+      newRoot: 0n,
+      enabled: [] as bigint[],
+      keys: [] as bigint[],
+      states0: [] as bigint[],
+      states1: [] as bigint[],
+      oldLeaves: [] as bigint[],
+      oldStates0: [] as bigint[],
+      oldStates1: [] as bigint[],
+      siblings: [] as bigint[][],
+    };
+
+    for (let i = 0; i < ROLLUP_BATCH_SIZE; i++) {
+      const state = states[i];
+      if (!state) {
+        // Padding slot: key 0 rewrites leaf 0 with its own value
+        const { leaf, siblings } = this.tree.getProof(0);
+        input.enabled.push(0n);
+        input.keys.push(0n);
+        input.states0.push(0n);
+        input.states1.push(0n);
+        input.oldLeaves.push(leaf);
+        input.oldStates0.push(0n);
+        input.oldStates1.push(0n);
+        input.siblings.push(siblings);
+        continue;
+      }
+
+      const write = await this.write(state);
+      writes.push(write);
+      input.enabled.push(1n);
+      input.keys.push(keyToField(state.key!));
+      input.states0.push(toFieldElement(state.state0));
+      input.states1.push(toFieldElement(state.state1));
+      input.oldLeaves.push(write.oldLeaf);
+      input.oldStates0.push(write.oldState?.state0 ?? 0n);
+      input.oldStates1.push(write.oldState?.state1 ?? 0n);
+      // Siblings are unchanged by writing the leaf itself
+      input.siblings.push(this.tree.getProof(write.index).siblings);
+    }
+    input.newRoot = this.tree.root;
+
+    const publicSignals = [oldRoot, input.newRoot, ...input.keys].map(String);
+    let proof: string;
+    let scheme: ProofSystem | undefined;
+    if (isTestMode()) {
+      proof = `${MOCK_PROOF_PREFIX}rollup-${oldRoot}-${input.newRoot}`;
+    } else {
+      ({ proof, scheme } = await proveCircuit(ROLLUP_CIRCUIT, { ...input }, config));
+    }
+
+    return {
+      proof,
+      publicSignals,
+      scheme,
+      oldRoot: ethers.toBeHex(oldRoot, 32),
+      newRoot: ethers.toBeHex(input.newRoot, 32),
+      keys: states.map((state) => state.key!),
+      timestamp: Date.now(),
+    };
+  }
+
+  private async write(state: DualState): Promise<LeafWrite> {
+    if (!state.key) {
+      throw new Error("Dual state key is missing");
+    }
+    const key = state.key.toLowerCase();
+    if (keyToField(key) === 0n) {
+      throw new Error("Dual state key 0 is reserved for padding");
+    }
+    const index = rollupLeafIndex(key);
+    const oldState = this.leaves.get(index);
+    if (oldState && keyToField(oldState.key) !== keyToField(key)) {
+      throw new Error(`Dual state key ${key} shares rollup leaf ${index} with key ${oldState.key}`);
+    }
+
+    const newState = { key, state0: toFieldElement(state.state0), state1: toFieldElement(state.state1) };
+    const leaf = await poseidonHash([keyToField(key), newState.state0, newState.state1]);
+    const oldLeaf = this.tree.getLeaf(index);
+    this.tree.update(index, leaf);
+    this.leaves.set(index, newState);
+    return { index, oldLeaf, oldState };
+  }
+
+  private revert(writes: LeafWrite[]): void {
+    for (const write of [...writes].reverse()) {
+      this.tree.update(write.index, write.oldLeaf);
+      if (write.oldState) {
+        this.leaves.set(write.index, write.oldState);
+      } else {
+        this.leaves.delete(write.index);
+      }
+    }
+  }
+}
+
+export const verifyRollupProof = async (
+  proof: Pick<DualStateRollupProof, "proof" | "publicSignals">,
+  config: Partial<ProofConfig> = {},
+): Promise<boolean> => {
+  if (!proof.proof || !proof.publicSignals || proof.publicSignals.length !== 2 + ROLLUP_BATCH_SIZE) {
+    return false;
+  }
+
+  if (isMockProof(proof.proof)) {
+    return isTestMode();
+  }
+
+  return verifyCircuitProof(ROLLUP_CIRCUIT, proof, config);
+};
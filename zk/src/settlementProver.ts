@@ -0,0 +1,107 @@
+import { ProofConfig, SettlementProof, Stream } from "@syndual/core-types";
+import { proveCircuit, verifyCircuitProof } from "./backends";
+import { randomSalt } from "./commitment";
+import { assertUintBits, toFieldElement } from "./field";
+import { MOCK_PROOF_PREFIX, isMockProof, isTestMode } from "./mode";
+import { poseidonHash } from "./poseidon";
+
+export const SETTLEMENT_CIRCUIT = "stream_settlement";
+
+/**
+ * Commits to a stream's terms as Poseidon(ratePerSecond, start, end, salt),
+ * the `streamCommitment` output of the settlement circuit
+ */
+export async function computeStreamCommitment(
+  stream: Pick<Stream, "ratePerSecond" | "start" | "end">,
+  salt: string | bigint,
+): Promise<bigint> {
+  return poseidonHash([stream.ratePerSecond, stream.start, stream.end, toFieldElement(salt)]);
+}
+
+/**
+ * Proves that `settledAmount` <= ratePerSecond * (min(currentTime, end) - start)
+ * with `currentTime` >= start, without revealing the stream terms.
+ * Public signals are `[streamCommitment, settledAmount, currentTime]`.
+ *
+ * @param salt - Salt for the stream commitment; drawn at random when omitted
+ * @throws If the claim does not hold or a value is outside the circuit's ranges
+ */
+export const generateSettlementProof = async (
+  stream: Stream,
+  settledAmount: bigint,
+  currentTime: number | bigint,
+  salt?: string,
+  config: Partial<ProofConfig> = {},
+): Promise<SettlementProof> => {
+  const time = BigInt(currentTime);
+  checkSettlement(stream, settledAmount, time);
+
+  const saltValue = salt !== undefined ? toFieldElement(salt) : randomSalt();
+  const streamCommitment = await computeStreamCommitment(stream, saltValue);
+  const result = {
+    settlementAmount: settledAmount,
+    streamCommitment: streamCommitment.toString(),
+    salt: saltValue.toString(),
+    timestamp: Number(time),
+  };
+
+  if (isTestMode()) {
+    return {
+      ...result,
+      proof: `${MOCK_PROOF_PREFIX}settlement-${streamCommitment}-${settledAmount}`,
+      publicSignals: [streamCommitment, settledAmount, time].map(String),
+    };
+  }
+
+  const input = {
+    ratePerSecond: stream.ratePerSecond,
+    streamStart: stream.start,
+    streamEnd: stream.end,
+    salt: saltValue,
+    settledAmount,
+    currentTime: time,
+  };
+  const { proof, publicSignals } = await proveCircuit(SETTLEMENT_CIRCUIT, input, config);
+  return {
+    ...result,
+    proof,
+    publicSignals,
+  };
+};
+
+export const verifySettlementProof = async (
+  proof: Pick<SettlementProof, "proof" | "publicSignals">,
+  config: Partial<ProofConfig> = {},
+): Promise<boolean> => {
+  if (!proof.proof || !proof.publicSignals || proof.publicSignals.length !== 3) {
+    return false;
+  }
+
+  if (isMockProof(proof.proof)) {
+    return isTestMode();
+  }
+
+  return verifyCircuitProof(SETTLEMENT_CIRCUIT, proof, config);
+};
+
+/**
+ * Mirrors the circuit's constraints so bad claims fail before witness generation
+ */
+function checkSettlement(stream: Stream, settledAmount: bigint, currentTime: bigint): void {
+  assertUintBits(stream.ratePerSecond, 128, "Stream rate");
+  assertUintBits(stream.start, 64, "Stream start");
+  assertUintBits(stream.end, 64, "Stream end");
+  assertUintBits(currentTime, 64, "Current time");
+  assertUintBits(settledAmount, 192, "Settled amount");
+  if (stream.end < stream.start) {
+    throw new Error("Stream ends before it starts");
+  }
+  if (currentTime < stream.start) {
+    throw new Error("Stream has not started");
+  }
+
+  const effectiveTime = currentTime < stream.end ? currentTime : stream.end;
+  if (settledAmount > stream.ratePerSecond * (effectiveTime - stream.start)) {
+    throw new Error("Settled amount exceeds expected flow");
+  }
+}
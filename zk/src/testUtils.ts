@@ -1,6 +1,7 @@
 import { ethers } from "ethers";
 import {
   DualState,
+  DualStateBatch,
   Stream,
   DualStateProof,
   QStreamProof,
@@ -9,7 +10,9 @@ import {
   StreamStatus,
   OperationStatus,
   ProofType,
+  StateHasherId,
 } from "@syndual/core-types";
+import { DebugWitnessOptions, WitnessReport, debugWitness, formatWitnessReport } from "./witnessDebugger";
 
 /**
  * Test Utilities and Mock Data Generators
@@ -20,7 +23,7 @@ import {
 // ==================== Random Generators ====================
 
 export function generateRandomAddress(): string {
-  return ethers.getAddress(ethers.zeroPadValue(Math.random().toString(36).slice(2), 20));
+  return ethers.getAddress(ethers.hexlify(ethers.randomBytes(20)));
 }
 
 export function generateRandomHash(): string {
@@ -43,7 +46,7 @@ export class MockDataFactory {
       state0: generateRandomHash(),
       state1: generateRandomHash(),
       createdAt: Date.now(),
-      hash: generateRandomHash(),
+      hash: { hasher: StateHasherId.KECCAK256, value: generateRandomHash() },
       metadata: { source: "test" },
       ...overrides,
     };
@@ -294,26 +297,102 @@ export class ProofAssertions {
       throw new Error("Combined signals do not include all individual signals");
     }
   }
+
+  /**
+   * Asserts that `input` satisfies every constraint of a circuit; the error
+   * carries the witness debugger's report
+   */
+  static async assertWitnessSatisfied(
+    circuitId: string,
+    input: Record<string, unknown>,
+    options: DebugWitnessOptions = {},
+  ): Promise<WitnessReport> {
+    const report = await debugWitness(circuitId, input, options);
+    if (!report.satisfied) {
+      throw new Error(formatWitnessReport(report));
+    }
+    return report;
+  }
+
+  /**
+   * Asserts that a circuit rejects `input`, optionally in a given template
+   * such as `Num2Bits`
+   */
+  static async assertWitnessRejected(
+    circuitId: string,
+    input: Record<string, unknown>,
+    template?: string,
+    options: DebugWitnessOptions = {},
+  ): Promise<WitnessReport> {
+    const report = await debugWitness(circuitId, input, { ...options, signals: [] });
+    if (report.satisfied) {
+      throw new Error(`${circuitId} accepted an input it should reject`);
+    }
+    if (template && !report.assertions.some((failure) => failure.template === template)) {
+      throw new Error(`Expected an assertion in ${template}\n${formatWitnessReport(report)}`);
+    }
+    return report;
+  }
+
+  /**
+   * Asserts the values of named signals, including intermediate ones such as
+   * `validStart` or `merkleMatch` of `hybrid_proof`
+   */
+  static async assertSignalValues(
+    circuitId: string,
+    input: Record<string, unknown>,
+    expected: Record<string, string | number | bigint>,
+    options: DebugWitnessOptions = {},
+  ): Promise<WitnessReport> {
+    const report = await debugWitness(circuitId, input, { ...options, signals: Object.keys(expected) });
+    const mismatches = Object.entries(expected).filter(([name, value]) => {
+      const signal = report.signals.find((candidate) => candidate.name === name);
+      return signal?.value !== BigInt(value).toString();
+    });
+    if (mismatches.length > 0) {
+      const names = mismatches.map(([name, value]) => `${name} (expected ${value})`).join(", ");
+      throw new Error(`Unexpected values for ${names}\n${formatWitnessReport(report)}`);
+    }
+    return report;
+  }
 }
 
 // ==================== Performance Testing ====================
 
+const MEMORY_SAMPLE_INTERVAL_MS = 10;
+
 export class PerformanceMetrics {
-  private startTime: number = 0;
+  private startTimes: Map<string, number> = new Map();
   private measurements: Map<string, number[]> = new Map();
+  private peakMemory: Map<string, number> = new Map();
+  private memoryBaselines: Map<string, number> = new Map();
+  private memorySampler?: ReturnType<typeof setInterval>;
 
   /**
-   * Starts timing a named operation
+   * Starts timing a named operation and tracking how far memory grows from now
    */
   start(label: string): void {
-    this.startTime = performance.now();
+    this.startTimes.set(label, performance.now());
+    this.memoryBaselines.set(label, process.memoryUsage.rss());
+    this.sampleMemory();
+    this.memorySampler ??= setInterval(() => this.sampleMemory(), MEMORY_SAMPLE_INTERVAL_MS);
   }
 
   /**
    * Ends timing and records the measurement
    */
   end(label: string): number {
-    const duration = performance.now() - this.startTime;
+    const startTime = this.startTimes.get(label);
+    if (startTime === undefined) {
+      throw new Error(`No measurement "${label}" was started`);
+    }
+    const duration = performance.now() - startTime;
+    this.sampleMemory();
+    this.startTimes.delete(label);
+    this.memoryBaselines.delete(label);
+    if (this.startTimes.size === 0) {
+      this.stopSampling();
+    }
     if (!this.measurements.has(label)) {
       this.measurements.set(label, []);
     }
@@ -321,6 +400,14 @@ export class PerformanceMetrics {
     return duration;
   }
 
+  /**
+   * Largest growth of the resident set size over its size when `label` was
+   * started, in bytes; memory the process held before is not counted
+   */
+  getPeakMemory(label: string): number | undefined {
+    return this.peakMemory.get(label);
+  }
+
   /**
    * Gets statistics for a measurement
    */
@@ -346,8 +433,8 @@ export class PerformanceMetrics {
   /**
    * Gets all measurements
    */
-  getAllStats(): Record<string, ReturnType<this["getStats"]>> {
-    const stats: Record<string, ReturnType<this["getStats"]>> = {};
+  getAllStats(): Record<string, ReturnType<PerformanceMetrics["getStats"]>> {
+    const stats: Record<string, ReturnType<PerformanceMetrics["getStats"]>> = {};
     for (const label of this.measurements.keys()) {
       stats[label] = this.getStats(label);
     }
@@ -358,7 +445,23 @@ export class PerformanceMetrics {
    * Resets all measurements
    */
   reset(): void {
+    this.stopSampling();
+    this.startTimes.clear();
     this.measurements.clear();
+    this.peakMemory.clear();
+    this.memoryBaselines.clear();
+  }
+
+  private sampleMemory(): void {
+    const rss = process.memoryUsage.rss();
+    for (const [label, baseline] of this.memoryBaselines) {
+      this.peakMemory.set(label, Math.max(this.peakMemory.get(label) ?? 0, rss - baseline));
+    }
+  }
+
+  private stopSampling(): void {
+    clearInterval(this.memorySampler);
+    this.memorySampler = undefined;
   }
 }
 
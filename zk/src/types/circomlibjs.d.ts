@@ -0,0 +1,12 @@
+declare module "circomlibjs" {
+  export interface PoseidonField {
+    toObject(element: Uint8Array): bigint;
+  }
+
+  export interface Poseidon {
+    (inputs: (bigint | number | string)[]): Uint8Array;
+    F: PoseidonField;
+  }
+
+  export function buildPoseidon(): Promise<Poseidon>;
+}
@@ -0,0 +1,136 @@
+declare module "snarkjs" {
+  export interface Groth16Proof {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+  }
+
+  export type PublicSignals = string[];
+
+  export interface PlonkProof {
+    A: string[];
+    B: string[];
+    C: string[];
+    Z: string[];
+    T1: string[];
+    T2: string[];
+    T3: string[];
+    Wxi: string[];
+    Wxiw: string[];
+    eval_a: string;
+    eval_b: string;
+    eval_c: string;
+    eval_s1: string;
+    eval_s2: string;
+    eval_zw: string;
+    protocol: string;
+    curve: string;
+  }
+
+  export interface FflonkProof {
+    polynomials: { C1: string[]; C2: string[]; W1: string[]; W2: string[] };
+    evaluations: Record<
+      "ql" | "qr" | "qm" | "qo" | "qc" | "s1" | "s2" | "s3" | "a" | "b" | "c" | "z" | "zw" | "t1w" | "t2w" | "inv",
+      string
+    >;
+    protocol: string;
+    curve: string;
+  }
+
+  /** Same arguments for every proof system */
+  interface FullProve<P> {
+    (
+      input: Record<string, unknown>,
+      wasmFile: string,
+      zkeyFileName: string,
+      logger?: unknown,
+      wtnsCalcOptions?: Record<string, unknown>,
+      proverOptions?: { singleThread?: boolean },
+    ): Promise<{ proof: P; publicSignals: PublicSignals }>;
+  }
+
+  export interface R1csInfo {
+    nConstraints: number;
+    nPubInputs: number;
+    nPrvInputs: number;
+    nOutputs: number;
+    nVars: number;
+  }
+
+  /** Point in ffjavascript's internal encoding */
+  export type CurvePoint = Uint8Array;
+
+  export interface CurveGroup {
+    zero: CurvePoint;
+    fromObject(point: bigint[] | bigint[][]): CurvePoint;
+    add(a: CurvePoint, b: CurvePoint): CurvePoint;
+    neg(a: CurvePoint): CurvePoint;
+    timesScalar(a: CurvePoint, scalar: bigint): CurvePoint;
+    isValid(a: CurvePoint): boolean;
+  }
+
+  export interface Curve {
+    G1: CurveGroup;
+    G2: CurveGroup;
+    /** Order of the scalar field */
+    r: bigint;
+    /** True when the product of the pairings of each (G1, G2) argument pair is 1 */
+    pairingEq(...points: CurvePoint[]): Promise<boolean>;
+    terminate(): Promise<void>;
+  }
+
+  /** Witness file name, or an in-memory witness that `wtns.calculate` fills in */
+  export type WtnsFile = string | { type: "mem"; data?: Uint8Array };
+
+  export const wtns: {
+    calculate(input: Record<string, unknown>, wasmFileName: string, wtnsFile: WtnsFile): Promise<void>;
+  };
+
+  export const groth16: {
+    fullProve: FullProve<Groth16Proof>;
+    prove(zkeyFileName: string, wtnsFile: WtnsFile): Promise<{ proof: Groth16Proof; publicSignals: PublicSignals }>;
+    verify(vkVerifier: unknown, publicSignals: PublicSignals, proof: Groth16Proof): Promise<boolean>;
+    exportSolidityCallData(proof: Groth16Proof, publicSignals: PublicSignals): Promise<string>;
+  };
+
+  export const plonk: {
+    setup(r1csName: string, ptauName: string, zkeyName: string, logger?: unknown): Promise<unknown>;
+    fullProve: FullProve<PlonkProof>;
+    verify(vkVerifier: unknown, publicSignals: PublicSignals, proof: PlonkProof): Promise<boolean>;
+  };
+
+  export const fflonk: {
+    setup(r1csName: string, ptauName: string, zkeyName: string, logger?: unknown): Promise<unknown>;
+    fullProve: FullProve<FflonkProof>;
+    verify(vkVerifier: unknown, publicSignals: PublicSignals, proof: FflonkProof): Promise<boolean>;
+  };
+
+  export const curves: {
+    getCurveFromName(name: string): Promise<Curve>;
+  };
+
+  /** R1CS with constraints as `[A, B, C]` maps from wire index to decimal coefficient */
+  export interface R1csJson extends R1csInfo {
+    constraints: Record<string, string>[][];
+  }
+
+  export const r1cs: {
+    info(r1csName: string): Promise<R1csInfo>;
+    exportJson(r1csName: string, logger?: unknown): Promise<R1csJson>;
+  };
+
+  export const powersOfTau: {
+    newAccumulator(curve: unknown, power: number, fileName: string): Promise<unknown>;
+    contribute(oldPtau: string, newPtau: string, name: string, entropy: string): Promise<unknown>;
+    preparePhase2(oldPtau: string, newPtau: string): Promise<unknown>;
+  };
+
+  export const zKey: {
+    newZKey(r1csName: string, ptauName: string, zkeyName: string): Promise<unknown>;
+    contribute(oldZkey: string, newZkey: string, name: string, entropy: string): Promise<unknown>;
+    exportVerificationKey(zkeyName: string): Promise<Record<string, unknown>>;
+    exportSolidityVerifier(zkeyName: string, templates: Record<string, string>): Promise<string>;
+  };
+}
@@ -0,0 +1,13 @@
+/** The part of the WebAssembly JS API used to run circom witness calculators; not in the ES2020 lib */
+declare namespace WebAssembly {
+  interface Module {}
+
+  interface Instance {
+    readonly exports: Record<string, unknown>;
+  }
+
+  type Imports = Record<string, Record<string, (...args: number[]) => unknown>>;
+
+  function compile(bytes: Uint8Array): Promise<Module>;
+  function instantiate(module: Module, imports?: Imports): Promise<Instance>;
+}
@@ -0,0 +1,527 @@
+import { readdirSync, readFileSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import { r1cs } from "snarkjs";
+import { DEFAULT_MANIFEST_PATH, getCircuitArtifacts, resolveArtifactPath } from "./artifacts";
+import { SNARK_SCALAR_FIELD } from "./field";
+import { HYBRID_CIRCUIT } from "./hybridBinding";
+
+/**
+ * Witness Debugger
+ *
+ * Computes a circuit's witness for given inputs and explains why they cannot
+ * be proved. The circom wasm asserts every `===` and `<==` while it computes
+ * the witness, and the generated calculator throws at the first failure with
+ * little more than a line number. The debugger runs the wasm with its own
+ * runtime, which records the failed assertion with its template and source
+ * line and keeps the signals computed so far. Signal names come from the
+ * symbol file circom writes next to the r1cs. A witness computed without
+ * failed assertions is also checked against the R1CS, and failing
+ * constraints are reported with the names and values of their signals.
+ *
+ * Usage: ts-node src/witnessDebugger.ts <circuit> <input.json> [--signal <name>]... [--manifest <path>] [--json]
+ */
+
+/** Signals behind `isValid` in `hybrid_proof.circom`, in evaluation order */
+export const HYBRID_CHECK_SIGNALS = [
+  "validStart",
+  "validEnd",
+  "validSettlement",
+  "validRemaining",
+  "merkleMatch",
+  "validTime",
+  "validAmounts",
+  "validChecks",
+  "isValid",
+];
+
+export interface AssertionFailure {
+  template: string;
+  line: number;
+  /** Circuit file declaring the template, when it could be found */
+  file?: string;
+  /** Source text of the failing line */
+  code?: string;
+}
+
+export interface SignalValue {
+  /** Name without the `main.` prefix, e.g. `merkleHashers[0].out` */
+  name: string;
+  /** Decimal value; undefined for signals the compiler optimized away */
+  value?: string;
+}
+
+export interface ConstraintViolation {
+  /** Index of the constraint in the r1cs */
+  index: number;
+  /** Values of the linear combinations of `A * B = C` */
+  a: string;
+  b: string;
+  c: string;
+  signals: SignalValue[];
+}
+
+export interface WitnessReport {
+  circuitId: string;
+  /** True when every assertion held and the witness satisfies every constraint */
+  satisfied: boolean;
+  /** Set when no witness could be computed, e.g. for a missing input */
+  error?: string;
+  assertions: AssertionFailure[];
+  /** R1CS constraints the witness violates; only checked when no assertion failed */
+  violations: ConstraintViolation[];
+  /**
+   * Values of the requested signals. A failed assertion ends its template, so
+   * signals computed after it read as zero.
+   */
+  signals: SignalValue[];
+}
+
+export interface DebugWitnessOptions {
+  /**
+   * Signals to dump, by name without the `main.` prefix; a name also matches
+   * its array elements. Defaults to the signals of the main template.
+   */
+  signals?: string[];
+  /** Constraint violations to report at most (default 10) */
+  maxViolations?: number;
+  manifestPath?: string;
+  /** Compiled files to read instead of the manifest's, e.g. from `CircuitHarness` */
+  artifacts?: CircuitFiles;
+}
+
+/** Files of a compiled circuit; the `.sym` file is read next to the r1cs */
+export interface CircuitFiles {
+  wasm: string;
+  r1cs: string;
+  source: string;
+}
+
+/** Exports of a circom 2 witness calculator */
+interface WitnessExports {
+  init(sanityCheck: number): void;
+  getFieldNumLen32(): number;
+  getRawPrime(): void;
+  readSharedRWMemory(index: number): number;
+  writeSharedRWMemory(index: number, value: number): void;
+  getInputSize(): number;
+  getInputSignalSize(hashMSB: number, hashLSB: number): number;
+  setInputSignal(hashMSB: number, hashLSB: number, position: number): void;
+  getWitnessSize(): number;
+  getWitness(index: number): void;
+  getMessageChar(): number;
+}
+
+interface CircuitDebugInfo {
+  module: WebAssembly.Module;
+  /** `[A, B, C]` per constraint, as wire index to coefficient */
+  constraints: Record<string, string>[][];
+  /** Wire of each signal name without `main.`; -1 when optimized away */
+  wires: Map<string, number>;
+  /** First signal name of each wire */
+  wireNames: Map<number, string>;
+  /** Circuit source, searched first for templates */
+  source: string;
+}
+
+/** Runtime error codes of circom 2 witness calculators */
+const RUNTIME_ERRORS: Record<number, string> = {
+  1: "Signal not found",
+  2: "Too many signals set",
+  3: "Signal already set",
+  4: "Assert failed",
+  5: "Not enough memory",
+  6: "Input signal array access exceeds the size",
+  7: "Out of bounds array access",
+};
+const ASSERT_FAILED = 4;
+
+const DEFAULT_MAX_VIOLATIONS = 10;
+
+const debugInfo = new Map<string, Promise<CircuitDebugInfo>>();
+const templateFiles = new Map<string, string | undefined>();
+
+/**
+ * Computes the witness of `circuitId` for `input` and reports failed
+ * assertions, violated constraints and the values of the requested signals
+ *
+ * @throws If the circuit's wasm, r1cs or symbol file cannot be read
+ */
+export async function debugWitness(
+  circuitId: string,
+  input: Record<string, unknown>,
+  options: DebugWitnessOptions = {},
+): Promise<WitnessReport> {
+  const info = await loadDebugInfo(circuitId, options.manifestPath ?? DEFAULT_MANIFEST_PATH, options.artifacts);
+  const messages: string[] = [];
+  let witness: bigint[] | undefined;
+  let error: string | undefined;
+  try {
+    witness = await calculateWitness(info.module, input, messages);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const assertions = messages.map((message) => locateAssertion(message, info.source));
+  // After a failed assertion the witness is partial, and every constraint past it would be reported
+  const violations =
+    witness && assertions.length === 0
+      ? checkConstraints(info, witness, options.maxViolations ?? DEFAULT_MAX_VIOLATIONS)
+      : [];
+  const names = [...info.wires.keys()].filter((name) =>
+    options.signals
+      ? options.signals.some((signal) => name === signal || name.startsWith(`${signal}[`))
+      : !name.includes("."),
+  );
+  const signals = names.map((name) => signalValue(name, info.wires.get(name)!, witness));
+
+  return {
+    circuitId,
+    satisfied: error === undefined && assertions.length === 0 && violations.length === 0,
+    error,
+    assertions,
+    violations,
+    signals,
+  };
+}
+
+/**
+ * Dumps the checks `isValid` of `hybrid_proof` is built from, for an input
+ * as built by `HybridProver.generateHybridProof`
+ */
+export function debugHybridWitness(
+  input: Record<string, unknown>,
+  options: Omit<DebugWitnessOptions, "signals"> = {},
+): Promise<WitnessReport> {
+  return debugWitness(HYBRID_CIRCUIT, input, { ...options, signals: HYBRID_CHECK_SIGNALS });
+}
+
+/**
+ * Renders a report for terminals and error messages
+ */
+export function formatWitnessReport(report: WitnessReport): string {
+  const verdict = report.satisfied ? "witness satisfies every constraint" : "witness does not satisfy the circuit";
+  const lines = [`${report.circuitId}: ${verdict}`];
+  if (report.error) {
+    lines.push(`  error: ${report.error}`);
+  }
+  for (const failure of report.assertions) {
+    const location = failure.file
+      ? `${path.relative(process.cwd(), failure.file)}:${failure.line}`
+      : `line ${failure.line}`;
+    lines.push(`  assertion failed in ${failure.template} at ${location}${failure.code ? `: ${failure.code}` : ""}`);
+  }
+  for (const violation of report.violations) {
+    lines.push(`  constraint ${violation.index} violated: ${violation.a} * ${violation.b} != ${violation.c}`);
+    lines.push(...violation.signals.map((signal) => `    ${formatSignal(signal)}`));
+  }
+  if (report.signals.length > 0) {
+    lines.push("  signals:");
+    lines.push(...report.signals.map((signal) => `    ${formatSignal(signal)}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Drops the cached wasm modules, constraints and symbols, e.g. after a rebuild
+ */
+export function clearWitnessDebugCache(): void {
+  debugInfo.clear();
+  templateFiles.clear();
+}
+
+function loadDebugInfo(circuitId: string, manifestPath: string, files?: CircuitFiles): Promise<CircuitDebugInfo> {
+  const cacheKey = files ? files.wasm : `${manifestPath}:${circuitId}`;
+  if (!debugInfo.has(cacheKey)) {
+    const loaded = readDebugInfo(files ?? manifestFiles(circuitId, manifestPath));
+    loaded.catch(() => debugInfo.delete(cacheKey));
+    debugInfo.set(cacheKey, loaded);
+  }
+  return debugInfo.get(cacheKey)!;
+}
+
+function manifestFiles(circuitId: string, manifestPath: string): CircuitFiles {
+  const entry = getCircuitArtifacts(circuitId, manifestPath);
+  return {
+    wasm: resolveArtifactPath(entry.wasm, manifestPath),
+    r1cs: resolveArtifactPath(entry.r1cs, manifestPath),
+    source: resolveArtifactPath(entry.source, manifestPath),
+  };
+}
+
+async function readDebugInfo(files: CircuitFiles): Promise<CircuitDebugInfo> {
+  const [module, { constraints }, symbols] = await Promise.all([
+    readFile(files.wasm).then((code) => WebAssembly.compile(code)),
+    r1cs.exportJson(files.r1cs),
+    readFile(files.r1cs.replace(/\.r1cs$/, ".sym"), "utf8"),
+  ]);
+
+  const wires = new Map<string, number>();
+  const wireNames = new Map<number, string>();
+  // Each line is `label,wire,component,name`, with wire -1 for signals removed by the optimizer
+  for (const line of symbols.split("\n")) {
+    const [, wire, , fullName] = line.split(",");
+    if (!fullName?.startsWith("main.")) {
+      continue;
+    }
+    const name = fullName.slice("main.".length);
+    wires.set(name, Number(wire));
+    if (Number(wire) >= 0 && !wireNames.has(Number(wire))) {
+      wireNames.set(Number(wire), name);
+    }
+  }
+  return { module, constraints, wires, wireNames, source: files.source };
+}
+
+/**
+ * Runs the witness calculator, collecting the messages of failed assertions
+ * instead of throwing, so the signals computed before them can be read
+ *
+ * @throws For missing or unknown inputs and runtime errors other than failed assertions
+ */
+async function calculateWitness(
+  module: WebAssembly.Module,
+  input: Record<string, unknown>,
+  failures: string[],
+): Promise<bigint[]> {
+  let message = "";
+  // Only called back by the runtime once `exports` below is set
+  const readMessage = (): string => {
+    let text = "";
+    for (let char = exports.getMessageChar(); char !== 0; char = exports.getMessageChar()) {
+      text += String.fromCharCode(char);
+    }
+    return text;
+  };
+
+  const instance = await WebAssembly.instantiate(module, {
+    runtime: {
+      exceptionHandler: (code: number) => {
+        if (code !== ASSERT_FAILED) {
+          throw new Error(`${RUNTIME_ERRORS[code] ?? "Unknown error"}: ${message.trim()}`);
+        }
+        failures.push(message);
+        message = "";
+      },
+      printErrorMessage: () => {
+        message += `${readMessage()}\n`;
+      },
+      // Output of `log()` in the circuit is not part of the report
+      writeBufferMessage: () => readMessage(),
+      showSharedRWMemory: () => undefined,
+    },
+  });
+  const exports = instance.exports as unknown as WitnessExports;
+
+  const words = exports.getFieldNumLen32();
+  exports.getRawPrime();
+  const prime = readField(exports, words);
+  exports.init(1);
+
+  const signals = new Map<string, unknown[]>();
+  qualifyInput(input, "", signals);
+  let assigned = 0;
+  for (const [name, values] of signals) {
+    const hash = fnvHash(name);
+    const hashMSB = Number(hash >> 32n);
+    const hashLSB = Number(hash & 0xffffffffn);
+    const size = exports.getInputSignalSize(hashMSB, hashLSB);
+    if (size < 0) {
+      throw new Error(`Signal ${name} not found`);
+    }
+    if (values.length !== size) {
+      throw new Error(`Input signal ${name} takes ${size} values, got ${values.length}`);
+    }
+    values.forEach((value, position) => {
+      const element = ((BigInt(value as string) % prime) + prime) % prime;
+      for (let j = 0; j < words; j++) {
+        exports!.writeSharedRWMemory(j, Number((element >> BigInt(32 * j)) & 0xffffffffn));
+      }
+      exports!.setInputSignal(hashMSB, hashLSB, position);
+      assigned++;
+    });
+  }
+  if (assigned < exports.getInputSize()) {
+    throw new Error(`Only ${assigned} of ${exports.getInputSize()} input values were set`);
+  }
+
+  const witness: bigint[] = [];
+  for (let i = 0; i < exports.getWitnessSize(); i++) {
+    exports.getWitness(i);
+    witness.push(readField(exports, words));
+  }
+  return witness;
+}
+
+function checkConstraints(info: CircuitDebugInfo, witness: bigint[], limit: number): ConstraintViolation[] {
+  const prime = SNARK_SCALAR_FIELD;
+  const evaluate = (terms: Record<string, string>): bigint =>
+    Object.entries(terms).reduce(
+      (sum, [wire, coefficient]) => (sum + BigInt(coefficient) * witness[Number(wire)]) % prime,
+      0n,
+    );
+
+  const violations: ConstraintViolation[] = [];
+  for (let index = 0; index < info.constraints.length && violations.length < limit; index++) {
+    const [a, b, c] = info.constraints[index];
+    const [valueA, valueB, valueC] = [evaluate(a), evaluate(b), evaluate(c)];
+    if ((valueA * valueB) % prime === valueC) {
+      continue;
+    }
+    // Wire 0 is the constant 1
+    const wires = [...new Set([a, b, c].flatMap((terms) => Object.keys(terms).map(Number)))].filter(
+      (wire) => wire > 0,
+    );
+    violations.push({
+      index,
+      a: valueA.toString(),
+      b: valueB.toString(),
+      c: valueC.toString(),
+      signals: wires.map((wire) => signalValue(info.wireNames.get(wire) ?? `wire ${wire}`, wire, witness)),
+    });
+  }
+  return violations;
+}
+
+/**
+ * Maps `Error in template <Name>_<id> line: <n>` to the template's source line
+ */
+function locateAssertion(message: string, source: string): AssertionFailure {
+  const match = /template (\w+)_\d+ line: (\d+)/.exec(message);
+  if (!match) {
+    return { template: "unknown", line: 0, code: message.trim() || undefined };
+  }
+  const [, template, line] = match;
+  const file = findTemplate(template, source);
+  const code = file ? readSource(file)?.split("\n")[Number(line) - 1]?.trim() : undefined;
+  return { template, line: Number(line), file, code };
+}
+
+function findTemplate(template: string, source: string): string | undefined {
+  if (!templateFiles.has(template)) {
+    const declaration = new RegExp(`^\\s*template\\s+${template}\\s*\\(`, "m");
+    const candidates = [source, ...listCircomFiles(path.dirname(source)), ...listCircomFiles(circomlibCircuits())];
+    templateFiles.set(template, candidates.find((file) => declaration.test(readSource(file) ?? "")));
+  }
+  return templateFiles.get(template);
+}
+
+/** circomlib is a dev dependency, used when building; without it only the project's circuits are searched */
+function circomlibCircuits(): string {
+  try {
+    return path.join(path.dirname(require.resolve("circomlib/package.json")), "circuits");
+  } catch {
+    return "";
+  }
+}
+
+function readSource(file: string): string | undefined {
+  try {
+    return readFileSync(file, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+function listCircomFiles(dir: string): string[] {
+  try {
+    return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+      const file = path.join(dir, entry.name);
+      return entry.isDirectory() ? listCircomFiles(file) : entry.name.endsWith(".circom") ? [file] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Flattens an input object into signal names and values the way circom's
+ * calculator does: nested objects become `a.b` and arrays of objects `a[0].b`
+ */
+function qualifyInput(input: unknown, prefix: string, signals: Map<string, unknown[]>): void {
+  if (Array.isArray(input)) {
+    const values = flatten(input);
+    if (values.length > 0 && typeof values[0] === "object") {
+      input.forEach((item, i) => qualifyInput(item, `${prefix}[${i}]`, signals));
+    } else {
+      signals.set(prefix, values);
+    }
+  } else if (input !== null && typeof input === "object") {
+    for (const [key, value] of Object.entries(input)) {
+      qualifyInput(value, prefix ? `${prefix}.${key}` : key, signals);
+    }
+  } else {
+    signals.set(prefix, [input]);
+  }
+}
+
+function flatten(values: unknown[]): unknown[] {
+  return values.flatMap((value) => (Array.isArray(value) ? flatten(value) : [value]));
+}
+
+/** 64-bit FNV-1a, which circom uses to address input signals */
+function fnvHash(name: string): bigint {
+  let hash = 0xcbf29ce484222325n;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= BigInt(name.charCodeAt(i));
+    hash = (hash * 0x100000001b3n) % 2n ** 64n;
+  }
+  return hash;
+}
+
+function readField(exports: WitnessExports, words: number): bigint {
+  let value = 0n;
+  for (let j = words - 1; j >= 0; j--) {
+    value = (value << 32n) | BigInt(exports.readSharedRWMemory(j) >>> 0);
+  }
+  return value;
+}
+
+function signalValue(name: string, wire: number, witness?: bigint[]): SignalValue {
+  return { name, value: wire >= 0 && witness ? witness[wire]?.toString() : undefined };
+}
+
+function formatSignal(signal: SignalValue): string {
+  return `${signal.name} = ${signal.value ?? "(optimized away)"}`;
+}
+
+function parseArgs(argv: string[]): {
+  circuitId: string;
+  inputPath: string;
+  options: DebugWitnessOptions;
+  json: boolean;
+} {
+  const positional: string[] = [];
+  const options: DebugWitnessOptions = {};
+  let json = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--signal") {
+      (options.signals ??= []).push(argv[++i]);
+    } else if (arg === "--manifest") {
+      options.manifestPath = argv[++i];
+    } else if (arg === "--json") {
+      json = true;
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown argument ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+  if (positional.length !== 2) {
+    throw new Error("Usage: witnessDebugger <circuit> <input.json> [--signal <name>]... [--manifest <path>] [--json]");
+  }
+  return { circuitId: positional[0], inputPath: positional[1], options, json };
+}
+
+if (require.main === module) {
+  (async () => {
+    const { circuitId, inputPath, options, json } = parseArgs(process.argv.slice(2));
+    const report = await debugWitness(circuitId, JSON.parse(readFileSync(inputPath, "utf8")), options);
+    console.log(json ? JSON.stringify(report, null, 2) : formatWitnessReport(report));
+    process.exit(report.satisfied ? 0 : 1);
+  })().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(2);
+  });
+}
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { curves } from "snarkjs";
+import { AggregateProof, ProofType } from "@syndual/core-types";
+import { aggregateProofs, verifyAggregateProof } from "../src/aggregation";
+import { DUAL_STATE_SIGNALS } from "../src/dualStateProver";
+import proofs from "./fixtures/proofs.json";
+
+/**
+ * Runs on real Groth16 proofs from `fixtures/proofs.json`: three dual_state
+ * proofs and one qstream_settle proof, checked under the verification keys
+ * they were made with, so no circuit build is needed
+ */
+
+const DUAL_STATE = { verificationKeyPath: path.join(__dirname, "fixtures", "dual_state.vkey.json") };
+const QSTREAM = { verificationKeyPath: path.join(__dirname, "fixtures", "qstream_settle.vkey.json") };
+
+type Proof = AggregateProof["proofs"][number];
+
+// The curve's worker threads would keep the test process alive
+after(async () => (await curves.getCurveFromName("bn128")).terminate());
+
+function withProof(proof: Proof, patch: (parsed: Record<string, unknown>) => void): Proof {
+  const parsed = JSON.parse(proof.proof);
+  patch(parsed);
+  return { ...proof, proof: JSON.stringify(parsed) };
+}
+
+function withSignal(proof: Proof, index: number, value: string): Proof {
+  const publicSignals = [...proof.publicSignals];
+  publicSignals[index] = value;
+  return { ...proof, publicSignals };
+}
+
+describe("aggregateProofs", () => {
+  it("aggregates a valid batch that verifies", async () => {
+    const aggregate = await aggregateProofs(ProofType.DUAL_STATE, proofs.dual_state, DUAL_STATE);
+    assert.equal(aggregate.type, ProofType.MERKLE_BATCH);
+    assert.equal(aggregate.proofs.length, 3);
+    assert.match(aggregate.root, /^0x[0-9a-f]{64}$/);
+    assert.equal(await verifyAggregateProof(aggregate, DUAL_STATE), true);
+
+    const single = await aggregateProofs(ProofType.QSTREAM, proofs.qstream_settle, QSTREAM);
+    assert.equal(await verifyAggregateProof(single, QSTREAM), true);
+  });
+
+  it("names a tampered proof", async () => {
+    const [first, second, third] = proofs.dual_state;
+    const tampered = withProof(second, (parsed) => (parsed.pi_a = JSON.parse(first.proof).pi_a));
+    await assert.rejects(
+      aggregateProofs(ProofType.DUAL_STATE, [first, tampered, third], DUAL_STATE),
+      /^Error: Proofs 1 do not verify$/,
+    );
+  });
+
+  it("names a proof with a tampered public signal", async () => {
+    const [first, second, third] = proofs.dual_state;
+    const tampered = withSignal(third, DUAL_STATE_SIGNALS.selected, "11");
+    await assert.rejects(
+      aggregateProofs(ProofType.DUAL_STATE, [first, second, tampered], DUAL_STATE),
+      /^Error: Proofs 2 do not verify$/,
+    );
+  });
+
+  it("refuses proofs of another circuit", async () => {
+    await assert.rejects(
+      aggregateProofs(ProofType.DUAL_STATE, [proofs.dual_state[0], proofs.qstream_settle[0]], DUAL_STATE),
+      /^Error: Proofs 1 do not verify$/,
+    );
+  });
+
+  it("refuses an empty batch", async () => {
+    await assert.rejects(aggregateProofs(ProofType.DUAL_STATE, [], DUAL_STATE), /^Error: No proofs to aggregate$/);
+  });
+});
+
+describe("verifyAggregateProof", () => {
+  it("rejects an aggregate whose proof was swapped for a tampered one", async () => {
+    const aggregate = await aggregateProofs(ProofType.DUAL_STATE, proofs.dual_state, DUAL_STATE);
+    const [first, second] = aggregate.proofs;
+    aggregate.proofs[1] = withProof(second, (parsed) => (parsed.pi_c = JSON.parse(first.proof).pi_c));
+    // The root covers the public signals only, so only the pairing check can catch this
+    assert.equal(await verifyAggregateProof(aggregate, DUAL_STATE), false);
+  });
+
+  it("rejects a tampered public signal", async () => {
+    const aggregate = await aggregateProofs(ProofType.DUAL_STATE, proofs.dual_state, DUAL_STATE);
+    aggregate.proofs[0] = withSignal(aggregate.proofs[0], DUAL_STATE_SIGNALS.epoch, "7");
+    assert.equal(await verifyAggregateProof(aggregate, DUAL_STATE), false);
+  });
+
+  it("rejects an aggregate mixing circuits", async () => {
+    const aggregate = await aggregateProofs(ProofType.DUAL_STATE, proofs.dual_state, DUAL_STATE);
+    const mixed = { ...aggregate, proofs: [...aggregate.proofs, proofs.qstream_settle[0]] };
+    assert.equal(await verifyAggregateProof(mixed, DUAL_STATE), false);
+    assert.equal(await verifyAggregateProof({ ...aggregate, proofType: ProofType.QSTREAM }, QSTREAM), false);
+  });
+
+  it("rejects an empty aggregate", async () => {
+    const aggregate = await aggregateProofs(ProofType.DUAL_STATE, proofs.dual_state, DUAL_STATE);
+    assert.equal(await verifyAggregateProof({ ...aggregate, proofs: [] }, DUAL_STATE), false);
+  });
+});
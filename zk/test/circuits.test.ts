@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { CircuitHarness } from "../src/circuitHarness";
+import { disableTestMode, enableTestMode } from "../src/mode";
+import { computeQStreamSecretCommitment } from "../src/nullifier";
+import { generateQStreamProof } from "../src/qStreamProver";
+
+/**
+ * Checks that the test-mode proofs, which the SDK and API tests run on, show
+ * the public signals the circuits produce. Needs circom (`$CIRCOM_BIN`) and
+ * is skipped without it unless `REQUIRE_CIRCOM=1`.
+ */
+
+const harness = new CircuitHarness();
+const skip = harness.circomSkipReason();
+
+before(async () => {
+  if (!skip) {
+    await harness.checkCircom();
+  }
+  enableTestMode();
+});
+
+after(disableTestMode);
+
+describe("qstream_settle", { skip }, () => {
+  it("matches the public signals of test-mode Q-Stream proofs", async () => {
+    const stream = { ratePerSecond: 3n, start: 1000n, end: 2000n, settled: 300n };
+    const context = { streamId: 9, secret: "777" };
+
+    for (const currentTime of [1100, 1500, 2000, 2500]) {
+      const mock = await generateQStreamProof(stream, context, currentTime);
+      const input = {
+        ratePerSecond: stream.ratePerSecond,
+        streamStart: stream.start,
+        streamEnd: stream.end,
+        currentTime,
+        withdrawn: stream.settled,
+        streamId: context.streamId,
+        secretCommitment: await computeQStreamSecretCommitment(context.secret),
+        nullifierSecret: context.secret,
+      };
+      const outputs = await harness.assertSatisfied("qstream_settle", input);
+      const publicInputs = [
+        input.ratePerSecond,
+        input.streamStart,
+        input.streamEnd,
+        input.currentTime,
+        input.withdrawn,
+        input.streamId,
+        input.secretCommitment,
+      ];
+      assert.deepEqual(mock.publicSignals, [outputs.owedAmount, outputs.nullifier, ...publicInputs].map(String));
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { curves } from "snarkjs";
+import { ProofEnvelope, ProofSystem } from "@syndual/core-types";
+import { ethers } from "ethers";
+import { hashFile } from "../src/artifacts";
+import { verifyCircuitProof } from "../src/backends";
+import { toVerifierCalldata } from "../src/calldata";
+import {
+  PROOF_ENVELOPE_VERSION,
+  createProofEnvelope,
+  decodeProofEnvelope,
+  encodeProofEnvelope,
+  envelopeToCalldata,
+  envelopeToSnarkjs,
+  parseProofEnvelope,
+  serializeProofEnvelope,
+  verifyProofEnvelope,
+} from "../src/envelope";
+import proofs from "./fixtures/proofs.json";
+
+/**
+ * Runs on a real Groth16 dual_state proof from `fixtures/proofs.json`,
+ * verified under the key it was made with, so no build manifest is needed
+ */
+
+const DUAL_STATE_VKEY = path.join(__dirname, "fixtures", "dual_state.vkey.json");
+const QSTREAM_VKEY = path.join(__dirname, "fixtures", "qstream_settle.vkey.json");
+const CONFIG = { verificationKeyPath: DUAL_STATE_VKEY };
+
+// The curve's worker threads would keep the test process alive
+after(async () => (await curves.getCurveFromName("bn128")).terminate());
+
+function envelope(): ProofEnvelope {
+  return createProofEnvelope(
+    "dual_state",
+    { ...proofs.dual_state[0], timestamp: 1_700_000_000_000 },
+    { vkeyHash: `0x${hashFile(DUAL_STATE_VKEY)}` },
+  );
+}
+
+describe("proof envelopes", () => {
+  it("wraps a snarkjs proof", async () => {
+    const wrapped = envelope();
+    assert.equal(wrapped.version, PROOF_ENVELOPE_VERSION);
+    assert.equal(wrapped.scheme, ProofSystem.GROTH16);
+    assert.equal(wrapped.proof.length, 8);
+    assert.deepEqual(wrapped.publicSignals, proofs.dual_state[0].publicSignals);
+    assert.equal(await verifyProofEnvelope(wrapped, CONFIG), true);
+  });
+
+  it("round trips through JSON", () => {
+    const wrapped = envelope();
+    const json = serializeProofEnvelope(wrapped);
+    assert.deepEqual(parseProofEnvelope(json), wrapped);
+    assert.deepEqual(parseProofEnvelope(JSON.parse(json)), wrapped);
+    assert.equal(serializeProofEnvelope(parseProofEnvelope(json)), json);
+  });
+
+  it("round trips through the binary form", () => {
+    const wrapped = envelope();
+    const bytes = encodeProofEnvelope(wrapped);
+    assert.equal(ethers.toUtf8String(bytes.slice(0, 4)), "SDPE");
+    assert.deepEqual(decodeProofEnvelope(bytes), wrapped);
+    assert.deepEqual(decodeProofEnvelope(ethers.hexlify(bytes)), wrapped);
+    assert.deepEqual(encodeProofEnvelope(decodeProofEnvelope(bytes)), bytes);
+  });
+
+  it("round trips through snarkjs JSON", async () => {
+    const wrapped = envelope();
+    const snarkjs = envelopeToSnarkjs(wrapped);
+    assert.equal(snarkjs.scheme, ProofSystem.GROTH16);
+    assert.deepEqual(snarkjs.publicSignals, proofs.dual_state[0].publicSignals);
+    assert.equal(await verifyCircuitProof("dual_state", snarkjs, CONFIG), true);
+    const rewrapped = createProofEnvelope(
+      "dual_state",
+      { ...snarkjs, timestamp: wrapped.timestamp },
+      { vkeyHash: wrapped.vkeyHash },
+    );
+    assert.deepEqual(rewrapped, wrapped);
+  });
+
+  it("converts to the verifier's calldata", () => {
+    assert.deepEqual(envelopeToCalldata(envelope()), toVerifierCalldata(proofs.dual_state[0]));
+  });
+
+  it("rejects an unknown version", () => {
+    const wrapped = envelope();
+    assert.throws(
+      () => parseProofEnvelope({ ...wrapped, version: 2 }),
+      /^Error: Unsupported proof envelope version 2$/,
+    );
+    const bytes = encodeProofEnvelope(wrapped);
+    bytes[4] = 2;
+    assert.throws(() => decodeProofEnvelope(bytes), /^Error: Unsupported proof envelope version 2$/);
+  });
+
+  it("rejects truncated and trailing bytes", () => {
+    const bytes = encodeProofEnvelope(envelope());
+    for (const length of [0, 3, 40, bytes.length - 1]) {
+      assert.throws(() => decodeProofEnvelope(bytes.slice(0, length)), /^Error: Proof envelope is truncated$/);
+    }
+    assert.throws(
+      () => decodeProofEnvelope(ethers.concat([bytes, "0x00"])),
+      /^Error: Proof envelope has trailing data$/,
+    );
+    assert.throws(() => decodeProofEnvelope(`0x00${ethers.hexlify(bytes).slice(4)}`), /is not a proof envelope/);
+  });
+
+  it("does not verify under a vkeyHash other than the key's", async () => {
+    const wrapped = envelope();
+    assert.equal(await verifyProofEnvelope({ ...wrapped, vkeyHash: `0x${hashFile(QSTREAM_VKEY)}` }, CONFIG), false);
+    assert.equal(await verifyProofEnvelope({ ...wrapped, vkeyHash: `0x${"00".repeat(32)}` }, CONFIG), false);
+  });
+});
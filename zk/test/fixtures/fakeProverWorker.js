@@ -0,0 +1,19 @@
+const { parentPort } = require("worker_threads");
+
+/**
+ * Stands in for proverWorker: `input.delayMs` delays the reply, `input.fail`
+ * answers with that error and `input.crash` exits the thread
+ */
+parentPort.on("message", (request) => {
+  const { delayMs = 0, fail, crash } = request.input;
+  if (crash) {
+    process.exit(1);
+  }
+  setTimeout(() => {
+    parentPort.postMessage(
+      fail
+        ? { id: request.id, ok: false, error: fail }
+        : { id: request.id, ok: true, proof: JSON.stringify(request.input), publicSignals: [String(request.id)] },
+    );
+  }, delayMs);
+});
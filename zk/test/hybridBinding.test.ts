@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { HybridProof, HybridSettlement, Stream } from "@syndual/core-types";
+import { DUAL_STATE_SIGNALS, generateDualStateProof } from "../src/dualStateProver";
+import { HYBRID_SIGNALS, computeHybridHash, verifyHybridBinding } from "../src/hybridBinding";
+import { HybridProver } from "../src/hybridProver";
+import { disableTestMode, enableTestMode } from "../src/mode";
+import { generateQStreamProof } from "../src/qStreamProver";
+
+/**
+ * Runs in test mode: the component and binding proofs are mocks, so a forged
+ * binding can be made for any settlement and only the binding checks stand
+ * between it and acceptance
+ */
+
+const KEY = `0x${"11".repeat(32)}`;
+const DUAL_STATE = { key: KEY, state0: "1", state1: "2", createdAt: 0 };
+
+const stream: Stream = {
+  from: `0x${"aa".repeat(20)}`,
+  to: `0x${"bb".repeat(20)}`,
+  ratePerSecond: 5n,
+  start: 1000n,
+  end: 2000n,
+};
+
+async function hybridProof(): Promise<HybridProof> {
+  const dualStateProof = await generateDualStateProof("1", "2", 0, { salt0: "3", salt1: "4" }, { key: KEY });
+  const streamProof = await generateQStreamProof(stream, { streamId: 1, secret: "42" }, 1500);
+  const prover = new HybridProver({ circuitWasm: "unused.wasm", zkeyPath: "unused.zkey" });
+  return prover.generateHybridProof(DUAL_STATE, stream, dualStateProof, streamProof);
+}
+
+/** Re-binds `proof` to `settlement`, as a prover free to pick the settlement would */
+async function rebind(proof: HybridProof, settlement: HybridSettlement): Promise<HybridProof> {
+  const signals = [...proof.combinedSignals];
+  const dualStateSignals = proof.dualStateProof.publicSignals;
+  const hybridHash = await computeHybridHash(
+    dualStateSignals[DUAL_STATE_SIGNALS.commitment0],
+    dualStateSignals[DUAL_STATE_SIGNALS.commitment1],
+    settlement,
+  );
+  signals[HYBRID_SIGNALS.hybridHash] = hybridHash.toString();
+  const remaining = BigInt(settlement.streamAmount) - BigInt(settlement.settledAmount);
+  signals[HYBRID_SIGNALS.remainingFlow] = remaining.toString();
+  return { ...proof, settlement, combinedSignals: signals };
+}
+
+describe("verifyHybridBinding", () => {
+  before(enableTestMode);
+  after(disableTestMode);
+
+  it("accepts a settlement read from the stream proof", async () => {
+    const proof = await hybridProof();
+    assert.deepEqual(proof.settlement, { streamAmount: "5000", settledAmount: "2500", timeElapsed: "500" });
+    assert.equal(proof.verified, true);
+    assert.deepEqual(await verifyHybridBinding(proof), {
+      valid: true,
+      errors: undefined,
+      metadata: {
+        hybridHash: proof.combinedSignals[HYBRID_SIGNALS.hybridHash],
+        merkleRoot: proof.combinedSignals[HYBRID_SIGNALS.merkleRoot],
+      },
+    });
+  });
+
+  it("rejects a stream amount the stream proof does not show", async () => {
+    const proof = await hybridProof();
+    const forged = await rebind(proof, { ...proof.settlement!, streamAmount: "9000" });
+    const result = await verifyHybridBinding(forged);
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, ["Stream amount does not match the stream proof"]);
+  });
+
+  it("rejects a time elapsed the stream proof does not show", async () => {
+    const proof = await hybridProof();
+    const forged = await rebind(proof, { ...proof.settlement!, timeElapsed: "900" });
+    const result = await verifyHybridBinding(forged);
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, ["Time elapsed does not match the stream proof"]);
+  });
+
+  it("refuses to bind a stream proof made for other stream terms", async () => {
+    const dualStateProof = await generateDualStateProof("1", "2", 0, { salt0: "3", salt1: "4" }, { key: KEY });
+    const streamProof = await generateQStreamProof({ ...stream, end: 3000n }, { streamId: 1, secret: "42" }, 1500);
+    const prover = new HybridProver({ circuitWasm: "unused.wasm", zkeyPath: "unused.zkey" });
+    await assert.rejects(
+      prover.generateHybridProof(DUAL_STATE, stream, dualStateProof, streamProof),
+      /Stream proof was made for other stream terms/,
+    );
+  });
+});
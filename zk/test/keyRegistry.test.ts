@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { curves } from "snarkjs";
+import { createProofEnvelope } from "../src/envelope";
+import { KeyVerifier, VerificationKeyRegistry } from "../src/keyRegistry";
+import proofs from "./fixtures/proofs.json";
+
+/**
+ * The lifecycle tests stand in a verifier that accepts a proof under one
+ * named key file, so they need no key files; the envelope tests verify a real
+ * Groth16 proof from `fixtures/proofs.json` under the key it was made with
+ */
+
+const CIRCUIT = "dual_state";
+const PROOF = proofs.dual_state[0];
+const DUAL_STATE_VKEY = path.join(__dirname, "fixtures", "dual_state.vkey.json");
+
+// The curve's worker threads would keep the test process alive
+after(async () => (await curves.getCurveFromName("bn128")).terminate());
+
+function key(n: number): { vkeyHash: string; verificationKeyPath: string } {
+  return { vkeyHash: `0x${n.toString(16).padStart(64, "0")}`, verificationKeyPath: `v${n}.vkey.json` };
+}
+
+/** Accepts the proof only under `verificationKeyPath` */
+function madeWith(verificationKeyPath: string): KeyVerifier {
+  return async (config) => config.verificationKeyPath === verificationKeyPath;
+}
+
+describe("VerificationKeyRegistry", () => {
+  it("activates a key at its activation time", async () => {
+    const registry = new VerificationKeyRegistry();
+    const v1 = registry.register(CIRCUIT, { ...key(1), activatesAt: 100 });
+    assert.equal(v1.version, 1);
+    assert.equal(registry.status(v1, 99), "pending");
+    assert.equal(registry.status(v1, 100), "active");
+    assert.deepEqual(registry.activeKeys(CIRCUIT, 99), []);
+
+    const verify = madeWith(key(1).verificationKeyPath);
+    assert.deepEqual(await registry.verifyProof(CIRCUIT, PROOF, { at: 99, verify }), {
+      valid: false,
+      key: v1,
+      error: "Proof was made with pending dual_state key version 1",
+    });
+    assert.deepEqual(await registry.verifyProof(CIRCUIT, PROOF, { at: 100, verify }), { valid: true, key: v1 });
+  });
+
+  it("expires a key at its expiry time", async () => {
+    const registry = new VerificationKeyRegistry();
+    const v1 = registry.register(CIRCUIT, { ...key(1), activatesAt: 100, expiresAt: 200 });
+    assert.equal(registry.status(v1, 199), "active");
+    assert.equal(registry.status(v1, 200), "retired");
+
+    const verify = madeWith(key(1).verificationKeyPath);
+    const result = await registry.verifyProof(CIRCUIT, PROOF, { at: 200, verify });
+    assert.equal(result.valid, false);
+    assert.equal(result.error, "Proof was made with retired dual_state key version 1");
+
+    assert.throws(
+      () => registry.register(CIRCUIT, { ...key(2), activatesAt: 300, expiresAt: 300 }),
+      /^Error: A verification key must expire after it activates$/,
+    );
+  });
+
+  it("accepts proofs under either key during a rotation's overlap window", async () => {
+    const registry = new VerificationKeyRegistry();
+    const v1 = registry.register(CIRCUIT, { ...key(1), activatesAt: 100 });
+    const v2 = registry.rotate(CIRCUIT, { ...key(2), activatesAt: 1000 }, 50);
+    assert.equal(v2.version, 2);
+    assert.equal(v1.expiresAt, 1050);
+    assert.equal(v2.expiresAt, undefined);
+
+    assert.deepEqual(registry.activeKeys(CIRCUIT, 999), [v1]);
+    assert.deepEqual(registry.activeKeys(CIRCUIT, 1000), [v2, v1]);
+    assert.deepEqual(registry.activeKeys(CIRCUIT, 1050), [v2]);
+
+    const oldProof = madeWith(key(1).verificationKeyPath);
+    const newProof = madeWith(key(2).verificationKeyPath);
+    assert.deepEqual(await registry.verifyProof(CIRCUIT, PROOF, { at: 1049, verify: oldProof }), {
+      valid: true,
+      key: v1,
+    });
+    assert.deepEqual(await registry.verifyProof(CIRCUIT, PROOF, { at: 1049, verify: newProof }), {
+      valid: true,
+      key: v2,
+    });
+    const late = await registry.verifyProof(CIRCUIT, PROOF, { at: 1050, verify: oldProof });
+    assert.equal(late.valid, false);
+    assert.equal(late.error, "Proof was made with retired dual_state key version 1");
+    const early = await registry.verifyProof(CIRCUIT, PROOF, { at: 999, verify: newProof });
+    assert.equal(early.error, "Proof was made with pending dual_state key version 2");
+
+    const rejected = await registry.verifyProof(CIRCUIT, PROOF, { at: 1000, verify: async () => false });
+    assert.deepEqual(rejected, { valid: false, error: "Proof verification failed" });
+  });
+
+  it("keeps an earlier expiry when rotating", () => {
+    const registry = new VerificationKeyRegistry();
+    const v1 = registry.register(CIRCUIT, { ...key(1), activatesAt: 100, expiresAt: 1020 });
+    registry.rotate(CIRCUIT, { ...key(2), activatesAt: 1000 }, 50);
+    assert.equal(v1.expiresAt, 1020);
+    assert.throws(() => registry.rotate("rollup", key(3), 50), /^Error: rollup has no key to rotate$/);
+  });
+
+  it("retires a key", async () => {
+    const registry = new VerificationKeyRegistry();
+    registry.register(CIRCUIT, { ...key(1), activatesAt: 100 });
+    const v1 = registry.retire(CIRCUIT, 1, 500);
+    assert.equal(v1.expiresAt, 500);
+    assert.equal(registry.status(v1, 499), "active");
+    assert.equal(registry.status(v1, 500), "retired");
+
+    const verify = madeWith(key(1).verificationKeyPath);
+    const result = await registry.verifyProof(CIRCUIT, PROOF, { at: 500, verify });
+    assert.deepEqual(result, {
+      valid: false,
+      key: v1,
+      error: "Proof was made with retired dual_state key version 1",
+    });
+
+    assert.throws(() => registry.retire(CIRCUIT, 1, 600), /^Error: dual_state key version 1 is already retired$/);
+    assert.throws(() => registry.retire(CIRCUIT, 2, 600), /^Error: Unknown dual_state key version 2$/);
+  });
+
+  it("reloads its records", () => {
+    const registry = new VerificationKeyRegistry();
+    registry.register(CIRCUIT, { ...key(1), activatesAt: 100 });
+    registry.rotate(CIRCUIT, { ...key(2), activatesAt: 1000 }, 50);
+    assert.deepEqual(new VerificationKeyRegistry(registry.toJSON()).toJSON(), registry.toJSON());
+
+    const [, v2] = registry.toJSON();
+    assert.throws(() => new VerificationKeyRegistry([v2]), /^Error: dual_state key versions must count up from 1$/);
+    assert.throws(
+      () => registry.register("rollup", { vkeyHash: key(1).vkeyHash }),
+      /^Error: Verification key 0x0+1 is already registered$/,
+    );
+  });
+
+  it("verifies an envelope only while its key is active", async () => {
+    const registry = new VerificationKeyRegistry();
+    const v1 = registry.register(CIRCUIT, { verificationKeyPath: DUAL_STATE_VKEY, activatesAt: 100 });
+    const envelope = createProofEnvelope(CIRCUIT, PROOF, { vkeyHash: v1.vkeyHash });
+
+    assert.deepEqual(await registry.verifyEnvelope(envelope, 100), { valid: true, key: v1 });
+    assert.deepEqual(await registry.verifyEnvelope(envelope, 99), {
+      valid: false,
+      key: v1,
+      error: "Proof was made with pending dual_state key version 1",
+    });
+    const tampered = { ...envelope, publicSignals: [...envelope.publicSignals].reverse() };
+    assert.deepEqual(await registry.verifyEnvelope(tampered, 100), {
+      valid: false,
+      key: v1,
+      error: "Proof verification failed",
+    });
+
+    registry.retire(CIRCUIT, 1, 500);
+    assert.deepEqual(await registry.verifyEnvelope(envelope, 500), {
+      valid: false,
+      key: v1,
+      error: "Proof was made with retired dual_state key version 1",
+    });
+
+    const unknown = { ...envelope, vkeyHash: key(9).vkeyHash };
+    assert.deepEqual(await registry.verifyEnvelope(unknown, 100), {
+      valid: false,
+      error: `Unknown dual_state verification key ${key(9).vkeyHash}`,
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PerformanceMetrics } from "../src/testUtils";
+
+const MB = 1024 * 1024;
+
+describe("PerformanceMetrics", () => {
+  it("counts memory grown since start, not memory held before", () => {
+    const held = Buffer.alloc(128 * MB, 1);
+    assert.equal(held[0], 1);
+    const metrics = new PerformanceMetrics();
+
+    metrics.start("allocate");
+    const allocated = Buffer.alloc(64 * MB, 1);
+    metrics.end("allocate");
+    assert.equal(allocated[0], 1);
+
+    const growth = metrics.getPeakMemory("allocate")!;
+    assert.ok(growth >= 48 * MB, `grew ${growth} bytes`);
+    assert.ok(growth < 128 * MB, `grew ${growth} bytes`);
+  });
+
+  it("reports no growth for an operation that allocates nothing", () => {
+    const metrics = new PerformanceMetrics();
+    metrics.start("idle");
+    metrics.end("idle");
+    assert.ok(metrics.getPeakMemory("idle")! < 16 * MB);
+  });
+});
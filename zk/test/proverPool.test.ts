@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { ProofJob, ProverPool, ProverPoolOptions } from "../src/proverPool";
+
+/**
+ * Runs the pool against a fake worker that answers, fails, stalls or crashes
+ * on request, so no circuit artifacts are needed
+ */
+
+const FAKE_WORKER = path.join(__dirname, "fixtures", "fakeProverWorker.js");
+
+function job(input: Record<string, unknown> = {}): ProofJob {
+  return { circuitWasm: "unused.wasm", zkeyPath: "unused.zkey", input };
+}
+
+describe("ProverPool", () => {
+  let pools: ProverPool[] = [];
+
+  afterEach(async () => {
+    await Promise.all(pools.map((pool) => pool.destroy()));
+    pools = [];
+  });
+
+  function createPool(options: ProverPoolOptions = {}): ProverPool {
+    const pool = new ProverPool({ concurrency: 1, workerScript: FAKE_WORKER, ...options });
+    pools.push(pool);
+    return pool;
+  }
+
+  it("returns the worker's proof", async () => {
+    const pool = createPool();
+    const result = await pool.prove(job({ value: 1 }));
+    assert.equal(result.proof, JSON.stringify({ value: 1 }));
+  });
+
+  it("rejects with the worker's error when proving fails", async () => {
+    const pool = createPool();
+    await assert.rejects(pool.prove(job({ fail: "bad witness" })), /Proving failed: bad witness/);
+  });
+
+  it("times out a stalled job and proves the next one on a fresh worker", async () => {
+    const pool = createPool({ timeout: 60_000 });
+    await assert.rejects(pool.prove(job({ delayMs: 60_000 }), { timeout: 50 }), /Proof job timed out after 50ms/);
+    assert.equal(pool.running, 0);
+    assert.ok(await pool.prove(job({ value: 2 })));
+  });
+
+  it("applies the pool timeout to every job", async () => {
+    const pool = createPool({ timeout: 50 });
+    await assert.rejects(pool.prove(job({ delayMs: 60_000 })), /Proof job timed out after 50ms/);
+  });
+
+  it("aborts running and queued jobs", async () => {
+    const pool = createPool();
+    const controller = new AbortController();
+    const running = pool.prove(job({ delayMs: 60_000 }), { signal: controller.signal });
+    const queued = pool.prove(job(), { signal: controller.signal });
+    assert.equal(pool.queued, 1);
+
+    controller.abort();
+    await assert.rejects(running, /Proof job aborted/);
+    await assert.rejects(queued, /Proof job aborted/);
+    assert.equal(pool.queued, 0);
+    await assert.rejects(pool.prove(job(), { signal: controller.signal }), /Proof job aborted/);
+    assert.ok(await pool.prove(job()));
+  });
+
+  it("rejects new jobs while the queue is full", async () => {
+    const pool = createPool({ maxQueueSize: 1 });
+    const running = pool.prove(job({ delayMs: 50 }));
+    const queued = pool.prove(job());
+    assert.equal(pool.isSaturated(), true);
+
+    await assert.rejects(pool.prove(job()), /Prover pool queue is full \(1 jobs waiting\)/);
+    await Promise.all([running, queued]);
+    assert.equal(pool.isSaturated(), false);
+  });
+
+  it("replaces a worker that exits mid-job", async () => {
+    const pool = createPool();
+    await assert.rejects(pool.prove(job({ crash: true })), /Prover worker exited with code 1/);
+    assert.ok(await pool.prove(job({ value: 3 })));
+  });
+
+  it("rejects pending jobs and new ones once destroyed", async () => {
+    const pool = createPool();
+    const running = assert.rejects(pool.prove(job({ delayMs: 60_000 })), /Prover pool has been destroyed/);
+    const queued = assert.rejects(pool.prove(job()), /Prover pool has been destroyed/);
+
+    await pool.destroy();
+    await Promise.all([running, queued]);
+    await assert.rejects(pool.prove(job()), /Prover pool has been destroyed/);
+  });
+
+  it("pulls jobs lazily and reports each outcome in order", async () => {
+    const pool = createPool({ concurrency: 2 });
+    let pulled = 0;
+    let maxRunning = 0;
+    function* jobs() {
+      for (let i = 0; i < 5; i++) {
+        pulled++;
+        yield job(i === 2 ? { fail: "bad input" } : { value: i, delayMs: 10 });
+      }
+    }
+
+    const outcomes = await pool.proveAll(jobs(), {
+      onProgress: (progress) => {
+        maxRunning = Math.max(maxRunning, progress.running);
+        assert.ok(pulled - progress.completed - progress.failed <= 2);
+      },
+    });
+    assert.equal(maxRunning, 2);
+    assert.deepEqual(
+      outcomes.map((outcome) => [outcome.index, outcome.ok]),
+      [
+        [0, true],
+        [1, true],
+        [2, false],
+        [3, true],
+        [4, true],
+      ],
+    );
+  });
+
+  it("stops pulling jobs once proveAll is aborted", async () => {
+    const pool = createPool();
+    const controller = new AbortController();
+    let pulled = 0;
+    function* jobs() {
+      for (let i = 0; i < 5; i++) {
+        pulled++;
+        if (i === 1) controller.abort();
+        yield job({ delayMs: 10 });
+      }
+    }
+
+    const outcomes = await pool.proveAll(jobs(), { signal: controller.signal });
+    assert.equal(pulled, 2);
+    assert.equal(outcomes.length, 1);
+    assert.equal(outcomes[0].ok, false);
+  });
+});